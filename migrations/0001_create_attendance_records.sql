@@ -0,0 +1,22 @@
+-- 勤怠記録（時刻は UNIX 時間のミリ秒、end_time は未終了の場合 NULL）
+CREATE TABLE IF NOT EXISTS attendance_records (
+  id TEXT PRIMARY KEY, -- 記録ID（スプレッドシートの uuid 列と同じ値）
+  guild_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  username TEXT NOT NULL,
+  project_name TEXT NOT NULL,
+  channel_id TEXT NOT NULL,
+  todo TEXT NOT NULL DEFAULT '',
+  start_time INTEGER NOT NULL,
+  end_time INTEGER,
+  break_log TEXT NOT NULL DEFAULT '', -- 休憩記録（"開始~終了" を改行区切り）
+  break_minutes INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_records_open
+  ON attendance_records (guild_id, end_time);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_records_start
+  ON attendance_records (guild_id, start_time);
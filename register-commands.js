@@ -15,6 +15,16 @@ const DISCORD_API_BASE = "https://discord.com/api/v10";
 const APPLICATION_ID = process.env.DISCORD_APPLICATION_ID;
 const BOT_TOKEN = process.env.DISCORD_TOKEN;
 
+/**
+ * 英語クライアント向けのローカライズ（name_localizations / description_localizations）を生成
+ */
+function en(text) {
+  return { "en-US": text, "en-GB": text };
+}
+
+// /channels で指定できるチャンネルの種類（テキスト・ボイス・カテゴリー・アナウンス・ステージ・フォーラム）
+const PUNCH_CHANNEL_TYPES = [0, 2, 4, 5, 13, 15];
+
 /**
  * スラッシュコマンドを登録する関数
  */
@@ -32,16 +42,19 @@ async function registerCommands() {
       name: "start",
       type: 1, // CHAT_INPUT
       description: "勤務を開始します",
+      description_localizations: en("Start work"),
       options: [
         {
           name: "time",
           description: "開始時刻を指定 (例: 09:00, 0900)",
+          description_localizations: en("Start time (e.g. 09:00, 0900)"),
           type: 3, // STRING
           required: false,
         },
         {
           name: "day",
           description: "開始日を指定 (例: 2023-03-15, 20230315, today, yesterday, -1)",
+          description_localizations: en("Start date (e.g. 2023-03-15, 20230315, today, yesterday, -1)"),
           type: 3, // STRING
           required: false,
         },
@@ -51,22 +64,255 @@ async function registerCommands() {
       name: "end",
       type: 1, // CHAT_INPUT
       description: "勤務を終了します",
+      description_localizations: en("Finish work"),
       options: [
         {
           name: "todo",
           description: "やったことを記録 (例: コーディング, 会議, 資料作成)",
+          description_localizations: en("What you did (e.g. coding, meeting, writing docs)"),
           type: 3, // STRING
           required: true, // 必須に変更
         },
         {
           name: "time",
           description: "終了時刻を指定 (例: 18:00, 1800)",
+          description_localizations: en("End time (e.g. 18:00, 1800)"),
           type: 3, // STRING
           required: false,
         },
         {
           name: "day",
           description: "終了日を指定 (例: 2023-03-15, 20230315, today, yesterday, -1)",
+          description_localizations: en("End date (e.g. 2023-03-15, 20230315, today, yesterday, -1)"),
+          type: 3, // STRING
+          required: false,
+        },
+      ],
+    },
+    {
+      name: "break",
+      type: 1, // CHAT_INPUT
+      description: "休憩を開始します",
+      description_localizations: en("Start a break"),
+      options: [
+        {
+          name: "time",
+          description: "休憩開始時刻を指定 (例: 12:00, 1200)",
+          description_localizations: en("Break start time (e.g. 12:00, 1200)"),
+          type: 3, // STRING
+          required: false,
+        },
+      ],
+    },
+    {
+      name: "resume",
+      type: 1, // CHAT_INPUT
+      description: "休憩を終了して勤務を再開します",
+      description_localizations: en("End the break and resume work"),
+      options: [
+        {
+          name: "time",
+          description: "勤務再開時刻を指定 (例: 13:00, 1300)",
+          description_localizations: en("Resume time (e.g. 13:00, 1300)"),
+          type: 3, // STRING
+          required: false,
+        },
+      ],
+    },
+    {
+      name: "who",
+      type: 1, // CHAT_INPUT
+      description: "現在勤務中のメンバーを表示します",
+      description_localizations: en("Show members who are currently working"),
+      options: [
+        {
+          name: "channel_only",
+          description: "このチャンネルで勤務中のメンバーのみ表示",
+          description_localizations: en("Only show members working in this channel"),
+          type: 5, // BOOLEAN
+          required: false,
+        },
+      ],
+    },
+    {
+      name: "history",
+      type: 1, // CHAT_INPUT
+      description: "自分の勤怠履歴と合計時間を表示します",
+      description_localizations: en("Show your attendance history and total hours"),
+      options: [
+        {
+          name: "period",
+          description: "集計期間",
+          description_localizations: en("Period"),
+          type: 3, // STRING
+          required: false,
+          choices: [
+            {
+              name: "今日",
+              name_localizations: en("Today"),
+              value: "today",
+            },
+            {
+              name: "今週",
+              name_localizations: en("This week"),
+              value: "week",
+            },
+            {
+              name: "今月",
+              name_localizations: en("This month"),
+              value: "month",
+            },
+            {
+              name: "期間指定 (from/to)",
+              name_localizations: en("Custom (from/to)"),
+              value: "custom",
+            },
+          ],
+        },
+        {
+          name: "from",
+          description: "開始日を指定 (例: 2023-03-01, 20230301, yesterday, -7)",
+          description_localizations: en("Start date (e.g. 2023-03-01, 20230301, yesterday, -7)"),
+          type: 3, // STRING
+          required: false,
+        },
+        {
+          name: "to",
+          description: "終了日を指定 (例: 2023-03-31, today)",
+          description_localizations: en("End date (e.g. 2023-03-31, today)"),
+          type: 3, // STRING
+          required: false,
+        },
+        {
+          name: "project",
+          description: "プロジェクト名（チャンネル名）で絞り込み",
+          description_localizations: en("Filter by project (channel name)"),
+          type: 3, // STRING
+          required: false,
+        },
+      ],
+    },
+    {
+      name: "report",
+      type: 1, // CHAT_INPUT
+      description: "指定期間の勤怠レポートをチャンネルに投稿します（管理者用）",
+      description_localizations: en("Post an attendance report for a period to this channel (admin)"),
+      options: [
+        {
+          name: "period",
+          description: "集計期間",
+          description_localizations: en("Period"),
+          type: 3, // STRING
+          required: false,
+          choices: [
+            {
+              name: "今日",
+              name_localizations: en("Today"),
+              value: "today",
+            },
+            {
+              name: "今週",
+              name_localizations: en("This week"),
+              value: "week",
+            },
+            {
+              name: "今月",
+              name_localizations: en("This month"),
+              value: "month",
+            },
+            {
+              name: "期間指定 (from/to)",
+              name_localizations: en("Custom (from/to)"),
+              value: "custom",
+            },
+          ],
+        },
+        {
+          name: "from",
+          description: "開始日を指定 (例: 2023-03-01, 20230301, yesterday, -7)",
+          description_localizations: en("Start date (e.g. 2023-03-01, 20230301, yesterday, -7)"),
+          type: 3, // STRING
+          required: false,
+        },
+        {
+          name: "to",
+          description: "終了日を指定 (例: 2023-03-31, today)",
+          description_localizations: en("End date (e.g. 2023-03-31, today)"),
+          type: 3, // STRING
+          required: false,
+        },
+        {
+          name: "group_by",
+          description: "集計単位（既定はユーザー別）",
+          description_localizations: en("Group by (default: user)"),
+          type: 3, // STRING
+          required: false,
+          choices: [
+            {
+              name: "ユーザー別",
+              name_localizations: en("User"),
+              value: "user",
+            },
+            {
+              name: "プロジェクト別",
+              name_localizations: en("Project"),
+              value: "project",
+            },
+            {
+              name: "日別",
+              name_localizations: en("Day"),
+              value: "day",
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: "edit",
+      type: 1, // CHAT_INPUT
+      description: "自分の過去の勤怠記録を修正します",
+      description_localizations: en("Edit one of your past attendance records"),
+      options: [
+        {
+          name: "record",
+          description: "修正する記録（候補から選択、または日付を指定 例: 2023-03-15, yesterday）",
+          description_localizations: en("Record to edit (pick a suggestion or enter a date, e.g. 2023-03-15, yesterday)"),
+          type: 3, // STRING
+          required: true,
+          autocomplete: true,
+        },
+        {
+          name: "start_time",
+          description: "修正後の開始時刻 (例: 09:00, 0900)",
+          description_localizations: en("New start time (e.g. 09:00, 0900)"),
+          type: 3, // STRING
+          required: false,
+        },
+        {
+          name: "start_day",
+          description: "修正後の開始日 (省略時は記録の日付)",
+          description_localizations: en("New start date (defaults to the record's date)"),
+          type: 3, // STRING
+          required: false,
+        },
+        {
+          name: "end_time",
+          description: "修正後の終了時刻 (例: 18:00, 1800)",
+          description_localizations: en("New end time (e.g. 18:00, 1800)"),
+          type: 3, // STRING
+          required: false,
+        },
+        {
+          name: "end_day",
+          description: "修正後の終了日 (省略時は記録の日付)",
+          description_localizations: en("New end date (defaults to the record's date)"),
+          type: 3, // STRING
+          required: false,
+        },
+        {
+          name: "todo",
+          description: "修正後のやったこと",
+          description_localizations: en("New description of what you did"),
           type: 3, // STRING
           required: false,
         },
@@ -76,16 +322,342 @@ async function registerCommands() {
       name: "init",
       type: 1, // CHAT_INPUT
       description: "勤怠管理システムを初期設定します（管理者のみ）",
+      description_localizations: en("Set up the attendance system (administrators only)"),
+      options: [
+        {
+          name: "storage",
+          description: "勤怠データの保存先（省略時は Google スプレッドシート）",
+          description_localizations: en("Where to store attendance data (default: Google Sheets)"),
+          type: 3, // STRING
+          required: false,
+          choices: [
+            {
+              name: "Google スプレッドシート",
+              name_localizations: en("Google Sheets"),
+              value: "sheets",
+            },
+            {
+              name: "D1（Google 連携なし）",
+              name_localizations: en("D1 (no Google account needed)"),
+              value: "d1",
+            },
+          ],
+        },
+        {
+          name: "spreadsheet",
+          description: "連携する既存のスプレッドシートのURL（省略時は新しく作成）",
+          description_localizations: en("URL of an existing spreadsheet to link (default: create a new one)"),
+          type: 3, // STRING
+          required: false,
+        },
+      ],
+    },
+    {
+      name: "reconnect",
+      type: 1, // CHAT_INPUT
+      description: "スプレッドシートはそのままで Google アカウントを再連携します（管理者のみ）",
+      description_localizations: en("Relink the Google account and keep the current spreadsheet (administrators only)"),
     },
     {
       name: "config",
       type: 1, // CHAT_INPUT
-      description: "勤怠管理システムの設定状況を確認します",
+      description: "勤怠管理システムの設定状況を確認します（管理者のみ）",
+      description_localizations: en("Show the attendance system settings (administrators only)"),
     },
     {
       name: "reset",
       type: 1, // CHAT_INPUT
       description: "勤怠管理システムの設定をリセットします（管理者のみ）",
+      description_localizations: en("Reset the attendance system settings (administrators only)"),
+    },
+    {
+      name: "admin-role",
+      type: 1, // CHAT_INPUT
+      description: "勤怠管理者ロールを設定します（管理者のみ）",
+      description_localizations: en("Configure attendance admin roles (administrators only)"),
+      options: [
+        {
+          name: "add",
+          description: "勤怠管理者ロールを追加",
+          description_localizations: en("Add an attendance admin role"),
+          type: 1, // SUB_COMMAND
+          options: [
+            {
+              name: "role",
+              description: "追加するロール",
+              description_localizations: en("Role to add"),
+              type: 8, // ROLE
+              required: true,
+            },
+          ],
+        },
+        {
+          name: "remove",
+          description: "勤怠管理者ロールを削除",
+          description_localizations: en("Remove an attendance admin role"),
+          type: 1, // SUB_COMMAND
+          options: [
+            {
+              name: "role",
+              description: "削除するロール",
+              description_localizations: en("Role to remove"),
+              type: 8, // ROLE
+              required: true,
+            },
+          ],
+        },
+        {
+          name: "list",
+          description: "勤怠管理者ロールの一覧を表示",
+          description_localizations: en("List attendance admin roles"),
+          type: 1, // SUB_COMMAND
+        },
+      ],
+    },
+    {
+      name: "channels",
+      type: 1, // CHAT_INPUT
+      description: "打刻できるチャンネルを設定します（管理者のみ）",
+      description_localizations: en("Configure where members can clock in and out (administrators only)"),
+      options: [
+        {
+          name: "allow",
+          description: "打刻を許可するチャンネル・カテゴリーを追加（許可した場所以外では打刻できなくなります）",
+          description_localizations: en("Allow a channel or category (other places are no longer allowed)"),
+          type: 1, // SUB_COMMAND
+          options: [
+            {
+              name: "channel",
+              description: "許可するチャンネル・カテゴリー",
+              description_localizations: en("Channel or category to allow"),
+              type: 7, // CHANNEL
+              required: true,
+              channel_types: PUNCH_CHANNEL_TYPES,
+            },
+          ],
+        },
+        {
+          name: "deny",
+          description: "打刻を禁止するチャンネル・カテゴリーを追加",
+          description_localizations: en("Block a channel or category"),
+          type: 1, // SUB_COMMAND
+          options: [
+            {
+              name: "channel",
+              description: "禁止するチャンネル・カテゴリー",
+              description_localizations: en("Channel or category to block"),
+              type: 7, // CHANNEL
+              required: true,
+              channel_types: PUNCH_CHANNEL_TYPES,
+            },
+          ],
+        },
+        {
+          name: "remove",
+          description: "チャンネル・カテゴリーの設定を削除",
+          description_localizations: en("Remove the setting for a channel or category"),
+          type: 1, // SUB_COMMAND
+          options: [
+            {
+              name: "channel",
+              description: "設定を削除するチャンネル・カテゴリー",
+              description_localizations: en("Channel or category to remove"),
+              type: 7, // CHANNEL
+              required: true,
+              channel_types: PUNCH_CHANNEL_TYPES,
+            },
+          ],
+        },
+        {
+          name: "list",
+          description: "打刻できるチャンネルの設定を表示",
+          description_localizations: en("Show the clock-in channel settings"),
+          type: 1, // SUB_COMMAND
+        },
+        {
+          name: "clear",
+          description: "全ての制限を解除（全てのチャンネルで打刻できるようにする）",
+          description_localizations: en("Remove all restrictions (allow every channel)"),
+          type: 1, // SUB_COMMAND
+        },
+      ],
+    },
+    {
+      name: "panel",
+      type: 1, // CHAT_INPUT
+      description: "出勤・休憩・退勤ボタン付きの勤怠パネルを設置します（管理者のみ）",
+      description_localizations: en("Post an attendance panel with clock-in, break and clock-out buttons (administrators only)"),
+    },
+    {
+      name: "timezone",
+      type: 1, // CHAT_INPUT
+      description: "タイムゾーンとロケールを設定します（管理者のみ）",
+      description_localizations: en("Set the time zone and locale (administrators only)"),
+      options: [
+        {
+          name: "timezone",
+          description: "IANAタイムゾーン名 (例: Asia/Tokyo, Europe/Berlin, America/New_York)",
+          description_localizations: en("IANA time zone name (e.g. Asia/Tokyo, Europe/Berlin, America/New_York)"),
+          type: 3, // STRING
+          required: false,
+        },
+        {
+          name: "locale",
+          description: "スプレッドシートのロケール",
+          description_localizations: en("Spreadsheet locale"),
+          type: 3, // STRING
+          required: false,
+          choices: [
+            { name: "日本語 (ja_JP)", value: "ja_JP" },
+            { name: "English - US (en_US)", value: "en_US" },
+            { name: "English - UK (en_GB)", value: "en_GB" },
+            { name: "Deutsch (de_DE)", value: "de_DE" },
+            { name: "Français (fr_FR)", value: "fr_FR" },
+          ],
+        },
+      ],
+    },
+    {
+      name: "auto-close",
+      type: 1, // CHAT_INPUT
+      description: "終了打刻忘れの自動終了を設定します（管理者のみ）",
+      description_localizations: en("Configure auto close for forgotten clock-outs (administrators only)"),
+      options: [
+        {
+          name: "max_hours",
+          description: "自動終了するまでの最大勤務時間（時間）",
+          description_localizations: en("Maximum working hours before auto close"),
+          type: 4, // INTEGER
+          required: false,
+          min_value: 1,
+          max_value: 24,
+        },
+        {
+          name: "policy",
+          description: "自動終了時の終了時刻",
+          description_localizations: en("End time used for auto close"),
+          type: 3, // STRING
+          required: false,
+          choices: [
+            {
+              name: "開始時刻 + 最大勤務時間",
+              name_localizations: en("Start time + maximum working hours"),
+              value: "max_length",
+            },
+            {
+              name: "最後の操作（開始・休憩・再開）の時刻",
+              name_localizations: en("Time of the last action (start, break or resume)"),
+              value: "last_activity",
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: "digest",
+      type: 1, // CHAT_INPUT
+      description: "勤怠ダイジェストの定期投稿を設定します（管理者のみ）",
+      description_localizations: en("Configure scheduled attendance digests (administrators only)"),
+      options: [
+        {
+          name: "channel",
+          description: "ダイジェストを投稿するチャンネル",
+          description_localizations: en("Channel to post digests to"),
+          type: 7, // CHANNEL
+          required: false,
+          channel_types: [0, 5], // テキストチャンネル・アナウンスチャンネル
+        },
+        {
+          name: "hour",
+          description: "毎日ダイジェストを送信する時刻（時、サーバーのタイムゾーン、既定は9時）",
+          description_localizations: en("Hour to send the daily digest (server time zone, default 9)"),
+          type: 4, // INTEGER
+          required: false,
+          min_value: 0,
+          max_value: 23,
+        },
+        {
+          name: "weekly",
+          description: "月曜日に先週のプロジェクト別の合計も送信する（既定は送信する）",
+          description_localizations: en("Also send last week's totals by project on Mondays (default: on)"),
+          type: 5, // BOOLEAN
+          required: false,
+        },
+        {
+          name: "disable",
+          description: "ダイジェストの送信を停止する",
+          description_localizations: en("Stop sending digests"),
+          type: 5, // BOOLEAN
+          required: false,
+        },
+      ],
+    },
+    {
+      name: "language",
+      type: 1, // CHAT_INPUT
+      description: "Botのメッセージの言語を設定します（管理者のみ）",
+      description_localizations: en("Set the language of the bot's messages (administrators only)"),
+      options: [
+        {
+          name: "language",
+          description: "メッセージの言語",
+          description_localizations: en("Message language"),
+          type: 3, // STRING
+          required: false,
+          choices: [
+            {
+              name: "自動（Discordの言語設定に従う）",
+              name_localizations: en("Automatic (follow Discord's language)"),
+              value: "auto",
+            },
+            { name: "日本語", value: "ja" },
+            { name: "English", value: "en" },
+          ],
+        },
+      ],
+    },
+    {
+      name: "columns",
+      type: 1, // CHAT_INPUT
+      description: "スプレッドシートの列の配置を設定します（管理者のみ）",
+      description_localizations: en("Configure the spreadsheet column layout (administrators only)"),
+      options: [
+        {
+          name: "field",
+          description: "配置を変更する項目",
+          description_localizations: en("Field to move"),
+          type: 3, // STRING
+          required: false,
+          choices: [
+            { name: "プロジェクト名", name_localizations: en("Project name"), value: "project" },
+            { name: "ユーザー名", name_localizations: en("Username"), value: "username" },
+            { name: "やったこと", name_localizations: en("What you did"), value: "todo" },
+            { name: "差分", name_localizations: en("Working time"), value: "work_hours" },
+            { name: "開始時刻", name_localizations: en("Start time"), value: "start_time" },
+            { name: "終了時刻", name_localizations: en("End time"), value: "end_time" },
+            { name: "channel_id", value: "channel_id" },
+            { name: "discord_id", value: "discord_id" },
+            { name: "uuid", value: "uuid" },
+            { name: "休憩記録", name_localizations: en("Break log"), value: "break_log" },
+            { name: "休憩時間(分)", name_localizations: en("Break minutes"), value: "break_minutes" },
+          ],
+        },
+        {
+          name: "column",
+          description: "移動先の列（例: L）",
+          description_localizations: en("Destination column (e.g. L)"),
+          type: 3, // STRING
+          required: false,
+          max_length: 2,
+        },
+        {
+          name: "reset",
+          description: "既定の配置（A〜K列）に戻す",
+          description_localizations: en("Restore the default layout (columns A-K)"),
+          type: 5, // BOOLEAN
+          required: false,
+        },
+      ],
     },
   ];
 
@@ -15,7 +15,6 @@ const secrets = [
   "DISCORD_APPLICATION_ID",
   "DISCORD_TOKEN",
   "ENCRYPTION_KEY",
-  "ALLOWED_CHANNEL_IDS",
 ];
 
 console.log("🔐 Setting up Cloudflare Workers secrets...");
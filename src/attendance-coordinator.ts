@@ -0,0 +1,994 @@
+import { DurableObject } from "cloudflare:workers";
+import {
+  Bindings,
+  ActiveWorkSession,
+  ServerConfig,
+  WorkRecord,
+  AttendanceErrorCode,
+} from "./types";
+import { ServerConfigService } from "./server-config-service";
+import { ACTIVE_SESSION_MAX_HOURS } from "./sheets-service";
+import {
+  AttendanceStore,
+  StartRecordResult,
+  EndRecordResult,
+  BreakStartResult,
+  BreakEndResult,
+  createAttendanceStore,
+} from "./attendance-store";
+import { formatRecordDateTime, getTimeSettings, parseDateTime } from "./utils";
+
+// 勤務中セッションの索引のキー（記録IDごとに保存）
+const SESSION_KEY_PREFIX = "session:";
+// 索引を保存先の記録から作成済みかどうか
+const INDEX_READY_KEY = "index:ready";
+// 勤務開始の書き込みに着手した記録ID（再試行時に追加済みの行を確認するため）
+const PENDING_START_KEY_PREFIX = "pending_start:";
+// 保存先に書き込めなかった打刻の送信待ちキュー（番号順に再送する）
+const OUTBOX_KEY_PREFIX = "outbox:";
+// 送信待ちキューの次の番号
+const OUTBOX_SEQ_KEY = "outbox_seq";
+// 再送しても保存先に反映できなかった打刻（管理者が /config で確認できるよう残す）
+const FAILED_KEY_PREFIX = "failed:";
+// 反映できなかった打刻を残す件数（超えた場合は古いものから削除）
+const FAILED_MAX_ENTRIES = 20;
+// /config に内容を表示する件数（新しい順）
+const FAILED_DISPLAY_ENTRIES = 3;
+// 再送の間隔（失敗するたびに倍にし、上限で止める）
+const OUTBOX_RETRY_BASE_MS = 60 * 1000;
+const OUTBOX_RETRY_MAX_MS = 30 * 60 * 1000;
+
+export interface StartSessionRequest {
+  recordId: string;
+  userId: string;
+  username: string;
+  projectName: string;
+  channelId: string;
+  startTime: Date;
+}
+
+export interface EndSessionRequest {
+  recordId: string;
+  userId: string;
+  endTime: Date;
+  todo: string;
+  resume?: boolean; // 前回の試行の続きとして、終了済みの行も対象にする
+}
+
+// 送信待ちの書き込み（打刻した時刻のまま再送する）
+type OutboxOperation =
+  | { type: "start"; request: StartSessionRequest }
+  | {
+      type: "end";
+      request: EndSessionRequest;
+      breakMinutes: number;
+      session?: ActiveWorkSession; // 終了した勤務中セッション（再送時に行を探すため、索引から外した後も残す）
+    }
+  | { type: "break_start"; recordId: string; time: Date }
+  | { type: "break_end"; recordId: string; time: Date };
+
+interface OutboxEntry {
+  seq: number;
+  guildId: string;
+  recordId: string;
+  operation: OutboxOperation;
+  enqueuedAt: number;
+  attempts: number;
+  lastError?: string;
+}
+
+// 再送しても保存先に反映できなかった打刻
+export interface FailedWrite {
+  recordId: string;
+  operation: OutboxOperation["type"];
+  userId?: string;
+  punchedAt: Date; // 打刻した時刻
+  failedAt: number;
+  error?: string;
+  errorCode?: AttendanceErrorCode;
+}
+
+// 送信待ちキューの状況（/config 用）
+export interface OutboxStatus {
+  pending: number;
+  oldestEnqueuedAt?: number;
+  lastError?: string;
+  failedCount: number; // 反映できなかった打刻の件数
+  recentFailures: FailedWrite[]; // 反映できなかった打刻（新しい順）
+}
+
+// サーバー設定がない（利用者には config_not_found として返す）
+class ServerConfigNotFoundError extends Error {
+  constructor(guildId: string) {
+    super(`Server config not found: ${guildId}`);
+    this.name = "ServerConfigNotFoundError";
+  }
+}
+
+/**
+ * サーバーの Durable Object を取得
+ */
+export function getAttendanceCoordinator(env: Bindings, guildId: string) {
+  return env.ATTENDANCE_COORDINATOR.get(
+    env.ATTENDANCE_COORDINATOR.idFromName(guildId)
+  );
+}
+
+/**
+ * サーバーの Durable Object の保存内容を全て削除（設定の削除・保存先の変更時）
+ * 削除に失敗しても設定の変更は止めない
+ */
+export async function resetAttendanceCoordinator(
+  env: Bindings,
+  guildId: string
+): Promise<void> {
+  try {
+    await getAttendanceCoordinator(env, guildId).reset();
+  } catch (error) {
+    console.error(`Failed to reset attendance coordinator (${guildId}):`, error);
+  }
+}
+
+/**
+ * サーバー単位で勤怠の書き込みを直列化する Durable Object
+ * 確認と書き込みの間に別の打刻が割り込まないよう、すべての変更をここで順番に処理する。
+ * 勤務中セッションの索引を保持し、開始・終了時の確認でシート全体を読まずに済むようにする。
+ * 保存先が一時的に使えない場合（5xx・429・トークン失効）は打刻を送信待ちキューに保存し、アラームで再送する。
+ */
+export class AttendanceCoordinator extends DurableObject<Bindings> {
+  // 処理待ちの末尾（前の処理が終わってから次の処理を始める）
+  private queue: Promise<unknown> = Promise.resolve();
+  // 勤務中セッションの索引（記録ID → セッション）
+  private sessions: Map<string, ActiveWorkSession> | null = null;
+  // 送信待ちキュー（番号順）
+  private outbox: OutboxEntry[] | null = null;
+
+  /**
+   * 指定ユーザー・チャンネルの勤務中セッションを取得（終了・休憩処理用）
+   * 複数ある場合は最も新しく開始したものを返す
+   */
+  async getActiveSession(
+    guildId: string,
+    userId: string,
+    channelId: string
+  ): Promise<{
+    session?: ActiveWorkSession;
+    error?: string;
+    errorCode?: AttendanceErrorCode;
+  }> {
+    return this.exclusive(async () => {
+      try {
+        const { config, store } = await this.openStore(guildId);
+        const sessions = await this.loadSessions(store);
+        const timeZone = getTimeSettings(config).timeZone;
+
+        const [session] = this.findSessions(sessions, userId, channelId).sort(
+          (a, b) =>
+            (parseDateTime(b.startTime, timeZone)?.getTime() || 0) -
+            (parseDateTime(a.startTime, timeZone)?.getTime() || 0)
+        );
+        return { session };
+      } catch (error) {
+        console.error("Failed to get active session:", error);
+        return this.toFailure(error);
+      }
+    });
+  }
+
+  /**
+   * 勤務開始を記録
+   * 同じユーザー・チャンネルで勤務中の場合は記録せず、そのセッションを返す
+   */
+  async startSession(
+    guildId: string,
+    request: StartSessionRequest
+  ): Promise<{
+    success: boolean;
+    recordId?: string;
+    activeSession?: ActiveWorkSession;
+    queued?: boolean; // 送信待ちキューに保存した（保存先には後で記録される）
+    error?: string;
+    errorCode?: AttendanceErrorCode;
+  }> {
+    return this.exclusive(async () => {
+      try {
+        const { config, store } = await this.openStore(guildId);
+        const sessions = await this.loadSessions(store);
+        const outbox = await this.loadOutbox();
+
+        // 前回の試行で記録（または送信待ちキューへの保存）まで完了している場合はそのまま成功とする
+        if (sessions.has(request.recordId)) {
+          return {
+            success: true,
+            recordId: request.recordId,
+            queued: this.hasQueuedWrites(outbox, request.recordId),
+          };
+        }
+
+        const timeZone = getTimeSettings(config).timeZone;
+        const activeSessions = this.findSessions(
+          sessions,
+          request.userId,
+          request.channelId
+        ).filter((session) => this.isWithinActiveWindow(session, timeZone));
+
+        for (const session of activeSessions) {
+          // スプレッドシートが直接編集された場合に備えて、重複とみなす前に保存先の記録を確認する
+          if (await this.isStillOpen(store, outbox, session)) {
+            return { success: false, activeSession: session };
+          }
+          await this.deleteSession(session.recordId);
+        }
+
+        const pendingKey = `${PENDING_START_KEY_PREFIX}${request.recordId}`;
+        let result: StartRecordResult = this.deferredResult();
+
+        // 送信待ちの打刻がある間は保存先が使えない可能性が高いため、書き込まずにキューへ追加する
+        if (outbox.length === 0) {
+          const isRetry = !!(await this.ctx.storage.get<boolean>(pendingKey));
+          await this.ctx.storage.put(pendingKey, true);
+
+          result = await store.recordStartTime(
+            request.userId,
+            request.username,
+            request.projectName,
+            request.channelId,
+            request.startTime,
+            request.recordId,
+            isRetry
+          );
+        }
+
+        if (!result.success && !result.retryable) {
+          return { success: false, error: result.error };
+        }
+
+        const queued = !result.success;
+        if (queued) {
+          await this.enqueue(guildId, request.recordId, {
+            type: "start",
+            request,
+          });
+        }
+
+        await this.putSession({
+          recordId: request.recordId,
+          userId: request.userId,
+          username: request.username,
+          projectName: request.projectName,
+          channelId: request.channelId,
+          startTime:
+            result.startTime || formatRecordDateTime(request.startTime, timeZone),
+          breakMinutes: 0,
+          location: result.location,
+        });
+        await this.ctx.storage.delete(pendingKey);
+
+        return { success: true, recordId: request.recordId, queued };
+      } catch (error) {
+        console.error("Failed to start session:", error);
+        return { success: false, ...this.toFailure(error) };
+      }
+    });
+  }
+
+  /**
+   * 勤務終了を記録
+   * 終了済みかどうかは保存先の記録で確認するため、索引にない記録（自動終了など）も扱える
+   */
+  async endSession(
+    guildId: string,
+    request: EndSessionRequest
+  ): Promise<{
+    success: boolean;
+    workHours?: string;
+    breakMinutes?: number;
+    queued?: boolean;
+    error?: string;
+    errorCode?: AttendanceErrorCode;
+  }> {
+    return this.exclusive(async () => {
+      try {
+        const { config, store } = await this.openStore(guildId);
+        const sessions = await this.loadSessions(store);
+        const outbox = await this.loadOutbox();
+        const session = sessions.get(request.recordId);
+
+        // 前回の試行で送信待ちキューに保存済みの場合はそのまま成功とする
+        const queuedEnd = outbox.find(
+          (entry) =>
+            entry.recordId === request.recordId &&
+            entry.operation.type === "end"
+        );
+        if (queuedEnd?.operation.type === "end") {
+          return {
+            success: true,
+            breakMinutes: queuedEnd.operation.breakMinutes,
+            queued: true,
+          };
+        }
+
+        this.rememberSession(store, session);
+        let result: EndRecordResult = this.deferredResult();
+        // 索引にない記録は送信待ちキューの対象外のため、常に書き込む
+        if (outbox.length === 0 || !session) {
+          result = await store.recordEndTime(
+            request.userId,
+            request.endTime,
+            request.recordId,
+            request.todo,
+            request.resume
+          );
+        }
+
+        if (!result.success && result.retryable && session) {
+          const timeZone = getTimeSettings(config).timeZone;
+          const { totalMinutes } = this.closeBreak(
+            session,
+            request.endTime,
+            timeZone
+          );
+          await this.enqueue(guildId, request.recordId, {
+            type: "end",
+            // 再送時は前回の送信で書き込み済みの場合があるため、終了済みの行も対象にする
+            request: { ...request, resume: true },
+            breakMinutes: totalMinutes,
+            session,
+          });
+          await this.deleteSession(request.recordId);
+          return { success: true, breakMinutes: totalMinutes, queued: true };
+        }
+
+        if (result.success) {
+          await this.deleteSession(request.recordId);
+        } else {
+          await this.dropIfClosed(store, outbox, request.recordId);
+        }
+        return result;
+      } catch (error) {
+        console.error("Failed to end session:", error);
+        return { success: false, ...this.toFailure(error) };
+      }
+    });
+  }
+
+  /**
+   * 休憩開始を記録
+   */
+  async startBreak(
+    guildId: string,
+    recordId: string,
+    breakStartTime: Date
+  ): Promise<{
+    success: boolean;
+    breakStartTime?: string; // 既に休憩中の場合は、その休憩の開始時刻
+    queued?: boolean;
+    error?: string;
+    errorCode?: AttendanceErrorCode;
+  }> {
+    return this.exclusive(async () => {
+      try {
+        const { config, store } = await this.openStore(guildId);
+        const sessions = await this.loadSessions(store);
+        const outbox = await this.loadOutbox();
+        const session = sessions.get(recordId);
+        this.rememberSession(store, session);
+
+        let result: BreakStartResult = this.deferredResult();
+        if (outbox.length === 0 || !session) {
+          result = await store.recordBreakStart(recordId, breakStartTime);
+        }
+
+        if (!result.success && result.retryable && session) {
+          if (session.breakStartTime) {
+            return {
+              success: false,
+              errorCode: "already_on_break",
+              breakStartTime: session.breakStartTime,
+            };
+          }
+          await this.enqueue(guildId, recordId, {
+            type: "break_start",
+            recordId,
+            time: breakStartTime,
+          });
+          await this.putSession({
+            ...session,
+            breakStartTime: formatRecordDateTime(
+              breakStartTime,
+              getTimeSettings(config).timeZone
+            ),
+          });
+          return { success: true, queued: true };
+        }
+
+        if (!result.success) {
+          await this.dropIfClosed(store, outbox, recordId);
+          return {
+            success: false,
+            breakStartTime: result.breakStartTime,
+            error: result.error,
+            errorCode: result.errorCode,
+          };
+        }
+
+        if (session) {
+          await this.putSession({
+            ...session,
+            breakStartTime: result.breakStartTime,
+          });
+        }
+        return { success: true };
+      } catch (error) {
+        console.error("Failed to start break:", error);
+        return { success: false, ...this.toFailure(error) };
+      }
+    });
+  }
+
+  /**
+   * 休憩終了を記録
+   */
+  async endBreak(
+    guildId: string,
+    recordId: string,
+    breakEndTime: Date
+  ): Promise<{
+    success: boolean;
+    breakMinutes?: number;
+    totalBreakMinutes?: number;
+    queued?: boolean;
+    error?: string;
+    errorCode?: AttendanceErrorCode;
+  }> {
+    return this.exclusive(async () => {
+      try {
+        const { config, store } = await this.openStore(guildId);
+        const sessions = await this.loadSessions(store);
+        const outbox = await this.loadOutbox();
+        const session = sessions.get(recordId);
+        this.rememberSession(store, session);
+
+        let result: BreakEndResult = this.deferredResult();
+        if (outbox.length === 0 || !session) {
+          result = await store.recordBreakEnd(recordId, breakEndTime);
+        }
+
+        if (!result.success && result.retryable && session) {
+          if (!session.breakStartTime) {
+            return { success: false, errorCode: "not_on_break" };
+          }
+          const { addedMinutes, totalMinutes } = this.closeBreak(
+            session,
+            breakEndTime,
+            getTimeSettings(config).timeZone
+          );
+          await this.enqueue(guildId, recordId, {
+            type: "break_end",
+            recordId,
+            time: breakEndTime,
+          });
+          await this.putSession({
+            ...session,
+            breakStartTime: undefined,
+            breakMinutes: totalMinutes,
+          });
+          return {
+            success: true,
+            breakMinutes: addedMinutes,
+            totalBreakMinutes: totalMinutes,
+            queued: true,
+          };
+        }
+
+        if (!result.success) {
+          await this.dropIfClosed(store, outbox, recordId);
+          return result;
+        }
+
+        if (session) {
+          await this.putSession({
+            ...session,
+            breakStartTime: undefined,
+            breakMinutes: result.totalBreakMinutes || 0,
+          });
+        }
+        return result;
+      } catch (error) {
+        console.error("Failed to end break:", error);
+        return { success: false, ...this.toFailure(error) };
+      }
+    });
+  }
+
+  /**
+   * 過去の勤務記録を修正（/edit 用）
+   * 勤務中の記録を修正した場合は索引も更新する
+   */
+  async updateRecord(
+    guildId: string,
+    record: WorkRecord,
+    changes: { startTime?: Date; endTime?: Date; todo?: string }
+  ): Promise<{
+    success: boolean;
+    record?: WorkRecord;
+    error?: string;
+    errorCode?: AttendanceErrorCode;
+  }> {
+    return this.exclusive(async () => {
+      try {
+        const { store } = await this.openStore(guildId);
+        const sessions = await this.loadSessions(store);
+
+        const result = await store.updateWorkRecord(record, changes);
+
+        const session = sessions.get(record.uuid);
+        if (result.success && session && result.record) {
+          if (result.record.endTime) {
+            await this.deleteSession(record.uuid);
+          } else {
+            await this.putSession({
+              ...session,
+              startTime: result.record.startTime,
+            });
+          }
+        }
+        return result;
+      } catch (error) {
+        console.error("Failed to update record:", error);
+        return { success: false, ...this.toFailure(error) };
+      }
+    });
+  }
+
+  /**
+   * 送信待ちキューの状況を取得（/config 用）
+   */
+  async getOutboxStatus(): Promise<OutboxStatus> {
+    const outbox = await this.loadOutbox();
+    const [oldest] = outbox;
+    const failures = await this.ctx.storage.list<FailedWrite>({
+      prefix: FAILED_KEY_PREFIX,
+    });
+    return {
+      pending: outbox.length,
+      oldestEnqueuedAt: oldest?.enqueuedAt,
+      lastError: outbox.find((entry) => entry.lastError)?.lastError,
+      failedCount: failures.size,
+      recentFailures: [...failures.values()]
+        .slice(-FAILED_DISPLAY_ENTRIES)
+        .reverse(),
+    };
+  }
+
+  /**
+   * 勤務中セッションの索引・送信待ちキューを全て削除し、再送のアラームを取り消す
+   * 以前の保存先の記録ID・行の位置を新しい設定で使わないようにする
+   */
+  async reset(): Promise<void> {
+    await this.exclusive(async () => {
+      const outbox = await this.loadOutbox();
+      if (outbox.length > 0) {
+        console.warn(`Discarded ${outbox.length} queued writes on reset`);
+      }
+
+      await this.ctx.storage.deleteAlarm();
+      await this.ctx.storage.deleteAll();
+      this.sessions = null;
+      this.outbox = null;
+    });
+  }
+
+  /**
+   * 送信待ちキューの再送（アラームから呼ばれる）
+   */
+  async alarm(): Promise<void> {
+    await this.exclusive(() => this.flushOutbox());
+  }
+
+  /**
+   * 前の処理が終わってから実行する（保存先の応答待ちの間に別の処理が割り込まないようにする）
+   */
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * サーバー設定を取得し、勤怠データの保存先を準備する
+   */
+  private async openStore(
+    guildId: string
+  ): Promise<{ config: ServerConfig; store: AttendanceStore }> {
+    const config = await new ServerConfigService(this.env).getServerConfig(
+      guildId
+    );
+    if (!config) {
+      throw new ServerConfigNotFoundError(guildId);
+    }
+
+    return { config, store: createAttendanceStore(this.env, guildId, config) };
+  }
+
+  /**
+   * 勤務中セッションの索引を読み込む
+   * 初回は保存先の未終了の記録から索引を作成する
+   */
+  private async loadSessions(
+    store: AttendanceStore
+  ): Promise<Map<string, ActiveWorkSession>> {
+    if (this.sessions) return this.sessions;
+
+    const storage = this.ctx.storage;
+    if (await storage.get<boolean>(INDEX_READY_KEY)) {
+      const stored = await storage.list<ActiveWorkSession>({
+        prefix: SESSION_KEY_PREFIX,
+      });
+      this.sessions = new Map(
+        [...stored.values()].map((session) => [session.recordId, session])
+      );
+      return this.sessions;
+    }
+
+    const result = await store.listOpenWorkSessions();
+    if (!result.success || !result.sessions) {
+      throw new Error(result.error);
+    }
+
+    const sessions = new Map<string, ActiveWorkSession>();
+    for (const session of result.sessions) {
+      sessions.set(session.recordId, session);
+      await storage.put(`${SESSION_KEY_PREFIX}${session.recordId}`, session);
+    }
+    await storage.put(INDEX_READY_KEY, true);
+
+    this.sessions = sessions;
+    return sessions;
+  }
+
+  private async putSession(session: ActiveWorkSession): Promise<void> {
+    this.sessions?.set(session.recordId, session);
+    await this.ctx.storage.put(
+      `${SESSION_KEY_PREFIX}${session.recordId}`,
+      session
+    );
+  }
+
+  private async deleteSession(recordId: string): Promise<void> {
+    this.sessions?.delete(recordId);
+    await this.ctx.storage.delete(`${SESSION_KEY_PREFIX}${recordId}`);
+  }
+
+  /**
+   * 書き込みに失敗した記録が既に終了していれば索引から外す
+   * （スプレッドシートが直接編集された場合に索引を実態に合わせる）
+   */
+  private async dropIfClosed(
+    store: AttendanceStore,
+    outbox: OutboxEntry[],
+    recordId: string
+  ): Promise<void> {
+    // 送信待ちの記録は保存先にまだ反映されていないため確認しない
+    if (
+      !this.sessions?.has(recordId) ||
+      this.hasQueuedWrites(outbox, recordId)
+    ) {
+      return;
+    }
+
+    try {
+      const isOpen = await store.isRecordOpen(recordId);
+      if (!isOpen) {
+        await this.deleteSession(recordId);
+      }
+    } catch (error) {
+      console.warn(`Failed to verify record ${recordId}:`, error);
+    }
+  }
+
+  /**
+   * 索引上の勤務中セッションが保存先でも未終了か確認
+   * 送信待ちの記録や、保存先を確認できない場合は索引を信頼して未終了とみなす
+   */
+  private async isStillOpen(
+    store: AttendanceStore,
+    outbox: OutboxEntry[],
+    session: ActiveWorkSession
+  ): Promise<boolean> {
+    if (this.hasQueuedWrites(outbox, session.recordId)) return true;
+
+    try {
+      this.rememberSession(store, session);
+      return await store.isRecordOpen(session.recordId);
+    } catch (error) {
+      console.warn(`Failed to verify record ${session.recordId}:`, error);
+      return true;
+    }
+  }
+
+  /**
+   * 送信待ちキューを読み込む
+   */
+  private async loadOutbox(): Promise<OutboxEntry[]> {
+    if (this.outbox) return this.outbox;
+
+    const stored = await this.ctx.storage.list<OutboxEntry>({
+      prefix: OUTBOX_KEY_PREFIX,
+    });
+    this.outbox = [...stored.values()].sort((a, b) => a.seq - b.seq);
+    return this.outbox;
+  }
+
+  /**
+   * 書き込みを送信待ちキューに追加し、再送のアラームを設定
+   */
+  private async enqueue(
+    guildId: string,
+    recordId: string,
+    operation: OutboxOperation
+  ): Promise<void> {
+    const outbox = await this.loadOutbox();
+    const seq = ((await this.ctx.storage.get<number>(OUTBOX_SEQ_KEY)) || 0) + 1;
+    const entry: OutboxEntry = {
+      seq,
+      guildId,
+      recordId,
+      operation,
+      enqueuedAt: Date.now(),
+      attempts: 0,
+    };
+
+    await this.ctx.storage.put({
+      [OUTBOX_SEQ_KEY]: seq,
+      [this.outboxKey(seq)]: entry,
+    });
+    outbox.push(entry);
+
+    if ((await this.ctx.storage.getAlarm()) === null) {
+      await this.ctx.storage.setAlarm(Date.now() + OUTBOX_RETRY_BASE_MS);
+    }
+    console.warn(
+      `Queued ${operation.type} for record ${recordId} (pending: ${outbox.length})`
+    );
+  }
+
+  /**
+   * 送信待ちキューを古い順に再送
+   * 一時的な失敗の場合は以降の書き込みも止め（順序を保つため）、間隔を空けて再試行する
+   * 再送しても成功しない失敗（記録が見つからない等）はキューから外し、反映できなかった打刻として残す
+   */
+  private async flushOutbox(): Promise<void> {
+    const outbox = await this.loadOutbox();
+
+    while (outbox.length > 0) {
+      const entry = outbox[0];
+      let result: {
+        success: boolean;
+        error?: string;
+        errorCode?: AttendanceErrorCode;
+        retryable?: boolean;
+      };
+      try {
+        const { store } = await this.openStore(entry.guildId);
+        result = await this.replay(store, entry.operation);
+      } catch (error) {
+        result = {
+          success: false,
+          error: this.toErrorMessage(error),
+          retryable: true,
+        };
+      }
+
+      if (!result.success && result.retryable) {
+        entry.attempts++;
+        entry.lastError = result.error;
+        await this.ctx.storage.put(this.outboxKey(entry.seq), entry);
+
+        const delay = Math.min(
+          OUTBOX_RETRY_BASE_MS * 2 ** (entry.attempts - 1),
+          OUTBOX_RETRY_MAX_MS
+        );
+        await this.ctx.storage.setAlarm(Date.now() + delay);
+        console.warn(
+          `Failed to replay ${entry.operation.type} for record ${entry.recordId} (attempt ${entry.attempts}):`,
+          result.error
+        );
+        return;
+      }
+
+      if (!result.success) {
+        console.error(
+          `Failed to apply queued ${entry.operation.type} for record ${entry.recordId}:`,
+          result.error
+        );
+        await this.recordFailure(entry, result);
+      }
+      await this.ctx.storage.delete(this.outboxKey(entry.seq));
+      outbox.shift();
+    }
+  }
+
+  /**
+   * 送信待ちの書き込みを保存先に反映
+   */
+  private async replay(
+    store: AttendanceStore,
+    operation: OutboxOperation
+  ): Promise<{
+    success: boolean;
+    error?: string;
+    errorCode?: AttendanceErrorCode;
+    retryable?: boolean;
+  }> {
+    switch (operation.type) {
+      case "start": {
+        const { request } = operation;
+        // 前回の再送で追加済みの場合があるため、常に既存の行を確認する
+        const result = await store.recordStartTime(
+          request.userId,
+          request.username,
+          request.projectName,
+          request.channelId,
+          request.startTime,
+          request.recordId,
+          true
+        );
+        const session = this.sessions?.get(request.recordId);
+        if (result.success && result.location && session) {
+          await this.putSession({ ...session, location: result.location });
+        }
+        return result;
+      }
+      case "end": {
+        const { request } = operation;
+        this.rememberSession(store, operation.session);
+        return store.recordEndTime(
+          request.userId,
+          request.endTime,
+          request.recordId,
+          request.todo,
+          request.resume
+        );
+      }
+      case "break_start":
+        this.rememberSession(store, this.sessions?.get(operation.recordId));
+        return store.recordBreakStart(operation.recordId, operation.time);
+      case "break_end":
+        this.rememberSession(store, this.sessions?.get(operation.recordId));
+        return store.recordBreakEnd(operation.recordId, operation.time);
+    }
+  }
+
+  /**
+   * 反映できなかった打刻を保存（管理者が /config で確認し、/edit で修正できるようにする）
+   */
+  private async recordFailure(
+    entry: OutboxEntry,
+    result: { error?: string; errorCode?: AttendanceErrorCode }
+  ): Promise<void> {
+    const { operation } = entry;
+    const failure: FailedWrite = {
+      recordId: entry.recordId,
+      operation: operation.type,
+      userId:
+        operation.type === "start" || operation.type === "end"
+          ? operation.request.userId
+          : this.sessions?.get(entry.recordId)?.userId,
+      punchedAt:
+        operation.type === "start"
+          ? operation.request.startTime
+          : operation.type === "end"
+          ? operation.request.endTime
+          : operation.time,
+      failedAt: Date.now(),
+      error: result.error,
+      errorCode: result.errorCode,
+    };
+    await this.ctx.storage.put(
+      `${FAILED_KEY_PREFIX}${String(entry.seq).padStart(12, "0")}`,
+      failure
+    );
+
+    const stored = await this.ctx.storage.list({ prefix: FAILED_KEY_PREFIX });
+    const expired = [...stored.keys()].slice(
+      0,
+      Math.max(0, stored.size - FAILED_MAX_ENTRIES)
+    );
+    if (expired.length > 0) {
+      await this.ctx.storage.delete(expired);
+    }
+  }
+
+  private hasQueuedWrites(outbox: OutboxEntry[], recordId: string): boolean {
+    return outbox.some((entry) => entry.recordId === recordId);
+  }
+
+  private outboxKey(seq: number): string {
+    return `${OUTBOX_KEY_PREFIX}${String(seq).padStart(12, "0")}`;
+  }
+
+  /**
+   * 送信待ちキューがあるため書き込まなかったことを表す結果
+   */
+  private deferredResult(): { success: false; retryable: true } {
+    return { success: false, retryable: true };
+  }
+
+  /**
+   * 索引上の休憩を閉じた場合の休憩時間（分）を計算（送信待ちキューに保存する場合の応答用）
+   */
+  private closeBreak(
+    session: ActiveWorkSession,
+    time: Date,
+    timeZone: string
+  ): { addedMinutes: number; totalMinutes: number } {
+    const breakStart = session.breakStartTime
+      ? parseDateTime(session.breakStartTime, timeZone)
+      : null;
+    const addedMinutes = breakStart
+      ? Math.max(
+          0,
+          Math.floor((time.getTime() - breakStart.getTime()) / (1000 * 60))
+        )
+      : 0;
+    return { addedMinutes, totalMinutes: session.breakMinutes + addedMinutes };
+  }
+
+  private findSessions(
+    sessions: Map<string, ActiveWorkSession>,
+    userId: string,
+    channelId: string
+  ): ActiveWorkSession[] {
+    return [...sessions.values()].filter(
+      (session) => session.userId === userId && session.channelId === channelId
+    );
+  }
+
+  /**
+   * 開始時刻が勤務中とみなす期間以内かチェック
+   */
+  private isWithinActiveWindow(
+    session: ActiveWorkSession,
+    timeZone: string
+  ): boolean {
+    const startTime = parseDateTime(session.startTime, timeZone);
+    if (!startTime) return false;
+
+    const hoursDiff = (Date.now() - startTime.getTime()) / (1000 * 60 * 60);
+    return hoursDiff <= ACTIVE_SESSION_MAX_HOURS;
+  }
+
+  /**
+   * 索引にある記録の場所を保存先に伝える（シート全体を検索せずに行を特定できるようにする）
+   */
+  private rememberSession(
+    store: AttendanceStore,
+    session?: ActiveWorkSession
+  ): void {
+    if (session) {
+      store.rememberSession(session);
+    }
+  }
+
+  /**
+   * 処理中の例外を失敗の結果に変換（サーバー設定がない場合はコードで返す）
+   */
+  private toFailure(error: unknown): {
+    error?: string;
+    errorCode?: AttendanceErrorCode;
+  } {
+    if (error instanceof ServerConfigNotFoundError) {
+      return { errorCode: "config_not_found" };
+    }
+    return { error: this.toErrorMessage(error) };
+  }
+
+  private toErrorMessage(error: unknown): string {
+    return error instanceof Error
+      ? error.message
+      : typeof error === "object"
+      ? JSON.stringify(error, null, 2)
+      : String(error);
+  }
+}
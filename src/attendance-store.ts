@@ -0,0 +1,373 @@
+import {
+  Bindings,
+  ActiveWorkSession,
+  StaleWorkSession,
+  WorkRecord,
+  ServerConfig,
+  RowLocation,
+  TimeSettings,
+  AttendanceErrorCode,
+} from "./types";
+import { SheetsService, resolveColumnLayout } from "./sheets-service";
+import { D1AttendanceStore } from "./d1-attendance-store";
+import { getTimeSettings } from "./utils";
+
+export interface StartRecordResult {
+  success: boolean;
+  recordId?: string;
+  startTime?: string; // 記録上の表記（YYYY/MM/DD HH:MM）
+  location?: RowLocation; // スプレッドシート上の行の位置（分かっている場合）
+  error?: string;
+  retryable?: boolean; // 時間をおいて再送すれば成功する可能性がある失敗（5xx・429・トークン失効など）
+}
+
+export interface EndRecordResult {
+  success: boolean;
+  workHours?: string; // スプレッドシートの数式で計算した労働時間（D1 のみの場合は未設定）
+  breakMinutes?: number;
+  error?: string;
+  errorCode?: AttendanceErrorCode;
+  retryable?: boolean;
+}
+
+export interface BreakStartResult {
+  success: boolean;
+  breakStartTime?: string; // 記録上の表記（既に休憩中の場合は、その休憩の開始時刻）
+  error?: string;
+  errorCode?: AttendanceErrorCode;
+  retryable?: boolean;
+}
+
+export interface BreakEndResult {
+  success: boolean;
+  breakMinutes?: number;
+  totalBreakMinutes?: number;
+  error?: string;
+  errorCode?: AttendanceErrorCode;
+  retryable?: boolean;
+}
+
+export interface WorkSessionsResult<T extends ActiveWorkSession> {
+  success: boolean;
+  sessions?: T[];
+  error?: string;
+}
+
+export interface WorkRecordsResult {
+  success: boolean;
+  records?: WorkRecord[];
+  error?: string;
+}
+
+export interface WorkRecordResult {
+  success: boolean;
+  record?: WorkRecord;
+  error?: string;
+  errorCode?: AttendanceErrorCode;
+}
+
+export interface WorkRecordChanges {
+  startTime?: Date;
+  endTime?: Date;
+  todo?: string;
+}
+
+/**
+ * 勤怠データの保存先
+ * サーバーごとに作成し、記録・検索の操作をまとめて扱う
+ */
+export interface AttendanceStore {
+  /**
+   * 勤務開始を記録
+   * @param recordId 記録ID（再試行で同じIDを渡した場合は二重に記録しない）
+   * @param checkExisting 前回の試行で記録済みか確認する（未記録と分かっている場合は false）
+   */
+  recordStartTime(
+    userId: string,
+    username: string,
+    projectName: string,
+    channelId: string,
+    startTime: Date,
+    recordId: string,
+    checkExisting?: boolean
+  ): Promise<StartRecordResult>;
+
+  /**
+   * 勤務終了を記録
+   * @param resume 前回の試行の続きとして、終了済みの記録も対象にする
+   */
+  recordEndTime(
+    userId: string,
+    endTime: Date,
+    recordId: string,
+    todo: string,
+    resume?: boolean
+  ): Promise<EndRecordResult>;
+
+  recordBreakStart(
+    recordId: string,
+    breakStartTime: Date
+  ): Promise<BreakStartResult>;
+
+  recordBreakEnd(recordId: string, breakEndTime: Date): Promise<BreakEndResult>;
+
+  /**
+   * 記録が未終了かどうかを確認
+   */
+  isRecordOpen(recordId: string): Promise<boolean>;
+
+  /**
+   * 終了していない全ての勤務記録を取得（勤務中セッションの索引作成用）
+   */
+  listOpenWorkSessions(): Promise<WorkSessionsResult<ActiveWorkSession>>;
+
+  /**
+   * 勤務中とみなす期間（24時間）以内の未終了の記録を取得（/who 用）
+   */
+  listActiveWorkSessions(
+    channelId?: string
+  ): Promise<WorkSessionsResult<ActiveWorkSession>>;
+
+  /**
+   * 開始から指定時間を超えても終了していない勤務記録を取得（自動終了用）
+   */
+  listStaleWorkSessions(
+    maxHours: number
+  ): Promise<WorkSessionsResult<StaleWorkSession>>;
+
+  /**
+   * 指定期間に開始した勤務記録を取得（/history 等の集計用）
+   */
+  getWorkRecords(
+    from: Date,
+    to: Date,
+    filter?: { userId?: string; projectName?: string }
+  ): Promise<WorkRecordsResult>;
+
+  getWorkRecordByUUID(uuid: string): Promise<WorkRecordResult>;
+
+  /**
+   * 勤務記録の開始時刻・終了時刻・やったことを修正
+   */
+  updateWorkRecord(
+    record: WorkRecord,
+    changes: WorkRecordChanges
+  ): Promise<WorkRecordResult>;
+
+  /**
+   * 勤務中セッションの索引にある記録の場所（行の位置・開始時刻）を登録
+   * 以降の検索でスプレッドシート全体を読まずに済む
+   */
+  rememberSession(session: ActiveWorkSession): void;
+}
+
+/**
+ * Google スプレッドシートと連携済みかどうか（D1 のみで運用するサーバーは未連携）
+ */
+export function hasSpreadsheet(config: ServerConfig): boolean {
+  return !!config.spreadsheet_id;
+}
+
+/**
+ * サーバーの勤怠データの保存先を作成
+ * D1 を選んだサーバーは D1 を正とし、スプレッドシートと連携済みであれば複製先にする
+ */
+export function createAttendanceStore(
+  env: Bindings,
+  guildId: string,
+  config: ServerConfig
+): AttendanceStore {
+  const timeSettings = getTimeSettings(config);
+  const sheetsStore = hasSpreadsheet(config)
+    ? new SheetsAttendanceStore(env, guildId, config, timeSettings)
+    : null;
+
+  if (config.storage === "d1") {
+    if (!env.KINTAI_DB) {
+      throw new Error("D1 データベース（KINTAI_DB）が設定されていません");
+    }
+    return new D1AttendanceStore(
+      env.KINTAI_DB,
+      guildId,
+      timeSettings,
+      sheetsStore
+    );
+  }
+  if (!sheetsStore) {
+    throw new Error("スプレッドシートが設定されていません");
+  }
+  return sheetsStore;
+}
+
+/**
+ * Google スプレッドシートを保存先とする実装
+ */
+export class SheetsAttendanceStore implements AttendanceStore {
+  private sheetsService: SheetsService;
+  private guildId: string;
+  private accessToken: string;
+  private spreadsheetId: string;
+
+  constructor(
+    env: Bindings,
+    guildId: string,
+    config: ServerConfig,
+    timeSettings: TimeSettings
+  ) {
+    this.sheetsService = new SheetsService(
+      env,
+      undefined,
+      timeSettings,
+      resolveColumnLayout(config.column_layout)
+    );
+
+    this.guildId = guildId;
+    this.accessToken = config.access_token;
+    this.spreadsheetId = config.spreadsheet_id;
+  }
+
+  recordStartTime(
+    userId: string,
+    username: string,
+    projectName: string,
+    channelId: string,
+    startTime: Date,
+    recordId: string,
+    checkExisting?: boolean
+  ): Promise<StartRecordResult> {
+    return this.sheetsService.recordStartTime(
+      this.accessToken,
+      this.spreadsheetId,
+      userId,
+      username,
+      projectName,
+      channelId,
+      startTime,
+      this.guildId,
+      recordId,
+      checkExisting
+    );
+  }
+
+  recordEndTime(
+    userId: string,
+    endTime: Date,
+    recordId: string,
+    todo: string,
+    resume?: boolean
+  ): Promise<EndRecordResult> {
+    return this.sheetsService.recordEndTime(
+      this.accessToken,
+      this.spreadsheetId,
+      userId,
+      endTime,
+      recordId,
+      todo,
+      this.guildId,
+      resume
+    );
+  }
+
+  recordBreakStart(
+    recordId: string,
+    breakStartTime: Date
+  ): Promise<BreakStartResult> {
+    return this.sheetsService.recordBreakStart(
+      this.accessToken,
+      this.spreadsheetId,
+      recordId,
+      breakStartTime,
+      this.guildId
+    );
+  }
+
+  recordBreakEnd(recordId: string, breakEndTime: Date): Promise<BreakEndResult> {
+    return this.sheetsService.recordBreakEnd(
+      this.accessToken,
+      this.spreadsheetId,
+      recordId,
+      breakEndTime,
+      this.guildId
+    );
+  }
+
+  isRecordOpen(recordId: string): Promise<boolean> {
+    return this.sheetsService.isRecordOpen(
+      this.accessToken,
+      this.spreadsheetId,
+      recordId,
+      this.guildId
+    );
+  }
+
+  listOpenWorkSessions(): Promise<WorkSessionsResult<ActiveWorkSession>> {
+    return this.sheetsService.listOpenWorkSessions(
+      this.accessToken,
+      this.spreadsheetId,
+      this.guildId
+    );
+  }
+
+  listActiveWorkSessions(
+    channelId?: string
+  ): Promise<WorkSessionsResult<ActiveWorkSession>> {
+    return this.sheetsService.listActiveWorkSessions(
+      this.accessToken,
+      this.spreadsheetId,
+      channelId,
+      this.guildId
+    );
+  }
+
+  listStaleWorkSessions(
+    maxHours: number
+  ): Promise<WorkSessionsResult<StaleWorkSession>> {
+    return this.sheetsService.listStaleWorkSessions(
+      this.accessToken,
+      this.spreadsheetId,
+      maxHours,
+      this.guildId
+    );
+  }
+
+  getWorkRecords(
+    from: Date,
+    to: Date,
+    filter?: { userId?: string; projectName?: string }
+  ): Promise<WorkRecordsResult> {
+    return this.sheetsService.getWorkRecords(
+      this.accessToken,
+      this.spreadsheetId,
+      from,
+      to,
+      filter,
+      this.guildId
+    );
+  }
+
+  getWorkRecordByUUID(uuid: string): Promise<WorkRecordResult> {
+    return this.sheetsService.getWorkRecordByUUID(
+      this.accessToken,
+      this.spreadsheetId,
+      uuid,
+      this.guildId
+    );
+  }
+
+  updateWorkRecord(
+    record: WorkRecord,
+    changes: WorkRecordChanges
+  ): Promise<WorkRecordResult> {
+    return this.sheetsService.updateWorkRecord(
+      this.accessToken,
+      this.spreadsheetId,
+      record,
+      changes,
+      this.guildId
+    );
+  }
+
+  rememberSession(session: ActiveWorkSession): void {
+    this.sheetsService.rememberSession(session);
+  }
+}
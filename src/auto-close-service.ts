@@ -0,0 +1,195 @@
+import {
+  Bindings,
+  AutoClosePolicy,
+  StaleWorkSession,
+  TimeSettings,
+} from "./types";
+import { DiscordApiService } from "./discord-api-service";
+import { ServerConfigService } from "./server-config-service";
+import { createAttendanceStore } from "./attendance-store";
+import { getAttendanceCoordinator } from "./attendance-coordinator";
+import { formatDateTime, getTimeSettings, parseDateTime } from "./utils";
+import {
+  Translator,
+  DEFAULT_LANGUAGE,
+  SUPPORTED_LANGUAGES,
+  createTranslator,
+} from "./i18n";
+
+// 自動終了までの最大勤務時間（サーバー別設定がない場合）
+export const DEFAULT_AUTO_CLOSE_MAX_HOURS = 24;
+
+// 自動終了時の終了時刻の決め方（サーバー別設定がない場合）
+export const DEFAULT_AUTO_CLOSE_POLICY: AutoClosePolicy = "max_length";
+
+/**
+ * 自動終了した記録かどうか（「やったこと」列の目印で判定）
+ * 目印は終了時のサーバーの言語で記録されるため、言語の設定を変えた後も判定できるよう全ての言語で確認する
+ */
+export function isAutoClosedTodo(todo: string): boolean {
+  return SUPPORTED_LANGUAGES.some(
+    (language) => todo === createTranslator(language)("autoClose.todoMarker")
+  );
+}
+
+export class AutoCloseService {
+  private env: Bindings;
+  private discordApiService: DiscordApiService;
+
+  constructor(env: Bindings) {
+    this.env = env;
+    this.discordApiService = new DiscordApiService(env.DISCORD_TOKEN);
+  }
+
+  /**
+   * 設定済みの全サーバーで、最大勤務時間を超えた未終了の勤務を自動終了
+   * Cron Trigger から定期実行される
+   */
+  async closeStaleSessions(): Promise<{ closed: number; failed: number }> {
+    const serverConfigService = new ServerConfigService(this.env);
+    const guildIds = await serverConfigService.listGuildIds();
+    let closed = 0;
+    let failed = 0;
+
+    for (const guildId of guildIds) {
+      try {
+        const result = await this.closeStaleSessionsForGuild(guildId);
+        closed += result.closed;
+        failed += result.failed;
+      } catch (error) {
+        // 1サーバーの失敗で他のサーバーの処理を止めない
+        console.error(`Auto close failed (guildId: ${guildId}):`, error);
+        failed++;
+      }
+    }
+
+    console.log(`Auto close finished: closed=${closed}, failed=${failed}`);
+    return { closed, failed };
+  }
+
+  /**
+   * 指定サーバーの未終了の勤務を自動終了
+   */
+  private async closeStaleSessionsForGuild(
+    guildId: string
+  ): Promise<{ closed: number; failed: number }> {
+    const serverConfigService = new ServerConfigService(this.env);
+    const config = await serverConfigService.getServerConfig(guildId);
+    if (!config) return { closed: 0, failed: 0 };
+
+    const maxHours = config.auto_close_max_hours || DEFAULT_AUTO_CLOSE_MAX_HOURS;
+    const policy = config.auto_close_policy || DEFAULT_AUTO_CLOSE_POLICY;
+
+    const timeSettings = getTimeSettings(config);
+    // 通知はインタラクションのロケールが使えないため、サーバー別の言語設定に従う
+    const t = createTranslator(config.language || DEFAULT_LANGUAGE);
+    const store = createAttendanceStore(this.env, guildId, config);
+    const staleResult = await store.listStaleWorkSessions(maxHours);
+
+    if (!staleResult.success || !staleResult.sessions) {
+      throw new Error(staleResult.error);
+    }
+
+    let closed = 0;
+    let failed = 0;
+    // 利用者の打刻と同時に書き込まないよう、サーバー単位で直列化して終了する
+    const coordinator = getAttendanceCoordinator(this.env, guildId);
+
+    for (const session of staleResult.sessions) {
+      const endTime = this.resolveEndTime(
+        session,
+        maxHours,
+        policy,
+        timeSettings
+      );
+      if (!endTime) {
+        failed++;
+        continue;
+      }
+
+      const endResult = await coordinator.endSession(guildId, {
+        recordId: session.recordId,
+        userId: session.userId,
+        endTime,
+        todo: t("autoClose.todoMarker"),
+      });
+
+      if (!endResult.success) {
+        console.error(
+          `Failed to auto close session ${session.recordId}:`,
+          endResult.error
+        );
+        failed++;
+        continue;
+      }
+
+      closed++;
+      await this.notifyUser(session, endTime, maxHours, timeSettings, t);
+    }
+
+    return { closed, failed };
+  }
+
+  /**
+   * ポリシーに従って自動終了時の終了時刻を決定
+   */
+  private resolveEndTime(
+    session: StaleWorkSession,
+    maxHours: number,
+    policy: AutoClosePolicy,
+    timeSettings: TimeSettings
+  ): Date | null {
+    const startTime = parseDateTime(session.startTime, timeSettings.timeZone);
+    if (!startTime) return null;
+
+    if (policy === "last_activity") {
+      const lastActivity = parseDateTime(
+        session.lastActivityTime,
+        timeSettings.timeZone
+      );
+      return lastActivity && lastActivity > startTime ? lastActivity : startTime;
+    }
+
+    return new Date(startTime.getTime() + maxHours * 60 * 60 * 1000);
+  }
+
+  /**
+   * 自動終了したことを本人に通知（DMが送れない場合は勤務開始したチャンネルでメンション）
+   */
+  private async notifyUser(
+    session: StaleWorkSession,
+    endTime: Date,
+    maxHours: number,
+    timeSettings: TimeSettings,
+    t: Translator
+  ): Promise<void> {
+    const message = t("autoClose.notification", {
+      project: session.projectName,
+      startTime: session.startTime,
+      endTime: formatDateTime(endTime, timeSettings.timeZone),
+      hours: maxHours,
+    });
+
+    try {
+      const dmChannel = await this.discordApiService.createDMChannel(
+        session.userId
+      );
+      await this.discordApiService.createChannelMessage(dmChannel.id, message);
+      return;
+    } catch (error) {
+      console.warn(`Failed to send DM to ${session.userId}:`, error);
+    }
+
+    try {
+      await this.discordApiService.createChannelMessage(
+        session.channelId,
+        `<@${session.userId}>\n${message}`
+      );
+    } catch (error) {
+      console.error(
+        `Failed to notify ${session.userId} in channel ${session.channelId}:`,
+        error
+      );
+    }
+  }
+}
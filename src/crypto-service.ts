@@ -1,68 +1,243 @@
+import { Bindings } from "./types";
+
+// 暗号文の先頭に付けるキーのバージョン（例: "v2:..."）
+// 付いていない暗号文はキー導出を導入する前の旧形式として扱う
+const VERSION_PREFIX_PATTERN = /^v(\d+):/;
+
+// 暗号文ごとに生成するソルト・IVの長さ（バイト）
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+// HKDF で AES-256-GCM の鍵を導出する際の用途の指定
+const HKDF_INFO = "kintai-discord:aes-256-gcm";
+
+export interface EncryptionKey {
+  version: number;
+  secret: string;
+}
+
+/**
+ * 環境変数から暗号化サービスを作成
+ * ENCRYPTION_KEY を新しい暗号化に使い、PREVIOUS_ENCRYPTION_KEYS の古いキーは復号のみに使う
+ */
+export function createCryptoService(env: Bindings): CryptoService {
+  return new CryptoService(
+    {
+      version: parseKeyVersion(env.ENCRYPTION_KEY_VERSION || "1"),
+      secret: env.ENCRYPTION_KEY,
+    },
+    parsePreviousKeys(env.PREVIOUS_ENCRYPTION_KEYS)
+  );
+}
+
+/**
+ * キーのバージョン（1以上の整数）を解釈
+ */
+function parseKeyVersion(value: string): number {
+  const version = Number(value.trim());
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`暗号化キーのバージョンが正しくありません: ${value}`);
+  }
+  return version;
+}
+
+/**
+ * 古いキーの一覧（"バージョン:キー" のカンマ区切り）を解釈
+ */
+function parsePreviousKeys(value: string | undefined): EncryptionKey[] {
+  if (!value?.trim()) return [];
+
+  return value.split(",").map((entry) => {
+    const separator = entry.indexOf(":");
+    if (separator < 0) {
+      throw new Error(
+        "PREVIOUS_ENCRYPTION_KEYS は \"バージョン:キー\" のカンマ区切りで指定してください"
+      );
+    }
+    return {
+      version: parseKeyVersion(entry.slice(0, separator)),
+      secret: entry.slice(separator + 1).trim(),
+    };
+  });
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
+
 export class CryptoService {
-  private encryptionKey: string;
+  private currentKey: EncryptionKey;
+  private keys = new Map<number, EncryptionKey>();
+  // HKDF の元になる鍵（バージョンごとに1回だけインポートする）
+  private baseKeys = new Map<number, Promise<CryptoKey>>();
 
-  constructor(encryptionKey: string) {
-    if (!encryptionKey || encryptionKey.length < 32) {
-      throw new Error("暗号化キーは32文字以上である必要があります");
+  /**
+   * @param currentKey 新しい暗号化に使うキー
+   * @param previousKeys キーの更新前に暗号化したデータの復号にのみ使うキー
+   */
+  constructor(currentKey: EncryptionKey, previousKeys: EncryptionKey[] = []) {
+    for (const key of [currentKey, ...previousKeys]) {
+      if (!key.secret || key.secret.length < 32) {
+        throw new Error("暗号化キーは32文字以上である必要があります");
+      }
+      if (this.keys.has(key.version)) {
+        throw new Error(`暗号化キーのバージョン ${key.version} が重複しています`);
+      }
+      this.keys.set(key.version, key);
     }
-    this.encryptionKey = encryptionKey;
+    this.currentKey = currentKey;
+  }
+
+  /**
+   * 新しい暗号化に使うキーのバージョン
+   */
+  get currentVersion(): number {
+    return this.currentKey.version;
   }
 
+  /**
+   * 暗号化（"v{バージョン}:" + Base64(ソルト + IV + 暗号文)）
+   */
   async encrypt(data: any): Promise<string> {
     const encoder = new TextEncoder();
     const dataString = typeof data === "string" ? data : JSON.stringify(data);
-    const dataBuffer = encoder.encode(dataString);
+    const prefix = `v${this.currentKey.version}:`;
 
-    const keyBuffer = encoder.encode(
-      this.encryptionKey.slice(0, 32).padEnd(32, "0")
-    );
-    const key = await crypto.subtle.importKey(
-      "raw",
-      keyBuffer,
-      { name: "AES-GCM" },
-      false,
-      ["encrypt"]
-    );
-    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const key = await this.deriveKey(this.currentKey, salt, ["encrypt"]);
+    // バージョンの付け替えを検知できるよう、接頭辞を認証対象に含める
     const encrypted = await crypto.subtle.encrypt(
-      { name: "AES-GCM", iv },
+      { name: "AES-GCM", iv, additionalData: encoder.encode(prefix) },
       key,
-      dataBuffer
+      encoder.encode(dataString)
     );
 
-    const result = new Uint8Array(iv.length + encrypted.byteLength);
-    result.set(iv);
-    result.set(new Uint8Array(encrypted), iv.length);
+    const result = new Uint8Array(
+      salt.length + iv.length + encrypted.byteLength
+    );
+    result.set(salt);
+    result.set(iv, salt.length);
+    result.set(new Uint8Array(encrypted), salt.length + iv.length);
 
-    return btoa(String.fromCharCode(...result));
+    return prefix + toBase64(result);
   }
 
+  /**
+   * 復号（暗号文のバージョンのキーを使う。旧形式の暗号文は全てのキーで試す）
+   */
   async decrypt(encryptedData: string): Promise<string> {
-    const encoder = new TextEncoder();
-    const data = Uint8Array.from(atob(encryptedData), (c) => c.charCodeAt(0));
-    const iv = data.slice(0, 12);
-    const encryptedBuffer = data.slice(12);
+    const match = VERSION_PREFIX_PATTERN.exec(encryptedData);
+    if (!match) {
+      return this.decryptLegacy(encryptedData);
+    }
 
-    const keyBuffer = encoder.encode(
-      this.encryptionKey.slice(0, 32).padEnd(32, "0")
-    );
-    const key = await crypto.subtle.importKey(
-      "raw",
-      keyBuffer,
-      { name: "AES-GCM" },
-      false,
-      ["decrypt"]
-    );
+    const version = Number(match[1]);
+    const encryptionKey = this.keys.get(version);
+    if (!encryptionKey) {
+      throw new Error(
+        `暗号化キーのバージョン ${version} が設定されていません（PREVIOUS_ENCRYPTION_KEYS を確認してください）`
+      );
+    }
+
+    const data = fromBase64(encryptedData.slice(match[0].length));
+    const salt = data.slice(0, SALT_LENGTH);
+    const iv = data.slice(SALT_LENGTH, SALT_LENGTH + IV_LENGTH);
+    const key = await this.deriveKey(encryptionKey, salt, ["decrypt"]);
     const decrypted = await crypto.subtle.decrypt(
-      { name: "AES-GCM", iv },
+      { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(match[0]) },
       key,
-      encryptedBuffer
+      data.slice(SALT_LENGTH + IV_LENGTH)
     );
 
-    const decoder = new TextDecoder();
-    const decryptedString = decoder.decode(decrypted);
+    // 常に文字列を返す（オブジェクトの場合はJSONパースを呼び出し元で行う）
+    return new TextDecoder().decode(decrypted);
+  }
+
+  /**
+   * 最新のキーで暗号化されているか（再暗号化が不要か）
+   */
+  isCurrent(encryptedData: string): boolean {
+    return encryptedData.startsWith(`v${this.currentKey.version}:`);
+  }
+
+  /**
+   * 古いキー・旧形式の暗号文を最新のキーで暗号化し直す
+   */
+  async reEncrypt(encryptedData: string): Promise<string> {
+    return this.encrypt(await this.decrypt(encryptedData));
+  }
+
+  /**
+   * キーとソルトから HKDF-SHA256 で AES-256-GCM の鍵を導出
+   */
+  private async deriveKey(
+    encryptionKey: EncryptionKey,
+    salt: Uint8Array,
+    usages: Array<"encrypt" | "decrypt">
+  ): Promise<CryptoKey> {
+    let baseKey = this.baseKeys.get(encryptionKey.version);
+    if (!baseKey) {
+      baseKey = crypto.subtle.importKey(
+        "raw",
+        new TextEncoder().encode(encryptionKey.secret),
+        "HKDF",
+        false,
+        ["deriveKey"]
+      );
+      this.baseKeys.set(encryptionKey.version, baseKey);
+    }
+
+    return crypto.subtle.deriveKey(
+      {
+        name: "HKDF",
+        hash: "SHA-256",
+        salt,
+        info: new TextEncoder().encode(HKDF_INFO),
+      },
+      await baseKey,
+      { name: "AES-GCM", length: 256 },
+      false,
+      usages
+    );
+  }
+
+  /**
+   * 旧形式（キーの先頭32文字をそのまま鍵に使い、Base64(IV + 暗号文)）の暗号文を復号
+   * どのキーで暗号化したか分からないため、新しいキーから順に試す
+   */
+  private async decryptLegacy(encryptedData: string): Promise<string> {
+    const data = fromBase64(encryptedData);
+    const iv = data.slice(0, IV_LENGTH);
+    const encryptedBuffer = data.slice(IV_LENGTH);
+
+    let lastError: unknown;
+    for (const encryptionKey of this.keys.values()) {
+      try {
+        const key = await crypto.subtle.importKey(
+          "raw",
+          new TextEncoder().encode(
+            encryptionKey.secret.slice(0, 32).padEnd(32, "0")
+          ),
+          { name: "AES-GCM" },
+          false,
+          ["decrypt"]
+        );
+        const decrypted = await crypto.subtle.decrypt(
+          { name: "AES-GCM", iv },
+          key,
+          encryptedBuffer
+        );
+        return new TextDecoder().decode(decrypted);
+      } catch (error) {
+        lastError = error;
+      }
+    }
 
-    // 常に文字列を返すように変更（オブジェクトの場合はJSONパースを呼び出し元で行う）
-    return decryptedString;
+    throw lastError;
   }
 }
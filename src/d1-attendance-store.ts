@@ -0,0 +1,617 @@
+import {
+  ActiveWorkSession,
+  StaleWorkSession,
+  WorkRecord,
+  TimeSettings,
+} from "./types";
+import type {
+  AttendanceStore,
+  StartRecordResult,
+  EndRecordResult,
+  BreakStartResult,
+  BreakEndResult,
+  WorkSessionsResult,
+  WorkRecordsResult,
+  WorkRecordResult,
+  WorkRecordChanges,
+} from "./attendance-store";
+import { ACTIVE_SESSION_MAX_HOURS } from "./sheets-service";
+import {
+  BREAK_SEPARATOR,
+  closeOpenBreak,
+  formatRecordDateTime,
+  getLastActivityTime,
+  getMonthlySheetName,
+  getOpenBreakStart,
+} from "./utils";
+
+// attendance_records テーブルの行（時刻は UNIX 時間のミリ秒）
+interface AttendanceRecordRow {
+  id: string;
+  guild_id: string;
+  user_id: string;
+  username: string;
+  project_name: string;
+  channel_id: string;
+  todo: string;
+  start_time: number;
+  end_time: number | null;
+  break_log: string;
+  break_minutes: number;
+}
+
+/**
+ * Cloudflare D1 を保存先とする実装
+ * D1 を正とし、スプレッドシートと連携済みのサーバーでは書き込みをスプレッドシートにも反映する。
+ * スプレッドシートへの反映に失敗しても D1 への記録は成功とする。
+ */
+export class D1AttendanceStore implements AttendanceStore {
+  private db: D1Database;
+  private guildId: string;
+  private timeSettings: TimeSettings;
+  private mirror: AttendanceStore | null;
+
+  constructor(
+    db: D1Database,
+    guildId: string,
+    timeSettings: TimeSettings,
+    mirror: AttendanceStore | null = null
+  ) {
+    this.db = db;
+    this.guildId = guildId;
+    this.timeSettings = timeSettings;
+    this.mirror = mirror;
+  }
+
+  async recordStartTime(
+    userId: string,
+    username: string,
+    projectName: string,
+    channelId: string,
+    startTime: Date,
+    recordId: string,
+    checkExisting: boolean = true
+  ): Promise<StartRecordResult> {
+    try {
+      const now = Date.now();
+      // 前回の試行で記録済みの場合は追加しない
+      const result = await this.db
+        .prepare(
+          `INSERT INTO attendance_records
+             (id, guild_id, user_id, username, project_name, channel_id, todo,
+              start_time, end_time, break_log, break_minutes, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, '', ?, NULL, '', 0, ?, ?)
+           ON CONFLICT(id) DO NOTHING`
+        )
+        .bind(
+          recordId,
+          this.guildId,
+          userId,
+          username,
+          projectName,
+          channelId,
+          startTime.getTime(),
+          now,
+          now
+        )
+        .run();
+
+      const inserted = result.meta.changes > 0;
+      const row = inserted ? null : await this.findRow(recordId);
+      const recordedStart = row ? new Date(row.start_time) : startTime;
+
+      // 記録済みだった場合はスプレッドシートにも反映済みの可能性がある
+      const mirrored = await this.mirrorWrite("start", (mirror) =>
+        mirror.recordStartTime(
+          userId,
+          username,
+          projectName,
+          channelId,
+          recordedStart,
+          recordId,
+          checkExisting || !inserted
+        )
+      );
+
+      return {
+        success: true,
+        recordId,
+        startTime: this.formatTime(recordedStart),
+        location: mirrored?.location,
+      };
+    } catch (error) {
+      console.error("Failed to record start time:", error);
+      return {
+        success: false,
+        error: this.toErrorMessage(error),
+      };
+    }
+  }
+
+  async recordEndTime(
+    userId: string,
+    endTime: Date,
+    recordId: string,
+    todo: string,
+    resume: boolean = false
+  ): Promise<EndRecordResult> {
+    try {
+      const row = await this.findRow(recordId);
+      // 再試行時は前回の試行で終了済みの場合があるため、終了済みの記録も対象にする
+      if (!row || (row.end_time !== null && !resume)) {
+        return {
+          success: false,
+          errorCode: "start_record_not_found",
+        };
+      }
+
+      // 休憩中のまま終了した場合は終了時刻で休憩を閉じる
+      const closedBreak = closeOpenBreak(
+        row.break_log,
+        row.break_minutes,
+        endTime,
+        this.timeSettings.timeZone
+      );
+      const breakLog = closedBreak?.breakLog ?? row.break_log;
+      const breakMinutes = closedBreak?.breakMinutes ?? row.break_minutes;
+
+      await this.db
+        .prepare(
+          `UPDATE attendance_records
+             SET todo = ?, end_time = ?, break_log = ?, break_minutes = ?, updated_at = ?
+           WHERE guild_id = ? AND id = ?`
+        )
+        .bind(
+          todo,
+          endTime.getTime(),
+          breakLog,
+          breakMinutes,
+          Date.now(),
+          this.guildId,
+          recordId
+        )
+        .run();
+
+      // スプレッドシート側も前回の試行で終了済みの可能性があるため、常に終了済みの行も対象にする
+      await this.mirrorWrite("end", (mirror) =>
+        mirror.recordEndTime(userId, endTime, recordId, todo, true)
+      );
+
+      // 労働時間は呼び出し元で開始・終了時刻と休憩時間から計算する
+      return { success: true, breakMinutes };
+    } catch (error) {
+      console.error("Failed to record end time:", error);
+      return {
+        success: false,
+        error: this.toErrorMessage(error),
+      };
+    }
+  }
+
+  async recordBreakStart(
+    recordId: string,
+    breakStartTime: Date
+  ): Promise<BreakStartResult> {
+    try {
+      const row = await this.findRow(recordId);
+      if (!row || row.end_time !== null) {
+        return {
+          success: false,
+          errorCode: "start_record_not_found",
+        };
+      }
+
+      const openBreakStart = getOpenBreakStart(row.break_log);
+      if (openBreakStart) {
+        return {
+          success: false,
+          errorCode: "already_on_break",
+          breakStartTime: openBreakStart,
+        };
+      }
+
+      const breakStartTimeStr = this.formatTime(breakStartTime);
+      const entry = `${breakStartTimeStr}${BREAK_SEPARATOR}`;
+      const updatedLog = row.break_log ? `${row.break_log}\n${entry}` : entry;
+
+      await this.db
+        .prepare(
+          `UPDATE attendance_records SET break_log = ?, updated_at = ?
+           WHERE guild_id = ? AND id = ?`
+        )
+        .bind(updatedLog, Date.now(), this.guildId, recordId)
+        .run();
+
+      await this.mirrorWrite("break start", (mirror) =>
+        mirror.recordBreakStart(recordId, breakStartTime)
+      );
+
+      return { success: true, breakStartTime: breakStartTimeStr };
+    } catch (error) {
+      console.error("Failed to record break start:", error);
+      return {
+        success: false,
+        error: this.toErrorMessage(error),
+      };
+    }
+  }
+
+  async recordBreakEnd(
+    recordId: string,
+    breakEndTime: Date
+  ): Promise<BreakEndResult> {
+    try {
+      const row = await this.findRow(recordId);
+      if (!row || row.end_time !== null) {
+        return {
+          success: false,
+          errorCode: "start_record_not_found",
+        };
+      }
+
+      const closedBreak = closeOpenBreak(
+        row.break_log,
+        row.break_minutes,
+        breakEndTime,
+        this.timeSettings.timeZone
+      );
+      if (!closedBreak) {
+        return {
+          success: false,
+          errorCode: "not_on_break",
+        };
+      }
+
+      await this.db
+        .prepare(
+          `UPDATE attendance_records SET break_log = ?, break_minutes = ?, updated_at = ?
+           WHERE guild_id = ? AND id = ?`
+        )
+        .bind(
+          closedBreak.breakLog,
+          closedBreak.breakMinutes,
+          Date.now(),
+          this.guildId,
+          recordId
+        )
+        .run();
+
+      await this.mirrorWrite("break end", (mirror) =>
+        mirror.recordBreakEnd(recordId, breakEndTime)
+      );
+
+      return {
+        success: true,
+        breakMinutes: closedBreak.addedMinutes,
+        totalBreakMinutes: closedBreak.breakMinutes,
+      };
+    } catch (error) {
+      console.error("Failed to record break end:", error);
+      return {
+        success: false,
+        error: this.toErrorMessage(error),
+      };
+    }
+  }
+
+  async isRecordOpen(recordId: string): Promise<boolean> {
+    const row = await this.findRow(recordId);
+    return !!row && row.end_time === null;
+  }
+
+  async listOpenWorkSessions(): Promise<WorkSessionsResult<ActiveWorkSession>> {
+    try {
+      const rows = await this.queryRows(
+        `SELECT * FROM attendance_records
+         WHERE guild_id = ? AND end_time IS NULL
+         ORDER BY start_time`,
+        this.guildId
+      );
+      return {
+        success: true,
+        sessions: rows.map((row) => this.toActiveWorkSession(row)),
+      };
+    } catch (error) {
+      console.error("Failed to list open work sessions:", error);
+      return {
+        success: false,
+        error: this.toErrorMessage(error),
+      };
+    }
+  }
+
+  async listActiveWorkSessions(
+    channelId?: string
+  ): Promise<WorkSessionsResult<ActiveWorkSession>> {
+    try {
+      const since = Date.now() - ACTIVE_SESSION_MAX_HOURS * 60 * 60 * 1000;
+      const rows = channelId
+        ? await this.queryRows(
+            `SELECT * FROM attendance_records
+             WHERE guild_id = ? AND end_time IS NULL AND start_time >= ? AND channel_id = ?
+             ORDER BY start_time`,
+            this.guildId,
+            since,
+            channelId
+          )
+        : await this.queryRows(
+            `SELECT * FROM attendance_records
+             WHERE guild_id = ? AND end_time IS NULL AND start_time >= ?
+             ORDER BY start_time`,
+            this.guildId,
+            since
+          );
+      return {
+        success: true,
+        sessions: rows.map((row) => this.toActiveWorkSession(row)),
+      };
+    } catch (error) {
+      console.error("Failed to list active work sessions:", error);
+      return {
+        success: false,
+        error: this.toErrorMessage(error),
+      };
+    }
+  }
+
+  async listStaleWorkSessions(
+    maxHours: number
+  ): Promise<WorkSessionsResult<StaleWorkSession>> {
+    try {
+      const rows = await this.queryRows(
+        `SELECT * FROM attendance_records
+         WHERE guild_id = ? AND end_time IS NULL AND start_time < ?
+         ORDER BY start_time`,
+        this.guildId,
+        Date.now() - maxHours * 60 * 60 * 1000
+      );
+      return {
+        success: true,
+        sessions: rows.map((row) => {
+          const session = this.toActiveWorkSession(row);
+          return {
+            ...session,
+            lastActivityTime: getLastActivityTime(
+              session.startTime,
+              row.break_log
+            ),
+          };
+        }),
+      };
+    } catch (error) {
+      console.error("Failed to list stale work sessions:", error);
+      return {
+        success: false,
+        error: this.toErrorMessage(error),
+      };
+    }
+  }
+
+  async getWorkRecords(
+    from: Date,
+    to: Date,
+    filter: { userId?: string; projectName?: string } = {}
+  ): Promise<WorkRecordsResult> {
+    try {
+      const conditions = ["guild_id = ?", "start_time >= ?", "start_time < ?"];
+      const params: (string | number)[] = [
+        this.guildId,
+        from.getTime(),
+        to.getTime(),
+      ];
+      if (filter.userId) {
+        conditions.push("user_id = ?");
+        params.push(filter.userId);
+      }
+      if (filter.projectName) {
+        conditions.push("project_name = ?");
+        params.push(filter.projectName);
+      }
+
+      const rows = await this.queryRows(
+        `SELECT * FROM attendance_records
+         WHERE ${conditions.join(" AND ")}
+         ORDER BY start_time`,
+        ...params
+      );
+      return {
+        success: true,
+        records: rows.map((row) => this.toWorkRecord(row)),
+      };
+    } catch (error) {
+      console.error("Failed to get work records:", error);
+      return {
+        success: false,
+        error: this.toErrorMessage(error),
+      };
+    }
+  }
+
+  async getWorkRecordByUUID(uuid: string): Promise<WorkRecordResult> {
+    try {
+      const row = await this.findRow(uuid);
+      if (!row) {
+        return { success: false, errorCode: "record_not_found" };
+      }
+      return { success: true, record: this.toWorkRecord(row) };
+    } catch (error) {
+      console.error("Failed to get work record:", error);
+      return {
+        success: false,
+        error: this.toErrorMessage(error),
+      };
+    }
+  }
+
+  async updateWorkRecord(
+    record: WorkRecord,
+    changes: WorkRecordChanges
+  ): Promise<WorkRecordResult> {
+    try {
+      const row = await this.findRow(record.uuid);
+      if (!row) {
+        return { success: false, errorCode: "record_not_found" };
+      }
+
+      const updated: AttendanceRecordRow = { ...row };
+      if (changes.todo !== undefined) {
+        updated.todo = changes.todo;
+      }
+      if (changes.startTime) {
+        updated.start_time = changes.startTime.getTime();
+      }
+      if (changes.endTime) {
+        updated.end_time = changes.endTime.getTime();
+
+        // 休憩中のまま終了時刻を設定した場合は終了時刻で休憩を閉じる
+        const closedBreak = closeOpenBreak(
+          row.break_log,
+          row.break_minutes,
+          changes.endTime,
+          this.timeSettings.timeZone
+        );
+        if (closedBreak) {
+          updated.break_log = closedBreak.breakLog;
+          updated.break_minutes = closedBreak.breakMinutes;
+        }
+      }
+
+      await this.db
+        .prepare(
+          `UPDATE attendance_records
+             SET todo = ?, start_time = ?, end_time = ?, break_log = ?, break_minutes = ?, updated_at = ?
+           WHERE guild_id = ? AND id = ?`
+        )
+        .bind(
+          updated.todo,
+          updated.start_time,
+          updated.end_time,
+          updated.break_log,
+          updated.break_minutes,
+          Date.now(),
+          this.guildId,
+          record.uuid
+        )
+        .run();
+
+      // スプレッドシートの行は修正前の開始月のシートにある
+      await this.mirrorWrite("update", (mirror) =>
+        mirror.updateWorkRecord(this.toWorkRecord(row), changes)
+      );
+
+      return { success: true, record: this.toWorkRecord(updated) };
+    } catch (error) {
+      console.error("Failed to update work record:", error);
+      return {
+        success: false,
+        error: this.toErrorMessage(error),
+      };
+    }
+  }
+
+  rememberSession(session: ActiveWorkSession): void {
+    this.mirror?.rememberSession(session);
+  }
+
+  private async findRow(recordId: string): Promise<AttendanceRecordRow | null> {
+    return this.db
+      .prepare(
+        "SELECT * FROM attendance_records WHERE guild_id = ? AND id = ?"
+      )
+      .bind(this.guildId, recordId)
+      .first<AttendanceRecordRow>();
+  }
+
+  private async queryRows(
+    query: string,
+    ...params: (string | number)[]
+  ): Promise<AttendanceRecordRow[]> {
+    const { results } = await this.db
+      .prepare(query)
+      .bind(...params)
+      .all<AttendanceRecordRow>();
+    return results;
+  }
+
+  /**
+   * スプレッドシートにも書き込みを反映（連携していない場合は何もしない）
+   * 失敗しても D1 の記録は成功しているため、ログに残して処理を続ける
+   */
+  private async mirrorWrite<T extends { success: boolean; error?: string }>(
+    operation: string,
+    write: (mirror: AttendanceStore) => Promise<T>
+  ): Promise<T | null> {
+    if (!this.mirror) return null;
+
+    try {
+      const result = await write(this.mirror);
+      if (!result.success) {
+        console.warn(
+          `Failed to mirror ${operation} to spreadsheet:`,
+          result.error
+        );
+      }
+      return result;
+    } catch (error) {
+      console.warn(`Failed to mirror ${operation} to spreadsheet:`, error);
+      return null;
+    }
+  }
+
+  private formatTime(time: number | Date): string {
+    return formatRecordDateTime(new Date(time), this.timeSettings.timeZone);
+  }
+
+  private toActiveWorkSession(row: AttendanceRecordRow): ActiveWorkSession {
+    return {
+      recordId: row.id,
+      userId: row.user_id,
+      username: row.username,
+      projectName: row.project_name,
+      channelId: row.channel_id,
+      startTime: this.formatTime(row.start_time),
+      breakStartTime: getOpenBreakStart(row.break_log) || undefined,
+      breakMinutes: row.break_minutes,
+    };
+  }
+
+  /**
+   * D1 の行を勤務記録に変換
+   * シート名はスプレッドシートに複製した場合の月別シート（行番号は持たない）
+   */
+  private toWorkRecord(row: AttendanceRecordRow): WorkRecord {
+    const startTime = new Date(row.start_time);
+    const workMinutes =
+      row.end_time !== null
+        ? Math.max(
+            0,
+            Math.floor((row.end_time - row.start_time) / (1000 * 60)) -
+              row.break_minutes
+          )
+        : null;
+
+    return {
+      sheetName: getMonthlySheetName(startTime, this.timeSettings.timeZone),
+      rowNumber: 0,
+      projectName: row.project_name,
+      username: row.username,
+      todo: row.todo,
+      startTime: this.formatTime(startTime),
+      endTime: row.end_time !== null ? this.formatTime(row.end_time) : "",
+      channelId: row.channel_id,
+      userId: row.user_id,
+      uuid: row.id,
+      breakMinutes: row.break_minutes,
+      workDate: this.formatTime(startTime).slice(0, 10),
+      workMinutes,
+    };
+  }
+
+  private toErrorMessage(error: unknown): string {
+    return error instanceof Error
+      ? error.message
+      : typeof error === "object"
+      ? JSON.stringify(error, null, 2)
+      : String(error);
+  }
+}
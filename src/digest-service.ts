@@ -0,0 +1,237 @@
+import { Bindings, ServerConfig, WorkRecord } from "./types";
+import { DiscordApiService } from "./discord-api-service";
+import { ServerConfigService } from "./server-config-service";
+import { createAttendanceStore } from "./attendance-store";
+import { isAutoClosedTodo } from "./auto-close-service";
+import {
+  fitLines,
+  formatDateTime,
+  formatMinutes,
+  getTimeSettings,
+  getZonedDateParts,
+  groupWorkMinutes,
+  toStartOfDay,
+} from "./utils";
+import { Translator, DEFAULT_LANGUAGE, createTranslator } from "./i18n";
+
+// ダイジェストを送信する時刻（サーバー別設定がない場合、サーバーのタイムゾーンの時）
+export const DEFAULT_DIGEST_HOUR = 9;
+
+// Discord のメッセージの最大文字数（余裕を持たせる）
+const DIGEST_MAX_LENGTH = 1900;
+
+export class DigestService {
+  private env: Bindings;
+  private discordApiService: DiscordApiService;
+
+  constructor(env: Bindings) {
+    this.env = env;
+    this.discordApiService = new DiscordApiService(env.DISCORD_TOKEN);
+  }
+
+  /**
+   * ダイジェストの送信時刻になったサーバーに、前日のダイジェスト（月曜日は先週のダイジェストも）を送信
+   * Cron Trigger から1時間ごとに実行される
+   * @param now 定期実行の予定時刻
+   */
+  async sendScheduledDigests(
+    now: Date = new Date()
+  ): Promise<{ sent: number; failed: number }> {
+    const serverConfigService = new ServerConfigService(this.env);
+    const guildIds = await serverConfigService.listGuildIds();
+    let sent = 0;
+    let failed = 0;
+
+    for (const guildId of guildIds) {
+      try {
+        sent += await this.sendDigestsForGuild(guildId, now);
+      } catch (error) {
+        // 1サーバーの失敗で他のサーバーの処理を止めない
+        console.error(`Digest failed (guildId: ${guildId}):`, error);
+        failed++;
+      }
+    }
+
+    console.log(`Digest finished: sent=${sent}, failed=${failed}`);
+    return { sent, failed };
+  }
+
+  /**
+   * 指定サーバーのダイジェストを送信
+   * @returns 送信したメッセージの数
+   */
+  private async sendDigestsForGuild(guildId: string, now: Date): Promise<number> {
+    const serverConfigService = new ServerConfigService(this.env);
+    const config = await serverConfigService.getServerConfig(guildId);
+    if (!config?.digest_channel_id) return 0;
+
+    const { timeZone } = getTimeSettings(config);
+    const today = getZonedDateParts(now, timeZone);
+    if (today.hours !== (config.digest_hour ?? DEFAULT_DIGEST_HOUR)) return 0;
+
+    // 夏時間のある地域でも日付の区切りがずれないよう、年月日で計算してから変換する
+    const startOfDay = (daysAgo: number) =>
+      toStartOfDay(
+        new Date(today.year, today.month - 1, today.day - daysAgo),
+        timeZone
+      );
+    const todayStart = startOfDay(0);
+
+    // 通知はインタラクションのロケールが使えないため、サーバー別の言語設定に従う
+    const t = createTranslator(config.language || DEFAULT_LANGUAGE);
+    const store = createAttendanceStore(this.env, guildId, config);
+    const messages: string[] = [];
+
+    const yesterdayStart = startOfDay(1);
+    const daily = await store.getWorkRecords(yesterdayStart, todayStart);
+    if (!daily.success || !daily.records) {
+      throw new Error(daily.error);
+    }
+    if (daily.records.length > 0) {
+      messages.push(
+        this.buildDailyDigest(
+          daily.records,
+          formatDateTime(yesterdayStart, timeZone).slice(0, 10),
+          t
+        )
+      );
+    }
+
+    // 月曜日は先週（月曜日〜日曜日）のプロジェクト別の合計も送信する
+    const isMonday =
+      new Date(Date.UTC(today.year, today.month - 1, today.day)).getUTCDay() === 1;
+    if (isMonday && config.digest_weekly !== false) {
+      const lastWeekStart = startOfDay(7);
+      const weekly = await store.getWorkRecords(lastWeekStart, todayStart);
+      if (!weekly.success || !weekly.records) {
+        throw new Error(weekly.error);
+      }
+      if (weekly.records.length > 0) {
+        messages.push(
+          this.buildWeeklyDigest(
+            weekly.records,
+            `${formatDateTime(lastWeekStart, timeZone).slice(0, 10)} 〜 ${formatDateTime(
+              yesterdayStart,
+              timeZone
+            ).slice(0, 10)}`,
+            t
+          )
+        );
+      }
+    }
+
+    for (const message of messages) {
+      await this.postDigest(config, message);
+    }
+    return messages.length;
+  }
+
+  /**
+   * 前日のダイジェスト（メンバー別の労働時間と終了打刻忘れ）を作成
+   */
+  private buildDailyDigest(
+    records: WorkRecord[],
+    date: string,
+    t: Translator
+  ): string {
+    // ユーザー名は変わることがあるため、最後の記録の名前を使う
+    const usernames = new Map(records.map((r) => [r.userId, r.username]));
+    const memberLines = [...groupWorkMinutes(records, (r) => r.userId).entries()]
+      .sort((a, b) => b[1].minutes - a[1].minutes)
+      .map(([userId, total]) =>
+        t("digest.memberLine", {
+          name: usernames.get(userId) || userId,
+          duration: formatMinutes(total.minutes, t.language),
+          count: total.count,
+        })
+      );
+
+    // 終了していない勤務と、自動終了された勤務を終了打刻忘れとして扱う
+    const forgottenLines = records
+      .filter((r) => r.workMinutes === null || isAutoClosedTodo(r.todo))
+      .map((r) =>
+        t(
+          r.workMinutes === null
+            ? "digest.forgottenOpen"
+            : "digest.forgottenAutoClosed",
+          {
+            userId: r.userId,
+            project: r.projectName,
+            startTime: r.startTime.slice(11, 16),
+          }
+        )
+      );
+
+    const totalMinutes = records.reduce((sum, r) => sum + (r.workMinutes || 0), 0);
+    const header = t("digest.dailyHeader", { date });
+    const footer = t("digest.total", {
+      duration: formatMinutes(totalMinutes, t.language),
+      count: records.length,
+    });
+
+    const sections = [
+      `${t("digest.byMember")}\n${fitLines(
+        memberLines,
+        (DIGEST_MAX_LENGTH - header.length - footer.length) / 2,
+        t
+      )}`,
+    ];
+    if (forgottenLines.length > 0) {
+      sections.push(
+        `${t("digest.forgotten")}\n${fitLines(
+          forgottenLines,
+          (DIGEST_MAX_LENGTH - header.length - footer.length) / 2,
+          t
+        )}`
+      );
+    }
+
+    return `${header}\n\n${sections.join("\n\n")}\n\n${footer}`;
+  }
+
+  /**
+   * 先週のダイジェスト（プロジェクト別の合計）を作成
+   */
+  private buildWeeklyDigest(
+    records: WorkRecord[],
+    period: string,
+    t: Translator
+  ): string {
+    const projectLines = [
+      ...groupWorkMinutes(records, (r) => r.projectName).entries(),
+    ]
+      .sort((a, b) => b[1].minutes - a[1].minutes)
+      .map(([project, total]) =>
+        t("history.projectLine", {
+          project,
+          duration: formatMinutes(total.minutes, t.language),
+          count: total.count,
+        })
+      );
+
+    const totalMinutes = records.reduce((sum, r) => sum + (r.workMinutes || 0), 0);
+    const header = t("digest.weeklyHeader", { period });
+    const footer = t("digest.total", {
+      duration: formatMinutes(totalMinutes, t.language),
+      count: records.length,
+    });
+
+    return `${header}\n\n${t("history.byProject")}\n${fitLines(
+      projectLines,
+      DIGEST_MAX_LENGTH - header.length - footer.length,
+      t
+    )}\n\n${footer}`;
+  }
+
+  /**
+   * ダイジェストを設定されたチャンネルに投稿（メンションで通知はしない）
+   */
+  private async postDigest(config: ServerConfig, message: string): Promise<void> {
+    await this.discordApiService.createChannelMessage(
+      config.digest_channel_id!,
+      message,
+      undefined,
+      { parse: [] }
+    );
+  }
+}
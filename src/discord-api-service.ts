@@ -1,5 +1,14 @@
 import { Bindings } from "./types";
-import { APIChannel, ChannelType, MessageFlags } from "discord-api-types/v10";
+import {
+  APIActionRowComponent,
+  APIAllowedMentions,
+  APIChannel,
+  APIComponentInMessageActionRow,
+  APIEmbed,
+  APIGuild,
+  ChannelType,
+  MessageFlags,
+} from "discord-api-types/v10";
 
 export class DiscordApiService {
   private botToken: string;
@@ -39,6 +48,78 @@ export class DiscordApiService {
     }
   }
 
+  async getGuild(guildId: string): Promise<APIGuild | null> {
+    const response = await fetch(`${this.baseUrl}/guilds/${guildId}`, {
+      method: "GET",
+      headers: {
+        Authorization: `Bot ${this.botToken}`,
+        "Content-Type": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Discord API error: ${response.status}`);
+    }
+
+    return (await response.json()) as APIGuild;
+  }
+
+  /**
+   * ユーザーとのDMチャンネルを作成（既存の場合はそのチャンネルを返す）
+   */
+  async createDMChannel(userId: string): Promise<APIChannel> {
+    const response = await fetch(`${this.baseUrl}/users/@me/channels`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bot ${this.botToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ recipient_id: userId }),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Discord API error: ${response.status} - ${await response.text()}`
+      );
+    }
+
+    return (await response.json()) as APIChannel;
+  }
+
+  /**
+   * チャンネルにメッセージを送信（Botとして投稿）
+   * @param components ボタン等のコンポーネント（省略可）
+   * @param allowedMentions 通知するメンション（省略時は全て通知、{ parse: [] } で通知しない）
+   */
+  async createChannelMessage(
+    channelId: string,
+    content: string,
+    components?: APIActionRowComponent<APIComponentInMessageActionRow>[],
+    allowedMentions?: APIAllowedMentions
+  ): Promise<void> {
+    const response = await fetch(
+      `${this.baseUrl}/channels/${channelId}/messages`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bot ${this.botToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          content,
+          components,
+          allowed_mentions: allowedMentions,
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        `Discord API error: ${response.status} - ${await response.text()}`
+      );
+    }
+  }
+
   /**
    * チャンネルタイプを判定
    */
@@ -84,6 +165,47 @@ export class DiscordApiService {
     }
   }
 
+  /**
+   * 埋め込みと添付ファイル付きで応答を更新（multipart/form-data で送信）
+   */
+  async editDeferredResponseWithFiles(
+    applicationId: string,
+    token: string,
+    message: { content?: string; embeds?: APIEmbed[] },
+    files: Array<{ name: string; content: string; contentType: string }>
+  ): Promise<void> {
+    const editUrl = `${this.baseUrl}/webhooks/${applicationId}/${token}/messages/@original`;
+    const formData = new FormData();
+    formData.append(
+      "payload_json",
+      JSON.stringify({
+        ...message,
+        attachments: files.map((file, index) => ({
+          id: index,
+          filename: file.name,
+        })),
+      })
+    );
+    files.forEach((file, index) => {
+      formData.append(
+        `files[${index}]`,
+        new Blob([file.content], { type: file.contentType }),
+        file.name
+      );
+    });
+
+    const response = await fetch(editUrl, {
+      method: "PATCH",
+      body: formData,
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Discord API error: ${response.status} - ${await response.text()}`
+      );
+    }
+  }
+
   async createFollowupMessage(
     applicationId: string,
     token: string,
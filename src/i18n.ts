@@ -0,0 +1,79 @@
+import { APIInteraction } from "discord-api-types/v10";
+import { Language } from "./types";
+import { ja } from "./locales/ja";
+import { en } from "./locales/en";
+
+export type MessageKey = keyof typeof ja;
+export type MessageCatalog = Record<MessageKey, string>;
+export type MessageParams = Record<string, string | number>;
+
+// メッセージを取得する関数（どの言語で返すかを保持）
+export type Translator = ((key: MessageKey, params?: MessageParams) => string) & {
+  language: Language;
+};
+
+// 言語が判定できない場合の既定値
+export const DEFAULT_LANGUAGE: Language = "ja";
+
+// 言語ごとのメッセージカタログ（言語を追加する場合はここに登録）
+const CATALOGS: Record<Language, MessageCatalog> = { ja, en };
+
+export const SUPPORTED_LANGUAGES = Object.keys(CATALOGS) as Language[];
+
+export function isSupportedLanguage(value: string): value is Language {
+  return SUPPORTED_LANGUAGES.includes(value as Language);
+}
+
+/**
+ * Discord のロケール（例: ja, en-US）や Accept-Language の値を対応言語に変換
+ * @returns 対応していない場合は null
+ */
+export function toLanguage(locale?: string | null): Language | null {
+  if (!locale) return null;
+  const language = locale.trim().toLowerCase().split(/[-_]/)[0];
+  return isSupportedLanguage(language) ? language : null;
+}
+
+/**
+ * インタラクションの応答に使う言語を決定
+ * サーバー別の設定 → 実行ユーザーのロケール → サーバーのロケール → 既定値 の順に判定
+ */
+export function resolveLanguage(
+  interaction: APIInteraction,
+  override?: Language
+): Language {
+  return (
+    override ||
+    toLanguage("locale" in interaction ? interaction.locale : null) ||
+    toLanguage(interaction.guild_locale) ||
+    DEFAULT_LANGUAGE
+  );
+}
+
+/**
+ * Accept-Language ヘッダーから対応言語を判定（Webページ用）
+ */
+export function languageFromAcceptLanguage(header?: string | null): Language | null {
+  if (!header) return null;
+  for (const entry of header.split(",")) {
+    const language = toLanguage(entry.split(";")[0]);
+    if (language) return language;
+  }
+  return null;
+}
+
+/**
+ * 指定した言語のメッセージを取得する関数を作成
+ * メッセージ中の {name} はパラメータの値に置き換える
+ */
+export function createTranslator(language: Language): Translator {
+  const catalog = CATALOGS[language];
+  const translate = (key: MessageKey, params?: MessageParams): string => {
+    const message = catalog[key] ?? CATALOGS[DEFAULT_LANGUAGE][key];
+    if (!params) return message;
+    return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+      name in params ? String(params[name]) : match
+    );
+  };
+  return Object.assign(translate, { language });
+}
@@ -1,6 +1,22 @@
 import { Hono } from "hono";
 import { cors } from "hono/cors";
-import { Bindings, DiscordGuild, BotStats, DetailedBotStats } from "./types";
+import { secureHeaders, NONCE } from "hono/secure-headers";
+import {
+  Bindings,
+  DiscordGuild,
+  BotStats,
+  DetailedBotStats,
+  WorkRecord,
+  ServerSettings,
+  AutoClosePolicy,
+  Language,
+  ActiveWorkSession,
+  StorageBackend,
+  KintaiColumn,
+  ReportGrouping,
+  ChannelRules,
+  AttendanceErrorCode,
+} from "./types";
 
 // Discord API型定義 - 型安全性とIntelliSense向上のため使用
 import {
@@ -8,24 +24,142 @@ import {
   InteractionResponseType, // レスポンスタイプ（DeferredChannelMessage等）
   MessageFlags, // メッセージフラグ（Ephemeral等）
   APIInteraction, // インタラクションの型定義
+  APIApplicationCommandInteractionDataOption, // コマンドオプションの型定義
+  APIApplicationCommandOptionChoice, // オートコンプリートの候補
+  ApplicationCommandOptionType, // オプションタイプ（Subcommand等）
+  ComponentType, // コンポーネントタイプ（ActionRow等）
+  ButtonStyle, // ボタンのスタイル
+  APIButtonComponentWithCustomId, // ボタンコンポーネント
+  TextInputStyle, // テキスト入力のスタイル
+  APIEmbed, // 埋め込みの型定義
+  ChannelType, // チャンネルタイプ（スレッドの判定用）
 } from "discord-api-types/v10";
 import {
   verifyDiscordRequest,
+  getTimeSettings,
+  isValidTimeZone,
   isTimestampValid,
-  parseTimeStringToJST,
   isFutureTime,
-  formatDateToJST,
-  parseDateTimeFromJST,
+  formatDateTime,
+  parseDateTime,
   parseTimeStringWithDate,
   parseDateString,
+  isEndTimeBeforeStartTime,
+  formatMinutes,
+  toStartOfDay,
+  groupWorkMinutes,
+  fitLines,
+  deriveRecordId,
+  parseColumnLetter,
+  toColumnLetter,
+  parseSpreadsheetId,
+  toCsv,
+  isChannelAllowed,
 } from "./utils";
 import { DiscordApiService } from "./discord-api-service";
 import { OAuthService } from "./oauth-service";
+import {
+  consumeInteractionRateLimit,
+  consumeIpRateLimit,
+} from "./rate-limiter";
+import {
+  renderAuthErrorPage,
+  renderSetupCompletePage,
+  renderSetupErrorPage,
+  renderInvalidRequestPage,
+  renderInitGuidePage,
+} from "./pages";
 import { ServerConfigService } from "./server-config-service";
-import { SheetsService } from "./sheets-service";
+import {
+  SheetsService,
+  KINTAI_FIELDS,
+  KINTAI_HEADERS,
+  resolveColumnLayout,
+} from "./sheets-service";
+import { PermissionService } from "./permission-service";
+import {
+  Translator,
+  DEFAULT_LANGUAGE,
+  createTranslator,
+  resolveLanguage,
+  isSupportedLanguage,
+  toLanguage,
+  languageFromAcceptLanguage,
+} from "./i18n";
+import {
+  getAttendanceCoordinator,
+  resetAttendanceCoordinator,
+} from "./attendance-coordinator";
+import { createAttendanceStore, hasSpreadsheet } from "./attendance-store";
+import {
+  AutoCloseService,
+  DEFAULT_AUTO_CLOSE_MAX_HOURS,
+  DEFAULT_AUTO_CLOSE_POLICY,
+} from "./auto-close-service";
+import { DigestService, DEFAULT_DIGEST_HOUR } from "./digest-service";
+import { SummaryService, SUMMARY_CRON } from "./summary-service";
+import { KeyRotationService } from "./key-rotation-service";
 
 const app = new Hono<{ Bindings: Bindings }>();
 
+// 本人のみに表示するコマンド（Deferred Responseの時点でEPHEMERALにする）
+// 管理者コマンドは認証URL（state）や設定内容を含むため、チャンネルの他のメンバーに見せない
+const EPHEMERAL_COMMANDS = [
+  "history",
+  "edit",
+  "panel",
+  "init",
+  "reconnect",
+  "config",
+  "reset",
+  "channels",
+  "admin-role",
+  "auto-close",
+  "digest",
+  "timezone",
+  "language",
+  "columns",
+];
+
+// 勤怠パネルのボタン・モーダルの custom_id
+const PANEL_CUSTOM_IDS = {
+  start: "panel:start",
+  break: "panel:break",
+  resume: "panel:resume",
+  end: "panel:end",
+  endModal: "panel:end_modal",
+} as const;
+
+// UUID形式（勤務記録のID・認証セッションの state）
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// スレッドのチャンネルタイプ（カテゴリーは親チャンネルから判定する）
+const THREAD_CHANNEL_TYPES: ChannelType[] = [
+  ChannelType.PublicThread,
+  ChannelType.PrivateThread,
+  ChannelType.AnnouncementThread,
+];
+
+// Discord の ID（Snowflake）の形式
+const SNOWFLAKE_PATTERN = /^\d{17,20}$/;
+
+// セキュリティヘッダー - Webページ（OAuth のコールバック・設定ガイド）用
+// スクリプトは nonce を付けたページ内のものだけを許可する
+const pageSecureHeaders = secureHeaders({
+  contentSecurityPolicy: {
+    defaultSrc: ["'none'"],
+    scriptSrc: [NONCE],
+    styleSrc: ["'unsafe-inline'"],
+    connectSrc: ["'self'"],
+    baseUri: ["'none'"],
+    formAction: ["'none'"],
+    frameAncestors: ["'none'"],
+  },
+});
+app.use("/oauth/*", pageSecureHeaders);
+app.use("/init-guide", pageSecureHeaders);
+
 // CORS設定 - APIエンドポイント用
 app.use(
   "/api/*",
@@ -68,8 +202,35 @@ app.use(
   })
 );
 
+// 公開APIの回数制限 - IPアドレス単位（Discord のインタラクションは署名検証後にユーザー単位で制限する）
+app.use("/api/*", async (c, next) => {
+  if (c.req.path === "/api/interactions") {
+    return next();
+  }
+
+  const ip = c.req.header("CF-Connecting-IP") || "unknown";
+  const rateLimit = await consumeIpRateLimit(c.env, ip);
+  if (!rateLimit.allowed) {
+    console.warn(`API rate limited (ip: ${ip}, path: ${c.req.path})`);
+    c.header("Retry-After", String(rateLimit.retryAfterSeconds));
+    return c.json(
+      {
+        success: false,
+        error: getPageTranslator(c)("api.rateLimited", {
+          seconds: rateLimit.retryAfterSeconds,
+        }),
+      },
+      429
+    );
+  }
+
+  return next();
+});
+
 // Discord インタラクション処理
 app.post("/api/interactions", async (c) => {
+  // エラー応答の言語（インタラクションをパースできた時点で更新）
+  let language: Language = DEFAULT_LANGUAGE;
   try {
     console.log("Processing interaction...");
 
@@ -117,6 +278,7 @@ app.post("/api/interactions", async (c) => {
 
     // JSONをパース
     const body = JSON.parse(rawBody) as APIInteraction;
+    language = resolveLanguage(body);
     console.log("Interaction type:", body.type);
     console.log("Interaction data:", JSON.stringify(body.data, null, 2));
 
@@ -126,14 +288,90 @@ app.post("/api/interactions", async (c) => {
       return c.json({ type: InteractionResponseType.Pong });
     }
 
+    // オートコンプリートの処理（3秒以内に候補を返す必要があるため同期で処理）
+    if (body.type === InteractionType.ApplicationCommandAutocomplete) {
+      console.log("Handling APPLICATION_COMMAND_AUTOCOMPLETE");
+      const choices = await handleAutocomplete(c, body);
+      return c.json({
+        type: InteractionResponseType.ApplicationCommandAutocompleteResult,
+        data: { choices },
+      });
+    }
+
+    // 連打で Sheets API が大量に呼ばれないよう、サーバー・ユーザーごとに回数を制限する
+    const interactionUserId = body.user?.id || body.member?.user?.id;
+    if (interactionUserId) {
+      const rateLimit = await consumeInteractionRateLimit(
+        c.env,
+        body.guild_id,
+        interactionUserId
+      );
+      if (!rateLimit.allowed) {
+        console.warn(
+          `Interaction rate limited (guildId: ${body.guild_id}, userId: ${interactionUserId})`
+        );
+        return c.json({
+          type: InteractionResponseType.ChannelMessageWithSource,
+          data: {
+            content: createTranslator(language)("common.rateLimited", {
+              seconds: rateLimit.retryAfterSeconds,
+            }),
+            flags: MessageFlags.Ephemeral,
+          },
+        });
+      }
+    }
+
+    // ボタン（勤怠パネル）の処理
+    if (body.type === InteractionType.MessageComponent) {
+      // 退勤ボタンはやったことを入力するモーダルを表示
+      if (body.data.custom_id === PANEL_CUSTOM_IDS.end) {
+        console.log("Handling MESSAGE_COMPONENT with Modal");
+        return c.json(
+          buildPanelEndModalResponse(await getTranslator(c, body))
+        );
+      }
+
+      console.log("Handling MESSAGE_COMPONENT with Deferred Response");
+      c.executionCtx.waitUntil(handleComponentDeferred(c, body));
+      return c.json({
+        type: InteractionResponseType.DeferredChannelMessageWithSource,
+      });
+    }
+
+    // モーダル送信の処理
+    if (body.type === InteractionType.ModalSubmit) {
+      console.log("Handling MODAL_SUBMIT with Deferred Response");
+      c.executionCtx.waitUntil(handleModalSubmitDeferred(c, body));
+
+      // 退勤は /end と同様に全員に見える形で返す
+      const isPanelEnd = body.data.custom_id === PANEL_CUSTOM_IDS.endModal;
+      return c.json({
+        type: InteractionResponseType.DeferredChannelMessageWithSource,
+        ...(!isPanelEnd && { data: { flags: MessageFlags.Ephemeral } }),
+      });
+    }
+
     // アプリケーションコマンドの処理
     if (body.type === InteractionType.ApplicationCommand) {
+      // /edit で記録のみ指定された場合は修正内容を入力するモーダルを表示
+      const editModal = await buildEditModalResponse(c, body);
+      if (editModal) {
+        console.log("Handling APPLICATION_COMMAND with Modal");
+        return c.json(editModal);
+      }
+
       console.log("Handling APPLICATION_COMMAND with Deferred Response");
 
       // 即座にDeferred Responseを返す（通信環境対応）
       // 成功時は全員に見える、エラー時はEPHEMERALになるよう後で調整
+      // 個人の記録を表示するコマンド・管理者コマンドは最初からEPHEMERALにする
+      const commandName = "name" in body.data ? body.data.name : "";
       const deferredResponse = {
         type: InteractionResponseType.DeferredChannelMessageWithSource,
+        ...(EPHEMERAL_COMMANDS.includes(commandName) && {
+          data: { flags: MessageFlags.Ephemeral },
+        }),
       };
 
       // バックグラウンドで実際の処理を実行
@@ -143,11 +381,14 @@ app.post("/api/interactions", async (c) => {
     }
 
     // 未対応のインタラクションタイプ
-    console.log("Unsupported interaction type:", body.type);
+    console.log(
+      "Unsupported interaction type:",
+      (body as APIInteraction).type
+    );
     return c.json({
       type: InteractionResponseType.ChannelMessageWithSource,
       data: {
-        content: "❌ サポートされていないインタラクションタイプです。",
+        content: createTranslator(language)("common.unsupportedInteraction"),
         flags: 64, // EPHEMERAL
       },
     });
@@ -165,8 +406,7 @@ app.post("/api/interactions", async (c) => {
       {
         type: InteractionResponseType.ChannelMessageWithSource,
         data: {
-          content:
-            "❌ リクエストの処理中にエラーが発生しました。しばらく待ってから再試行してください。",
+          content: createTranslator(language)("common.requestFailed"),
           flags: 64, // EPHEMERAL
         },
       },
@@ -294,11 +534,11 @@ app.notFound((c) => {
 
 // グローバルエラーハンドリング
 app.onError((err, c) => {
+  // エラーの詳細はログにのみ出力し、レスポンスには含めない
   console.error("Unhandled error:", err);
   return c.json(
     {
       error: "Internal Server Error",
-      message: err.message,
     },
     500
   );
@@ -354,6 +594,7 @@ async function handleSlashCommandDeferred(
   }
 
   const discordApiService = new DiscordApiService(c.env.DISCORD_TOKEN);
+  const t = await getTranslator(c, interaction);
 
   if (!userId || !channelId) {
     await discordApiService.deleteOriginalResponse(
@@ -364,7 +605,7 @@ async function handleSlashCommandDeferred(
     await discordApiService.createFollowupMessage(
       c.env.DISCORD_APPLICATION_ID,
       token,
-      "❌ ユーザー情報またはチャンネル情報を取得できませんでした。",
+      t("common.userOrChannelMissing"),
       true // ephemeral
     );
     return;
@@ -393,7 +634,7 @@ async function handleSlashCommandDeferred(
           await discordApiService.createFollowupMessage(
             c.env.DISCORD_APPLICATION_ID,
             token,
-            "❌ `todo` パラメータは必須です。やったことを記録してください。\n\n例: `/end todo:コーディング`",
+            t("end.todoRequired"),
             true // ephemeral
           );
           return;
@@ -410,15 +651,80 @@ async function handleSlashCommandDeferred(
           3 // maxRetries
         );
         break;
+      case "break":
+      case "resume":
+        await handleBreakCommand(
+          c,
+          interaction,
+          discordApiService,
+          token,
+          commandName,
+          customTimeString
+        );
+        break;
+      case "who":
+        await handleWhoCommand(c, interaction, discordApiService, token);
+        break;
+      case "history":
+        await handleHistoryCommand(c, interaction, discordApiService, token);
+        break;
+      case "report":
+        await handleReportCommand(c, interaction, discordApiService, token);
+        break;
+      case "edit": {
+        const editOptions = getCommandOptions(interaction);
+        await applyRecordEdit(
+          c,
+          interaction,
+          discordApiService,
+          token,
+          String(editOptions.record || ""),
+          {
+            startTime: editOptions.start_time as string | undefined,
+            startDay: editOptions.start_day as string | undefined,
+            endTime: editOptions.end_time as string | undefined,
+            endDay: editOptions.end_day as string | undefined,
+            todo: editOptions.todo as string | undefined,
+          }
+        );
+        break;
+      }
       case "init":
         await handleSetupCommand(c, interaction, discordApiService, token);
         break;
+      case "reconnect":
+        await handleReconnectCommand(c, interaction, discordApiService, token);
+        break;
       case "config":
         await handleStatusCommand(c, interaction, discordApiService, token);
         break;
       case "reset":
         await handleResetCommand(c, interaction, discordApiService, token);
         break;
+      case "channels":
+        await handleChannelsCommand(c, interaction, discordApiService, token);
+        break;
+      case "admin-role":
+        await handleAdminRoleCommand(c, interaction, discordApiService, token);
+        break;
+      case "auto-close":
+        await handleAutoCloseCommand(c, interaction, discordApiService, token);
+        break;
+      case "digest":
+        await handleDigestCommand(c, interaction, discordApiService, token);
+        break;
+      case "panel":
+        await handlePanelCommand(c, interaction, discordApiService, token);
+        break;
+      case "timezone":
+        await handleTimezoneCommand(c, interaction, discordApiService, token);
+        break;
+      case "language":
+        await handleLanguageCommand(c, interaction, discordApiService, token);
+        break;
+      case "columns":
+        await handleColumnsCommand(c, interaction, discordApiService, token);
+        break;
       default:
         await discordApiService.deleteOriginalResponse(
           c.env.DISCORD_APPLICATION_ID,
@@ -428,7 +734,7 @@ async function handleSlashCommandDeferred(
         await discordApiService.createFollowupMessage(
           c.env.DISCORD_APPLICATION_ID,
           token,
-          "❌ 不明なコマンドです。",
+          t("common.unknownCommand"),
           true // ephemeral
         );
     }
@@ -458,13 +764,13 @@ async function handleSlashCommandDeferred(
     const truncatedErrorMessage =
       errorMessage.length > maxErrorLength
         ? errorMessage.substring(0, maxErrorLength) +
-          "\n\n... (エラーメッセージが長すぎるため省略されました)"
+          t("common.errorTruncated")
         : errorMessage;
 
     await discordApiService.createFollowupMessage(
       c.env.DISCORD_APPLICATION_ID,
       token,
-      `❌ 処理中にエラーが発生しました\n\n**エラー詳細**:\n\`\`\`\n${truncatedErrorMessage}\n\`\`\`\n\nしばらく待ってから再試行してください。\n問題が続く場合は管理者にお問い合わせください。`,
+      t("common.commandFailed", { error: truncatedErrorMessage }),
       true // ephemeral
     );
   }
@@ -494,18 +800,37 @@ async function handleStartCommandWithRetry(
   let channelName: string | null = null;
   let apiError: string | null = null;
 
+  // サーバーのタイムゾーン（時刻の解釈・表示とシート選択に使用）
+  const timeSettings = await new ServerConfigService(c.env).getTimeSettings(
+    guildId
+  );
+  const { timeZone } = timeSettings;
+  const t = await getTranslator(c, interaction);
+
+  // サーバーのチャンネルの制限で打刻できない場所では記録しない
+  if (
+    !(await ensurePunchChannelAllowed(c, interaction, discordApiService, token))
+  ) {
+    return;
+  }
+
+  // 再試行しても同じ行に書き込むよう、記録IDと打刻時刻はインタラクション単位で固定
+  const recordId = await deriveRecordId(interaction.id);
+  const requestedAt = new Date();
+
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
       console.log(`Start command attempt ${attempt}/${maxRetries}`);
 
-      // 時刻・日付処理（統一されたJST処理）
+      // 時刻・日付処理（サーバーのタイムゾーン基準）
       let startTime: Date;
       let timeMessage = "";
 
       // 新しい統一された日時パース関数を使用
       const parsedDateTime = parseTimeStringWithDate(
         customTimeString,
-        customDateString
+        customDateString,
+        timeZone
       );
 
       if (customTimeString || customDateString) {
@@ -515,22 +840,16 @@ async function handleStartCommandWithRetry(
             token
           );
 
-          let errorMessage = "❌ 日時形式が正しくありません。\n";
+          let errorMessage = t("datetime.invalid");
           if (customTimeString) {
-            errorMessage +=
-              "**時刻の使用可能な形式:**\n" +
-              "• `09:00` (HH:MM形式)\n" +
-              "• `0900` (HHMM形式)\n" +
-              "• `900` (HMM形式)\n";
+            errorMessage += t("datetime.timeFormats", {
+              hhmm: "09:00",
+              compact: "0900",
+              short: "900",
+            });
           }
           if (customDateString) {
-            errorMessage +=
-              "**日付の使用可能な形式:**\n" +
-              "• `2023-03-15` (YYYY-MM-DD形式)\n" +
-              "• `20230315` (YYYYMMDD形式)\n" +
-              "• `today` (今日)\n" +
-              "• `yesterday` (昨日)\n" +
-              "• `0` (今日), `-1` (昨日), `1` (明日) など";
+            errorMessage += t("datetime.dateFormats");
           }
 
           await discordApiService.createFollowupMessage(
@@ -552,21 +871,20 @@ async function handleStartCommandWithRetry(
           await discordApiService.createFollowupMessage(
             c.env.DISCORD_APPLICATION_ID,
             token,
-            "❌ 現在時刻より未来の時刻は指定できません。\n" +
-              `指定時刻: ${formatDateToJST(parsedDateTime)}\n` +
-              `現在時刻: ${formatDateToJST(new Date())}`,
+            t("datetime.future", {
+              specified: formatDateTime(parsedDateTime, timeZone),
+              now: formatDateTime(new Date(), timeZone),
+            }),
             true // ephemeral
           );
           return;
         }
 
         startTime = parsedDateTime;
-        const dateStr = customDateString
-          ? formatDateToJST(startTime, true)
-          : formatDateToJST(startTime);
-        timeMessage = ` (開始時刻: ${dateStr})`;
+        const dateStr = formatDateTime(startTime, timeZone);
+        timeMessage = t("start.timeNote", { time: dateStr });
       } else {
-        startTime = new Date();
+        startTime = requestedAt;
       }
 
       // チャンネル名取得（詳細情報付き）
@@ -624,7 +942,7 @@ async function handleStartCommandWithRetry(
         await discordApiService.createFollowupMessage(
           c.env.DISCORD_APPLICATION_ID,
           token,
-          "❌ このコマンドはサーバー内でのみ使用できます。",
+          t("common.guildOnly"),
           true // ephemeral
         );
         return;
@@ -642,7 +960,7 @@ async function handleStartCommandWithRetry(
         await discordApiService.createFollowupMessage(
           c.env.DISCORD_APPLICATION_ID,
           token,
-          "❌ サーバーが設定されていません。\n管理者に `/init` コマンドの実行を依頼してください。",
+          t("common.serverNotConfigured"),
           true // ephemeral
         );
         return;
@@ -661,38 +979,27 @@ async function handleStartCommandWithRetry(
         await discordApiService.createFollowupMessage(
           c.env.DISCORD_APPLICATION_ID,
           token,
-          "❌ サーバー設定が見つかりません。管理者に `/init` コマンドの実行を依頼してください。",
+          t("common.serverConfigNotFound"),
           true // ephemeral
         );
         return;
       }
 
-      // スプレッドシートで重複チェック（KVの代わり）
-      const sheetsService = new SheetsService(c.env);
-      const activeSessionCheck = await sheetsService.checkActiveWorkSession(
-        serverConfig.access_token,
-        serverConfig.spreadsheet_id,
+      // 重複チェックと勤務開始記録はサーバー単位で直列化する（連続した打刻で二重に記録しないため）
+      // 前回の試行で記録済みの場合は、重複とみなさず成功として扱われる
+      const startResult = await getAttendanceCoordinator(
+        c.env,
+        guildId
+      ).startSession(guildId, {
+        recordId,
         userId,
+        username,
+        projectName: displayChannelName,
         channelId,
-        guildId
-      );
-
-      if (activeSessionCheck.error) {
-        await discordApiService.deleteOriginalResponse(
-          c.env.DISCORD_APPLICATION_ID,
-          token
-        );
-
-        await discordApiService.createFollowupMessage(
-          c.env.DISCORD_APPLICATION_ID,
-          token,
-          `❌ 勤務状態の確認に失敗しました\n\n**エラー**: ${activeSessionCheck.error}`,
-          true // ephemeral
-        );
-        return;
-      }
+        startTime,
+      });
 
-      if (activeSessionCheck.hasActiveSession) {
+      if (startResult.activeSession) {
         await discordApiService.deleteOriginalResponse(
           c.env.DISCORD_APPLICATION_ID,
           token
@@ -701,39 +1008,40 @@ async function handleStartCommandWithRetry(
         await discordApiService.createFollowupMessage(
           c.env.DISCORD_APPLICATION_ID,
           token,
-          `❌ 既に勤務を開始しています\n\n**開始時刻**: ${activeSessionCheck.startTime}\n\n先に \`/end\` コマンドで終了してください。`,
+          t("start.alreadyStarted", {
+            startTime: startResult.activeSession.startTime,
+          }),
           true // ephemeral
         );
         return;
       }
 
-      // Sheets API で勤務開始記録
-      const startResult = await sheetsService.recordStartTime(
-        serverConfig.access_token,
-        serverConfig.spreadsheet_id,
-        userId,
-        username,
-        displayChannelName,
-        channelId,
-        startTime,
-        guildId
-      );
-
       if (startResult.success) {
         // 成功時はシンプルなメッセージ（プロジェクト名と開始時刻のみ）
         await discordApiService.editDeferredResponse(
           c.env.DISCORD_APPLICATION_ID,
           token,
-          `✅ 勤務を開始しました！${timeMessage}\n\n📍 **プロジェクト**: ${displayChannelName}\n⏰ **開始時刻**: ${startTime.toLocaleString(
-            "ja-JP",
-            { timeZone: "Asia/Tokyo" }
-          )}`
+          t("start.success", {
+            timeNote: timeMessage,
+            project: displayChannelName,
+            startTime: startTime.toLocaleString(
+              timeSettings.locale.replace("_", "-"),
+              { timeZone }
+            ),
+          }) + (startResult.queued ? t("common.queuedNote") : "")
         );
         return;
-      } else {
-        throw new Error(
-          startResult.error || "スプレッドシートへの記録に失敗しました"
+      } else if (startResult.errorCode) {
+        // 再試行しても結果が変わらない失敗は、理由だけを伝える
+        await sendEphemeralError(
+          c,
+          discordApiService,
+          token,
+          describeAttendanceError(t, startResult) || t("common.recordFailed")
         );
+        return;
+      } else {
+        throw new Error(startResult.error || t("common.recordFailed"));
       }
     } catch (error) {
       console.error(`Start command attempt ${attempt} failed:`, error);
@@ -758,20 +1066,23 @@ async function handleStartCommandWithRetry(
 
         if (!isApiSuccess && apiError) {
           if (apiError.includes("アクセス権限不足")) {
-            apiStatusInfo = `\n\n🔗 **Discord API**: ❌ 権限不足\n⚠️ **解決方法**: Botをサーバーに招待し、チャンネル閲覧権限を付与してください`;
+            apiStatusInfo = t("discordApi.forbidden");
           } else if (apiError.includes("Bot認証エラー")) {
-            apiStatusInfo = `\n\n🔗 **Discord API**: ❌ 認証エラー\n⚠️ **解決方法**: Bot Tokenを確認してください`;
+            apiStatusInfo = t("discordApi.unauthorized");
           } else {
-            apiStatusInfo = `\n\n🔗 **Discord API**: ❌ エラー (${apiError})`;
+            apiStatusInfo = t("discordApi.error", { error: apiError });
           }
         }
 
-        const debugInfo = `\n🔍 **詳細**: チャンネルID: \`${channelId}\``;
+        const debugInfo = t("common.channelIdDetail", { channelId });
 
         await discordApiService.createFollowupMessage(
           c.env.DISCORD_APPLICATION_ID,
           token,
-          `❌ 勤務開始の処理に失敗しました\n\n**エラー詳細**: ${errorMessage}${apiStatusInfo}${debugInfo}\n\nネットワークの状況を確認して、再度お試しください。\n問題が続く場合は管理者にお問い合わせください。`,
+          t("start.failed", {
+            error: errorMessage,
+            details: `${apiStatusInfo}${debugInfo}`,
+          }),
           true // ephemeral
         );
       } else {
@@ -804,20 +1115,41 @@ async function handleEndCommandWithRetry(
     "Unknown";
 
   // エラー時の詳細表示用
-  let activeWorkRecord: any = null;
+  let activeWorkRecord: ActiveWorkSession | undefined;
+
+  // 前回の試行で終了処理に着手した記録ID（再試行時はこの記録の終了を完了させる）
+  let pendingRecordId: string | null = null;
+
+  // サーバーのタイムゾーン（時刻の解釈・表示とシート選択に使用）
+  const timeSettings = await new ServerConfigService(c.env).getTimeSettings(
+    guildId
+  );
+  const { timeZone } = timeSettings;
+  const t = await getTranslator(c, interaction);
+
+  // サーバーのチャンネルの制限で打刻できない場所では記録しない
+  if (
+    !(await ensurePunchChannelAllowed(c, interaction, discordApiService, token))
+  ) {
+    return;
+  }
+
+  // 再試行しても同じ終了時刻を書き込むよう、打刻時刻はインタラクション単位で固定
+  const requestedAt = new Date();
 
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
       console.log(`End command attempt ${attempt}/${maxRetries}`);
 
-      // 時刻・日付処理（統一されたJST処理）
+      // 時刻・日付処理（サーバーのタイムゾーン基準）
       let endTime: Date;
       let timeMessage = "";
 
       // 新しい統一された日時パース関数を使用
       const parsedDateTime = parseTimeStringWithDate(
         customTimeString,
-        customDateString
+        customDateString,
+        timeZone
       );
 
       if (customTimeString || customDateString) {
@@ -827,22 +1159,16 @@ async function handleEndCommandWithRetry(
             token
           );
 
-          let errorMessage = "❌ 日時形式が正しくありません。\n";
+          let errorMessage = t("datetime.invalid");
           if (customTimeString) {
-            errorMessage +=
-              "**時刻の使用可能な形式:**\n" +
-              "• `18:00` (HH:MM形式)\n" +
-              "• `1800` (HHMM形式)\n" +
-              "• `600` (HMM形式)\n";
+            errorMessage += t("datetime.timeFormats", {
+              hhmm: "18:00",
+              compact: "1800",
+              short: "600",
+            });
           }
           if (customDateString) {
-            errorMessage +=
-              "**日付の使用可能な形式:**\n" +
-              "• `2023-03-15` (YYYY-MM-DD形式)\n" +
-              "• `20230315` (YYYYMMDD形式)\n" +
-              "• `today` (今日)\n" +
-              "• `yesterday` (昨日)\n" +
-              "• `0` (今日), `-1` (昨日), `1` (明日) など";
+            errorMessage += t("datetime.dateFormats");
           }
 
           await discordApiService.createFollowupMessage(
@@ -855,12 +1181,10 @@ async function handleEndCommandWithRetry(
         }
 
         endTime = parsedDateTime;
-        const dateStr = customDateString
-          ? formatDateToJST(endTime, true)
-          : formatDateToJST(endTime);
-        timeMessage = ` (終了時刻: ${dateStr})`;
+        const dateStr = formatDateTime(endTime, timeZone);
+        timeMessage = t("end.timeNote", { time: dateStr });
       } else {
-        endTime = new Date();
+        endTime = requestedAt;
       }
 
       // サーバー設定確認
@@ -876,7 +1200,7 @@ async function handleEndCommandWithRetry(
         await discordApiService.createFollowupMessage(
           c.env.DISCORD_APPLICATION_ID,
           token,
-          "❌ このコマンドはサーバー内でのみ使用できます。",
+          t("common.guildOnly"),
           true // ephemeral
         );
         return;
@@ -894,38 +1218,43 @@ async function handleEndCommandWithRetry(
         await discordApiService.createFollowupMessage(
           c.env.DISCORD_APPLICATION_ID,
           token,
-          "❌ サーバー設定が見つかりません。管理者に `/init` コマンドの実行を依頼してください。",
+          t("common.serverConfigNotFound"),
           true // ephemeral
         );
         return;
       }
 
-      // スプレッドシートで勤務記録をチェック（KVの代わり）
-      const sheetsService = new SheetsService(c.env);
-      activeWorkRecord = await sheetsService.getActiveWorkRecord(
-        serverConfig.access_token,
-        serverConfig.spreadsheet_id,
-        userId,
-        channelId,
-        guildId
-      );
-
-      if (activeWorkRecord.error) {
-        await discordApiService.deleteOriginalResponse(
-          c.env.DISCORD_APPLICATION_ID,
-          token
+      // 勤務中セッションの索引で勤務記録をチェック
+      // 再試行時は前回の試行で特定した記録を使う（終了時刻の書き込み後に失敗していると、
+      // 勤務中の記録として見つからず「未開始」と誤判定されるため）
+      const coordinator = getAttendanceCoordinator(c.env, guildId);
+      const resuming = pendingRecordId !== null;
+      if (!resuming) {
+        const lookup = await coordinator.getActiveSession(
+          guildId,
+          userId,
+          channelId
         );
 
-        await discordApiService.createFollowupMessage(
-          c.env.DISCORD_APPLICATION_ID,
-          token,
-          `❌ 勤務記録の確認に失敗しました\n\n**エラー**: ${activeWorkRecord.error}`,
-          true // ephemeral
-        );
-        return;
+        if (lookup.error || lookup.errorCode) {
+          await discordApiService.deleteOriginalResponse(
+            c.env.DISCORD_APPLICATION_ID,
+            token
+          );
+
+          await discordApiService.createFollowupMessage(
+            c.env.DISCORD_APPLICATION_ID,
+            token,
+            describeAttendanceError(t, lookup) ||
+              t("common.recordCheckFailed", { error: lookup.error || "" }),
+            true // ephemeral
+          );
+          return;
+        }
+        activeWorkRecord = lookup.session;
       }
 
-      if (!activeWorkRecord.found || !activeWorkRecord.recordId) {
+      if (!activeWorkRecord) {
         await discordApiService.deleteOriginalResponse(
           c.env.DISCORD_APPLICATION_ID,
           token
@@ -934,7 +1263,7 @@ async function handleEndCommandWithRetry(
         await discordApiService.createFollowupMessage(
           c.env.DISCORD_APPLICATION_ID,
           token,
-          "❌ まだ勤務を開始していません\n\n先に `/start` コマンドで開始してください。",
+          t("common.notStarted"),
           true // ephemeral
         );
         return;
@@ -943,8 +1272,8 @@ async function handleEndCommandWithRetry(
       // 終了時刻が開始時刻より前でないかチェック
       if (activeWorkRecord.startTime) {
         // スプレッドシートから取得した日時文字列を適切にパース
-        // formatDateTimeToJSTで保存されているため、日本時間として解釈する必要がある
-        const startTime = parseDateTimeFromJST(activeWorkRecord.startTime);
+        // サーバーのタイムゾーンで保存されているため、同じタイムゾーンとして解釈する必要がある
+        const startTime = parseDateTime(activeWorkRecord.startTime, timeZone);
         if (!startTime) {
           await discordApiService.deleteOriginalResponse(
             c.env.DISCORD_APPLICATION_ID,
@@ -954,7 +1283,7 @@ async function handleEndCommandWithRetry(
           await discordApiService.createFollowupMessage(
             c.env.DISCORD_APPLICATION_ID,
             token,
-            "❌ 開始時刻の解析に失敗しました。管理者にお問い合わせください。",
+            t("datetime.startParseFailed"),
             true // ephemeral
           );
           return;
@@ -969,54 +1298,75 @@ async function handleEndCommandWithRetry(
           await discordApiService.createFollowupMessage(
             c.env.DISCORD_APPLICATION_ID,
             token,
-            "❌ 終了時刻が開始時刻より前になっています。\n" +
-              `開始時刻: ${formatDateToJST(startTime)}\n` +
-              `終了時刻: ${formatDateToJST(endTime)}\n` +
-              "正しい終了時刻を指定してください。",
+            t("datetime.endBeforeStart", {
+              start: formatDateTime(startTime, timeZone),
+              end: formatDateTime(endTime, timeZone),
+            }),
             true // ephemeral
           );
           return;
         }
       }
 
-      // Google Sheets API直接書き込み方式での勤務終了処理
-      const endResult = await sheetsService.recordEndTime(
-        serverConfig.access_token,
-        serverConfig.spreadsheet_id,
+      // Google Sheets API直接書き込み方式での勤務終了処理（サーバー単位で直列化）
+      pendingRecordId = activeWorkRecord.recordId;
+      const endResult = await coordinator.endSession(guildId, {
+        recordId: activeWorkRecord.recordId,
         userId,
         endTime,
-        activeWorkRecord.recordId,
-        todoString, // TODOを渡す
-        guildId
-      );
+        todo: todoString, // TODOを渡す
+        resume: resuming,
+      });
 
       if (endResult.success) {
-        // 労働時間計算
-        let workDuration = endResult.workHours || "計算中...";
+        // 労働時間計算（休憩時間を差し引く）
+        let workDuration = endResult.workHours || t("end.calculating");
+        const breakMinutes = endResult.breakMinutes || 0;
 
         if (activeWorkRecord.startTime) {
-          const startTime = new Date(activeWorkRecord.startTime);
-          const duration = endTime.getTime() - startTime.getTime();
-          const hours = Math.floor(duration / (1000 * 60 * 60));
-          const minutes = Math.floor(
-            (duration % (1000 * 60 * 60)) / (1000 * 60)
-          );
-          workDuration = endResult.workHours || `${hours}時間${minutes}分`;
+          const startTime = parseDateTime(activeWorkRecord.startTime, timeZone);
+          if (startTime) {
+            const duration =
+              endTime.getTime() -
+              startTime.getTime() -
+              breakMinutes * 60 * 1000;
+            workDuration =
+              endResult.workHours ||
+              formatMinutes(Math.floor(duration / (1000 * 60)), t.language);
+          }
         }
 
+        const breakInfo =
+          breakMinutes > 0
+            ? t("end.breakInfo", {
+                duration: formatMinutes(breakMinutes, t.language),
+              })
+            : "";
+
         // 成功メッセージにTODOを含める（必須なので常に表示）
         await discordApiService.editDeferredResponse(
           c.env.DISCORD_APPLICATION_ID,
           token,
-          `✅ 勤務を終了しました！お疲れ様でした！${timeMessage}\n\n📍 **プロジェクト**: ${
-            activeWorkRecord.projectName || "不明"
-          }\n⏰ **労働時間**: ${workDuration}\n📝 **やったこと**: ${todoString}`
+          t("end.success", {
+            timeNote: timeMessage,
+            project: activeWorkRecord.projectName || t("common.unknown"),
+            duration: workDuration,
+            breakInfo,
+            todo: todoString,
+          }) + (endResult.queued ? t("common.queuedNote") : "")
         );
         return;
-      } else {
-        throw new Error(
-          endResult.error || "スプレッドシートへの記録に失敗しました"
+      } else if (endResult.errorCode) {
+        // 再試行しても結果が変わらない失敗は、理由だけを伝える
+        await sendEphemeralError(
+          c,
+          discordApiService,
+          token,
+          describeAttendanceError(t, endResult) || t("common.recordFailed")
         );
+        return;
+      } else {
+        throw new Error(endResult.error || t("common.recordFailed"));
       }
     } catch (error) {
       console.error(`End command attempt ${attempt} failed:`, error);
@@ -1035,15 +1385,18 @@ async function handleEndCommandWithRetry(
           token
         );
 
-        const debugInfo = `\n🔍 **詳細**: チャンネルID: \`${channelId}\``;
+        const debugInfo = t("common.channelIdDetail", { channelId });
         const recordInfo = activeWorkRecord?.recordId
-          ? `\n📝 **記録ID**: \`${activeWorkRecord.recordId}\``
+          ? t("end.recordIdDetail", { recordId: activeWorkRecord.recordId })
           : "";
 
         await discordApiService.createFollowupMessage(
           c.env.DISCORD_APPLICATION_ID,
           token,
-          `❌ 勤務終了の処理に失敗しました\n\n**エラー詳細**: ${errorMessage}${recordInfo}${debugInfo}\n\nネットワークの状況を確認して、再度お試しください。\n問題が続く場合は管理者にお問い合わせください。`,
+          t("end.failed", {
+            error: errorMessage,
+            details: `${recordInfo}${debugInfo}`,
+          }),
           true // ephemeral
         );
       } else {
@@ -1054,799 +1407,2932 @@ async function handleEndCommandWithRetry(
   }
 }
 
-// OAuth コールバック処理
-app.get("/oauth/callback", async (c) => {
-  try {
-    const url = new URL(c.req.url);
-    const code = url.searchParams.get("code");
-    const state = url.searchParams.get("state");
-    const error = url.searchParams.get("error");
+/**
+ * break / resume コマンドの処理
+ * 進行中の勤務記録に休憩の開始・終了を記録する
+ */
+async function handleBreakCommand(
+  c: any,
+  interaction: APIInteraction,
+  discordApiService: DiscordApiService,
+  token: string,
+  action: "break" | "resume",
+  customTimeString?: string
+): Promise<void> {
+  const userId = interaction.member?.user?.id || interaction.user?.id!;
+  const channelId = interaction.channel_id!;
+  const guildId = interaction.guild_id;
+  const t = await getTranslator(c, interaction);
 
-    // エラーハンドリング
-    if (error) {
-      console.error("OAuth error:", error);
-      return c.html(`
-        <html>
-          <head>
-            <title>認証エラー</title>
-            <meta charset="UTF-8">
-            <meta name="viewport" content="width=device-width, initial-scale=1.0">
-            <style>
-              body { font-family: Arial, sans-serif; text-align: center; padding: 20px; }
-              .container { max-width: 500px; margin: 0 auto; }
-              .error { color: #dc3545; }
-            </style>
-          </head>
-          <body>
-            <div class="container">
-              <h1 class="error">❌ 認証がキャンセルされました</h1>
-              <p>Discord に戻って再度 /init コマンドを実行してください。</p>
-            </div>
-          </body>
-        </html>
-      `);
+  if (!guildId) {
+    await sendEphemeralError(
+      c,
+      discordApiService,
+      token,
+      t("common.guildOnly")
+    );
+    return;
+  }
+
+  // サーバーのチャンネルの制限で打刻できない場所では記録しない（パネルのボタンも同じ）
+  if (
+    !(await ensurePunchChannelAllowed(c, interaction, discordApiService, token))
+  ) {
+    return;
+  }
+
+  // サーバーのタイムゾーン（時刻の解釈・表示とシート選択に使用）
+  const timeSettings = await new ServerConfigService(c.env).getTimeSettings(
+    guildId
+  );
+  const { timeZone } = timeSettings;
+
+  // 時刻処理（未指定の場合は現在時刻）
+  let actionTime = new Date();
+  if (customTimeString) {
+    const parsedDateTime = parseTimeStringWithDate(
+      customTimeString,
+      undefined,
+      timeZone
+    );
+    if (!parsedDateTime) {
+      await sendEphemeralError(
+        c,
+        discordApiService,
+        token,
+        t("datetime.invalidTime") +
+          t("datetime.timeFormats", {
+            hhmm: "12:00",
+            compact: "1200",
+            short: "900",
+          })
+      );
+      return;
     }
 
-    if (!code || !state) {
-      return c.html(`
-        <html>
-          <head>
-            <title>認証エラー</title>
-            <meta charset="UTF-8">
-            <meta name="viewport" content="width=device-width, initial-scale=1.0">
-            <style>
-              body { font-family: Arial, sans-serif; text-align: center; padding: 20px; }
-              .container { max-width: 500px; margin: 0 auto; }
-              .error { color: #dc3545; }
-            </style>
-          </head>
-          <body>
-            <div class="container">
-              <h1 class="error">❌ 認証パラメータが不正です</h1>
-              <p>Discord に戻って再度 /init コマンドを実行してください。</p>
-            </div>
-          </body>
-        </html>
-      `);
+    if (isFutureTime(parsedDateTime)) {
+      await sendEphemeralError(
+        c,
+        discordApiService,
+        token,
+        t("datetime.future", {
+          specified: formatDateTime(parsedDateTime, timeZone),
+          now: formatDateTime(new Date(), timeZone),
+        })
+      );
+      return;
     }
+    actionTime = parsedDateTime;
+  }
 
-    // OAuth処理（新しいhandleCallbackメソッドを使用）
-    const oauthService = new OAuthService(c.env);
-    const result = await oauthService.handleCallback(code, state);
+  const serverConfigService = new ServerConfigService(c.env);
+  const serverConfig = await serverConfigService.getServerConfig(guildId);
+  if (!serverConfig) {
+    await sendEphemeralError(
+      c,
+      discordApiService,
+      token,
+      t("common.serverConfigNotFound")
+    );
+    return;
+  }
 
-    if (result.success) {
-      return c.html(`
-        <html>
-          <head>
-            <title>設定完了</title>
-            <meta charset="UTF-8">
-            <meta name="viewport" content="width=device-width, initial-scale=1.0">
-            <style>
-              body { font-family: Arial, sans-serif; text-align: center; padding: 20px; }
-              .container { max-width: 500px; margin: 0 auto; }
-              .success { color: #28a745; }
-            </style>
-          </head>
-          <body>
-            <div class="container">
-              <h1 class="success">✅ 設定完了！</h1>
-              <p>勤怠管理システムの設定が完了しました。</p>
-              <p><a href="${result.spreadsheetUrl}" target="_blank">📊 スプレッドシートを開く</a></p>
-              <p>Discord に戻って <code>/config</code> コマンドで設定を確認できます。</p>
-              <script>
-                setTimeout(() => {
-                  window.close();
-                }, 5000);
-              </script>
-            </div>
-          </body>
-        </html>
-      `);
-    } else {
-      return c.html(`
-        <html>
-          <head>
-            <title>設定エラー</title>
-            <meta charset="UTF-8">
-            <meta name="viewport" content="width=device-width, initial-scale=1.0">
-            <style>
-              body { font-family: Arial, sans-serif; text-align: center; padding: 20px; }
-              .container { max-width: 500px; margin: 0 auto; }
-              .error { color: #dc3545; }
-            </style>
-          </head>
-          <body>
-            <div class="container">
-              <h1 class="error">❌ 設定エラー</h1>
-              <p><strong>エラー内容:</strong></p>
-              <div style="background: #f8f9fa; padding: 15px; border-left: 4px solid #dc3545; margin: 10px 0; text-align: left;">
-                ${result.error || "不明なエラーが発生しました"}
-              </div>
-              <p>Discord に戻って再度 /init コマンドを実行してください。</p>
-              <p>問題が続く場合は、管理者にお問い合わせください。</p>
-            </div>
-          </body>
-        </html>
-      `);
-    }
-  } catch (error) {
-    console.error("OAuth callback error:", error);
+  const coordinator = getAttendanceCoordinator(c.env, guildId);
+  const lookup = await coordinator.getActiveSession(guildId, userId, channelId);
 
-    const errorMessage =
-      error instanceof Error
-        ? error.message
-        : typeof error === "object"
-        ? JSON.stringify(error, null, 2)
-        : String(error);
+  if (lookup.error || lookup.errorCode) {
+    await sendEphemeralError(
+      c,
+      discordApiService,
+      token,
+      describeAttendanceError(t, lookup) ||
+        t("common.recordCheckFailed", { error: lookup.error || "" })
+    );
+    return;
+  }
+
+  const activeWorkRecord = lookup.session;
+  if (!activeWorkRecord) {
+    await sendEphemeralError(
+      c,
+      discordApiService,
+      token,
+      t("common.notStarted")
+    );
+    return;
+  }
 
-    const errorStack =
-      error instanceof Error ? error.stack : "スタックトレースなし";
-
-    return c.html(`
-      <html>
-        <head>
-          <title>設定エラー</title>
-          <meta charset="UTF-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <style>
-            body { font-family: Arial, sans-serif; text-align: center; padding: 20px; }
-            .container { max-width: 600px; margin: 0 auto; }
-            .error { color: #dc3545; }
-            .error-details { 
-              background: #f8f9fa; 
-              padding: 15px; 
-              border-left: 4px solid #dc3545; 
-              margin: 15px 0; 
-              text-align: left; 
-              font-family: monospace; 
-              white-space: pre-wrap; 
-              word-break: break-word;
-              max-height: 300px;
-              overflow-y: auto;
-            }
-          </style>
-        </head>
-        <body>
-          <div class="container">
-            <h1 class="error">❌ 設定エラー</h1>
-            <p>認証処理中にエラーが発生しました。管理者にお問い合わせください。</p>
-            <details>
-              <summary>エラー詳細 (クリックして表示)</summary>
-              <div class="error-details">${errorMessage}</div>
-              <details>
-                <summary>スタックトレース</summary>
-                <div class="error-details">${errorStack}</div>
-              </details>
-            </details>
-            <p>Discord に戻って再度 /init コマンドを実行してください。</p>
-          </div>
-        </body>
-      </html>
-    `);
+  // 休憩開始・終了時刻が勤務開始（休憩開始）より前でないかチェック
+  const referenceTimeStr =
+    action === "break"
+      ? activeWorkRecord.startTime
+      : activeWorkRecord.breakStartTime;
+  const referenceTime = referenceTimeStr
+    ? parseDateTime(referenceTimeStr, timeZone)
+    : null;
+  if (referenceTime && actionTime.getTime() < referenceTime.getTime()) {
+    await sendEphemeralError(
+      c,
+      discordApiService,
+      token,
+      t(action === "break" ? "break.beforeStart" : "resume.beforeBreak", {
+        reference: formatDateTime(referenceTime, timeZone),
+        specified: formatDateTime(actionTime, timeZone),
+      })
+    );
+    return;
   }
-});
 
-/**
- * セットアップコマンドの処理
- */
-async function handleSetupCommand(
-  c: any,
-  interaction: APIInteraction,
-  discordApiService: DiscordApiService,
-  token: string
-): Promise<void> {
-  try {
-    // 管理者権限チェック
-    const member = interaction.member;
-    // Discord管理者権限をチェック
-    if (!member) {
-      await discordApiService.editDeferredResponse(
-        c.env.DISCORD_APPLICATION_ID,
+  if (action === "break") {
+    if (activeWorkRecord.breakStartTime) {
+      await sendEphemeralError(
+        c,
+        discordApiService,
         token,
-        "❌ メンバー情報を取得できませんでした。",
-        true
+        t("break.alreadyOnBreak", {
+          breakStartTime: activeWorkRecord.breakStartTime,
+        })
       );
       return;
     }
 
-    // 管理者権限チェック（複数の方法でチェック）
-    const isAdmin = checkAdminPermissions(
-      member,
-      interaction.user?.id,
-      interaction.guild_id
+    const breakResult = await coordinator.startBreak(
+      guildId,
+      activeWorkRecord.recordId,
+      actionTime
     );
 
-    if (!isAdmin) {
-      await discordApiService.editDeferredResponse(
-        c.env.DISCORD_APPLICATION_ID,
+    if (!breakResult.success) {
+      await sendEphemeralError(
+        c,
+        discordApiService,
         token,
-        "❌ このコマンドは管理者権限が必要です。\n\n**必要な権限:**\n• サーバー管理権限\n• 管理者権限\n• サーバーオーナー",
-        true
+        describeAttendanceError(t, breakResult) ||
+          t("break.failed", { error: breakResult.error || "" })
       );
       return;
     }
 
-    const guildId = interaction.guild_id;
-    if (!guildId) {
-      await discordApiService.editDeferredResponse(
-        c.env.DISCORD_APPLICATION_ID,
-        token,
-        "❌ このコマンドはサーバー内でのみ使用できます。",
+    await discordApiService.editDeferredResponse(
+      c.env.DISCORD_APPLICATION_ID,
+      token,
+      t("break.success", {
+        project: activeWorkRecord.projectName || t("common.unknown"),
+        time: formatDateTime(actionTime, timeZone),
+      }) + (breakResult.queued ? t("common.queuedNote") : "")
+    );
+    return;
+  }
+
+  if (!activeWorkRecord.breakStartTime) {
+    await sendEphemeralError(
+      c,
+      discordApiService,
+      token,
+      t("resume.notOnBreak")
+    );
+    return;
+  }
+
+  const resumeResult = await coordinator.endBreak(
+    guildId,
+    activeWorkRecord.recordId,
+    actionTime
+  );
+
+  if (!resumeResult.success) {
+    await sendEphemeralError(
+      c,
+      discordApiService,
+      token,
+      describeAttendanceError(t, resumeResult) ||
+        t("resume.failed", { error: resumeResult.error || "" })
+    );
+    return;
+  }
+
+  await discordApiService.editDeferredResponse(
+    c.env.DISCORD_APPLICATION_ID,
+    token,
+    t("resume.success", {
+      project: activeWorkRecord.projectName || t("common.unknown"),
+      breakDuration: formatMinutes(resumeResult.breakMinutes || 0, t.language),
+      totalBreakDuration: formatMinutes(
+        resumeResult.totalBreakMinutes || 0,
+        t.language
+      ),
+    }) + (resumeResult.queued ? t("common.queuedNote") : "")
+  );
+}
+
+/**
+ * whoコマンドの処理
+ * 現在勤務中のメンバーを一覧表示する
+ */
+async function handleWhoCommand(
+  c: any,
+  interaction: APIInteraction,
+  discordApiService: DiscordApiService,
+  token: string
+): Promise<void> {
+  const guildId = interaction.guild_id;
+  const t = await getTranslator(c, interaction);
+  if (!guildId) {
+    await sendEphemeralError(
+      c,
+      discordApiService,
+      token,
+      t("common.guildOnly")
+    );
+    return;
+  }
+
+  const serverConfigService = new ServerConfigService(c.env);
+  const serverConfig = await serverConfigService.getServerConfig(guildId);
+  if (!serverConfig) {
+    await sendEphemeralError(
+      c,
+      discordApiService,
+      token,
+      t("common.serverConfigNotFound")
+    );
+    return;
+  }
+
+  const timeSettings = getTimeSettings(serverConfig);
+  const { timeZone } = timeSettings;
+
+  const channelOnly = getCommandOptions(interaction).channel_only === true;
+  const channelId = channelOnly ? interaction.channel_id : undefined;
+
+  const store = createAttendanceStore(c.env, guildId, serverConfig);
+  const result = await store.listActiveWorkSessions(channelId);
+
+  if (!result.success || !result.sessions) {
+    await sendEphemeralError(
+      c,
+      discordApiService,
+      token,
+      t("who.failed", { error: result.error || "" })
+    );
+    return;
+  }
+
+  const title = t(channelOnly ? "who.titleChannel" : "who.title");
+
+  if (result.sessions.length === 0) {
+    await discordApiService.editDeferredResponse(
+      c.env.DISCORD_APPLICATION_ID,
+      token,
+      `${title}\n\n${t("who.empty")}`
+    );
+    return;
+  }
+
+  // 開始時刻が早い順に表示
+  const now = Date.now();
+  const lines = result.sessions
+    .map((session) => ({
+      session,
+      startTime: parseDateTime(session.startTime, timeZone),
+    }))
+    .sort(
+      (a, b) => (a.startTime?.getTime() || 0) - (b.startTime?.getTime() || 0)
+    )
+    .map(({ session, startTime }) => {
+      const elapsedMinutes = startTime
+        ? Math.max(
+            0,
+            Math.floor((now - startTime.getTime()) / (1000 * 60)) -
+              session.breakMinutes
+          )
+        : 0;
+      return t("who.line", {
+        userId: session.userId,
+        project: session.projectName,
+        startTime: session.startTime,
+        elapsed: formatMinutes(elapsedMinutes, t.language),
+        breakStatus: session.breakStartTime ? t("who.onBreak") : "",
+      });
+    });
+
+  // Discord のメッセージ制限 (2000文字) を考慮して表示件数を調整
+  const maxContentLength = 1800;
+  let content = `${title}\n`;
+  let shownCount = 0;
+  for (const line of lines) {
+    if (content.length + line.length + 1 > maxContentLength) break;
+    content += `\n${line}`;
+    shownCount++;
+  }
+  if (shownCount < lines.length) {
+    content += `\n\n${t("who.more", { count: lines.length - shownCount })}`;
+  }
+  content += `\n\n${t("who.total", { count: lines.length })}`;
+
+  await discordApiService.editDeferredResponse(
+    c.env.DISCORD_APPLICATION_ID,
+    token,
+    content
+  );
+}
+
+/**
+ * historyコマンドの処理
+ * 本人の勤怠履歴を日別・プロジェクト別に集計して表示する
+ */
+async function handleHistoryCommand(
+  c: any,
+  interaction: APIInteraction,
+  discordApiService: DiscordApiService,
+  token: string
+): Promise<void> {
+  const userId = interaction.member?.user?.id || interaction.user?.id!;
+  const guildId = interaction.guild_id;
+  const t = await getTranslator(c, interaction);
+  if (!guildId) {
+    await sendEphemeralError(
+      c,
+      discordApiService,
+      token,
+      t("common.guildOnly")
+    );
+    return;
+  }
+
+  const serverConfigService = new ServerConfigService(c.env);
+  const serverConfig = await serverConfigService.getServerConfig(guildId);
+  if (!serverConfig) {
+    await sendEphemeralError(
+      c,
+      discordApiService,
+      token,
+      t("common.serverConfigNotFound")
+    );
+    return;
+  }
+  const timeSettings = getTimeSettings(serverConfig);
+
+  const options = getCommandOptions(interaction);
+  const period = resolvePeriod(
+    options.period as string | undefined,
+    options.from as string | undefined,
+    options.to as string | undefined,
+    timeSettings.timeZone
+  );
+  if (!period) {
+    await sendEphemeralError(
+      c,
+      discordApiService,
+      token,
+      t("history.invalidPeriod") + t("datetime.dateFormats")
+    );
+    return;
+  }
+
+  const projectName = options.project as string | undefined;
+  const store = createAttendanceStore(c.env, guildId, serverConfig);
+  const result = await store.getWorkRecords(period.from, period.to, {
+    userId,
+    projectName,
+  });
+
+  if (!result.success || !result.records) {
+    await sendEphemeralError(
+      c,
+      discordApiService,
+      token,
+      t("history.failed", { error: result.error || "" })
+    );
+    return;
+  }
+
+  const projectInfo = projectName ? ` / 📍 ${projectName}` : "";
+  const header = t("history.header", {
+    period: period.label,
+    project: projectInfo,
+  });
+
+  if (result.records.length === 0) {
+    await discordApiService.editDeferredResponse(
+      c.env.DISCORD_APPLICATION_ID,
+      token,
+      `${header}\n\n${t("history.empty")}`,
+      true
+    );
+    return;
+  }
+
+  // 日別の集計（終了していない記録は「勤務中」として表示）
+  const dailyLines: string[] = [];
+  const dailyTotals = groupWorkMinutes(result.records, (r) => r.workDate);
+  const workDates = [...new Set(result.records.map((r) => r.workDate))].sort();
+  for (const workDate of workDates) {
+    const dayRecords = result.records.filter((r) => r.workDate === workDate);
+    const projects = [...new Set(dayRecords.map((r) => r.projectName))];
+    const hasOpenRecord = dayRecords.some((r) => r.workMinutes === null);
+    dailyLines.push(
+      `• ${workDate} — ${formatMinutes(
+        dailyTotals.get(workDate)?.minutes || 0,
+        t.language
+      )}${hasOpenRecord ? t("history.working") : ""} — ${projects.join(", ")}`
+    );
+  }
+
+  // プロジェクト別の集計
+  const projectLines = [
+    ...groupWorkMinutes(result.records, (r) => r.projectName).entries(),
+  ]
+    .sort((a, b) => b[1].minutes - a[1].minutes)
+    .map(([name, total]) =>
+      t("history.projectLine", {
+        project: name,
+        duration: formatMinutes(total.minutes, t.language),
+        count: total.count,
+      })
+    );
+
+  const totalMinutes = result.records.reduce(
+    (sum, r) => sum + (r.workMinutes || 0),
+    0
+  );
+
+  const total = t("history.total", {
+    duration: formatMinutes(totalMinutes, t.language),
+    count: result.records.length,
+  });
+  const buildMessage = (dailySection: string, projectSection: string) =>
+    `${header}\n\n${t("history.byDay")}\n${dailySection}\n\n` +
+    `${t("history.byProject")}\n${projectSection}\n\n${total}`;
+
+  // Discord のメッセージ制限 (2000文字) を考慮して日別・プロジェクト別の表示件数を調整
+  // プロジェクト別は残りの半分までとし、使わなかった分は日別に回す
+  const available = Math.max(0, 1900 - buildMessage("", "").length);
+  const projectSection = fitLines(projectLines, available / 2, t);
+  const dailySection = fitLines(
+    dailyLines,
+    available - projectSection.length,
+    t,
+    "history.moreDays"
+  );
+
+  await discordApiService.editDeferredResponse(
+    c.env.DISCORD_APPLICATION_ID,
+    token,
+    buildMessage(dailySection, projectSection),
+    true
+  );
+}
+
+// レポートの埋め込みの色（スプレッドシートのヘッダー行と同じ色）
+const REPORT_EMBED_COLOR = 0x336699;
+
+// レポートの埋め込みの説明文に使う最大文字数（Discord の上限は 4096 文字）
+const REPORT_MAX_DESCRIPTION_LENGTH = 3500;
+
+/**
+ * 勤務記録を集計単位ごとにまとめる（終了していない記録は含めない）
+ * ユーザー別・プロジェクト別は労働時間の長い順、日別は日付順に並べる
+ */
+function buildReportRows(
+  records: WorkRecord[],
+  groupBy: ReportGrouping
+): Array<{ name: string; userId?: string; minutes: number; count: number }> {
+  if (groupBy === "user") {
+    // ユーザー名は変わることがあるため、最後の記録の名前を使う
+    const usernames = new Map(records.map((r) => [r.userId, r.username]));
+    return [...groupWorkMinutes(records, (r) => r.userId).entries()]
+      .map(([userId, total]) => ({
+        name: usernames.get(userId) || userId,
+        userId,
+        ...total,
+      }))
+      .sort((a, b) => b.minutes - a.minutes);
+  }
+
+  const rows = [
+    ...groupWorkMinutes(records, (r) =>
+      groupBy === "project" ? r.projectName : r.workDate
+    ).entries(),
+  ].map(([name, total]) => ({ name, ...total }));
+
+  return groupBy === "day"
+    ? rows.sort((a, b) => a.name.localeCompare(b.name))
+    : rows.sort((a, b) => b.minutes - a.minutes);
+}
+
+/**
+ * /report コマンドの処理（管理者用）
+ * 指定期間のサーバー全体の勤務記録を集計し、埋め込みとCSVファイルをチャンネルに投稿する
+ */
+async function handleReportCommand(
+  c: any,
+  interaction: APIInteraction,
+  discordApiService: DiscordApiService,
+  token: string
+): Promise<void> {
+  const t = await getTranslator(c, interaction);
+  const guildId = interaction.guild_id;
+  if (!guildId) {
+    await discordApiService.editDeferredResponse(
+      c.env.DISCORD_APPLICATION_ID,
+      token,
+      t("common.guildOnly"),
+      true
+    );
+    return;
+  }
+
+  if (
+    !(await ensureAdminPermission(c, interaction, discordApiService, token))
+  ) {
+    return;
+  }
+
+  const serverConfigService = new ServerConfigService(c.env);
+  const serverConfig = await serverConfigService.getServerConfig(guildId);
+  if (!serverConfig) {
+    await sendEphemeralError(
+      c,
+      discordApiService,
+      token,
+      t("common.serverConfigNotFound")
+    );
+    return;
+  }
+  const timeSettings = getTimeSettings(serverConfig);
+
+  const options = getCommandOptions(interaction);
+  const period = resolvePeriod(
+    options.period as string | undefined,
+    options.from as string | undefined,
+    options.to as string | undefined,
+    timeSettings.timeZone
+  );
+  if (!period) {
+    await sendEphemeralError(
+      c,
+      discordApiService,
+      token,
+      t("history.invalidPeriod") + t("datetime.dateFormats")
+    );
+    return;
+  }
+  const groupBy = (options.group_by as ReportGrouping | undefined) || "user";
+  const grouping = t(`report.groupBy.${groupBy}`);
+
+  const store = createAttendanceStore(c.env, guildId, serverConfig);
+  const result = await store.getWorkRecords(period.from, period.to);
+  if (!result.success || !result.records) {
+    await sendEphemeralError(
+      c,
+      discordApiService,
+      token,
+      t("report.failed", { error: result.error || "" })
+    );
+    return;
+  }
+
+  const rows = buildReportRows(result.records, groupBy);
+  if (rows.length === 0) {
+    await discordApiService.editDeferredResponse(
+      c.env.DISCORD_APPLICATION_ID,
+      token,
+      t("report.empty", { period: period.label })
+    );
+    return;
+  }
+
+  // 埋め込みの説明文の上限を考慮し、入りきらない行はCSVのみに含める
+  let lines = "";
+  let shownCount = 0;
+  for (const row of rows) {
+    const line = t("report.line", {
+      name: row.name,
+      duration: formatMinutes(row.minutes, t.language),
+      count: row.count,
+    });
+    if (lines.length + line.length + 1 > REPORT_MAX_DESCRIPTION_LENGTH) break;
+    lines += `${line}\n`;
+    shownCount++;
+  }
+  if (shownCount < rows.length) {
+    lines += t("report.more", { count: rows.length - shownCount });
+  }
+
+  const totalMinutes = rows.reduce((sum, row) => sum + row.minutes, 0);
+  const totalCount = rows.reduce((sum, row) => sum + row.count, 0);
+  const openCount = result.records.length - totalCount;
+
+  const embed: APIEmbed = {
+    title: t("report.title"),
+    description: `${t("report.description", {
+      period: period.label,
+      grouping,
+    })}\n\n${lines}`,
+    color: REPORT_EMBED_COLOR,
+    fields: [
+      {
+        name: t("report.total"),
+        value: t("report.totalValue", {
+          duration: formatMinutes(totalMinutes, t.language),
+          count: totalCount,
+        }),
+        inline: true,
+      },
+      ...(openCount > 0
+        ? [
+            {
+              name: t("report.working"),
+              value: t("report.workingValue", { count: openCount }),
+              inline: true,
+            },
+          ]
+        : []),
+    ],
+    timestamp: new Date().toISOString(),
+  };
+
+  // CSV（表計算ソフトで文字化けしないよう BOM を付ける）
+  const csv = toCsv([
+    [
+      t(`report.csv.${groupBy}`),
+      ...(groupBy === "user" ? [t("report.csv.discordId")] : []),
+      t("report.csv.minutes"),
+      t("report.csv.hours"),
+      t("report.csv.count"),
+    ],
+    ...rows.map((row) => [
+      row.name,
+      ...(groupBy === "user" ? [row.userId || ""] : []),
+      row.minutes,
+      Math.round((row.minutes / 60) * 100) / 100,
+      row.count,
+    ]),
+  ]);
+  const toFileDate = (date: Date) =>
+    formatDateTime(date, timeSettings.timeZone).slice(0, 10).replace(/\//g, "");
+  const fileName = `kintai-report_${toFileDate(period.from)}-${toFileDate(
+    new Date(period.to.getTime() - 1)
+  )}_${groupBy}.csv`;
+
+  await discordApiService.editDeferredResponseWithFiles(
+    c.env.DISCORD_APPLICATION_ID,
+    token,
+    { embeds: [embed] },
+    [{ name: fileName, content: `\uFEFF${csv}`, contentType: "text/csv" }]
+  );
+}
+
+// 勤務記録の修正内容（未指定の項目は変更しない）
+interface RecordEditInput {
+  startTime?: string;
+  startDay?: string;
+  endTime?: string;
+  endDay?: string;
+  todo?: string;
+}
+
+/**
+ * 勤務記録の修正処理（/edit コマンドとモーダル送信で共通）
+ * @param recordRef 修正対象の記録（UUIDまたは日付）
+ */
+async function applyRecordEdit(
+  c: any,
+  interaction: APIInteraction,
+  discordApiService: DiscordApiService,
+  token: string,
+  recordRef: string,
+  input: RecordEditInput
+): Promise<void> {
+  const userId = interaction.member?.user?.id || interaction.user?.id!;
+  const guildId = interaction.guild_id;
+  const t = await getTranslator(c, interaction);
+  if (!guildId) {
+    await sendEphemeralError(
+      c,
+      discordApiService,
+      token,
+      t("common.guildOnly")
+    );
+    return;
+  }
+
+  if (!input.startTime && !input.endTime && input.todo === undefined) {
+    await sendEphemeralError(
+      c,
+      discordApiService,
+      token,
+      t("edit.noChanges")
+    );
+    return;
+  }
+
+  if ((input.startDay && !input.startTime) || (input.endDay && !input.endTime)) {
+    await sendEphemeralError(
+      c,
+      discordApiService,
+      token,
+      t("edit.dayWithoutTime")
+    );
+    return;
+  }
+
+  const serverConfigService = new ServerConfigService(c.env);
+  const serverConfig = await serverConfigService.getServerConfig(guildId);
+  if (!serverConfig) {
+    await sendEphemeralError(
+      c,
+      discordApiService,
+      token,
+      t("common.serverConfigNotFound")
+    );
+    return;
+  }
+
+  const timeSettings = getTimeSettings(serverConfig);
+  const { timeZone } = timeSettings;
+
+  // 修正対象の記録を特定（UUIDまたは日付）
+  const store = createAttendanceStore(c.env, guildId, serverConfig);
+  let record: WorkRecord | undefined;
+
+  if (UUID_PATTERN.test(recordRef)) {
+    const result = await store.getWorkRecordByUUID(recordRef);
+    if (!result.success || !result.record) {
+      await sendEphemeralError(
+        c,
+        discordApiService,
+        token,
+        describeAttendanceError(t, result) ||
+          t("edit.fetchFailed", { error: result.error || "" })
+      );
+      return;
+    }
+    record = result.record;
+  } else {
+    const date = parseDateString(recordRef, timeZone);
+    if (!date) {
+      await sendEphemeralError(
+        c,
+        discordApiService,
+        token,
+        t("edit.invalidRecord")
+      );
+      return;
+    }
+
+    const from = toStartOfDay(date, timeZone);
+    const result = await store.getWorkRecords(
+      from,
+      new Date(from.getTime() + 24 * 60 * 60 * 1000),
+      { userId }
+    );
+    if (!result.success || !result.records) {
+      await sendEphemeralError(
+        c,
+        discordApiService,
+        token,
+        t("edit.fetchFailed", { error: result.error || "" })
+      );
+      return;
+    }
+
+    if (result.records.length !== 1) {
+      const candidates = result.records
+        .map(
+          (r) =>
+            `• ${r.startTime} 〜 ${r.endTime || t("common.working")} — ${
+              r.projectName
+            } — \`${r.uuid}\``
+        )
+        .join("\n");
+      await sendEphemeralError(
+        c,
+        discordApiService,
+        token,
+        result.records.length === 0
+          ? t("edit.notFound")
+          : t("edit.multipleRecords", { candidates })
+      );
+      return;
+    }
+    record = result.records[0];
+  }
+
+  if (record.userId !== userId) {
+    await sendEphemeralError(
+      c,
+      discordApiService,
+      token,
+      t("edit.notOwner")
+    );
+    return;
+  }
+
+  // 時刻のみ指定された場合は記録の日付を基準にする
+  const toDateString = (dateTime: string) =>
+    dateTime.slice(0, 10).replace(/\//g, "-");
+
+  let newStartTime: Date | undefined;
+  if (input.startTime) {
+    const parsed = parseTimeStringWithDate(
+      input.startTime,
+      input.startDay || toDateString(record.startTime),
+      timeZone
+    );
+    if (!parsed) {
+      await sendEphemeralError(
+        c,
+        discordApiService,
+        token,
+        t("edit.invalidStartTime")
+      );
+      return;
+    }
+    newStartTime = parsed;
+  }
+
+  let newEndTime: Date | undefined;
+  if (input.endTime) {
+    const baseDateTime =
+      record.endTime ||
+      (newStartTime ? formatDateTime(newStartTime, timeZone) : record.startTime);
+    const parsed = parseTimeStringWithDate(
+      input.endTime,
+      input.endDay || toDateString(baseDateTime),
+      timeZone
+    );
+    if (!parsed) {
+      await sendEphemeralError(
+        c,
+        discordApiService,
+        token,
+        t("edit.invalidEndTime")
+      );
+      return;
+    }
+    newEndTime = parsed;
+  }
+
+  // 未来時刻チェック
+  for (const time of [newStartTime, newEndTime]) {
+    if (time && isFutureTime(time)) {
+      await sendEphemeralError(
+        c,
+        discordApiService,
+        token,
+        t("datetime.future", {
+          specified: formatDateTime(time, timeZone),
+          now: formatDateTime(new Date(), timeZone),
+        })
+      );
+      return;
+    }
+  }
+
+  // 終了時刻が開始時刻より前でないかチェック
+  const effectiveStartTime =
+    newStartTime || parseDateTime(record.startTime, timeZone);
+  const effectiveEndTime =
+    newEndTime || (record.endTime ? parseDateTime(record.endTime, timeZone) : null);
+  if (
+    effectiveStartTime &&
+    effectiveEndTime &&
+    isEndTimeBeforeStartTime(effectiveStartTime, effectiveEndTime)
+  ) {
+    await sendEphemeralError(
+      c,
+      discordApiService,
+      token,
+      t("datetime.endBeforeStart", {
+        start: formatDateTime(effectiveStartTime, timeZone),
+        end: formatDateTime(effectiveEndTime, timeZone),
+      })
+    );
+    return;
+  }
+
+  const updateResult = await getAttendanceCoordinator(
+    c.env,
+    guildId
+  ).updateRecord(guildId, record, {
+    startTime: newStartTime,
+    endTime: newEndTime,
+    todo: input.todo,
+  });
+
+  if (!updateResult.success) {
+    await sendEphemeralError(
+      c,
+      discordApiService,
+      token,
+      describeAttendanceError(t, updateResult) ||
+        t("edit.failed", { error: updateResult.error || "" })
+    );
+    return;
+  }
+
+  const updated = updateResult.record;
+  const workDuration =
+    updated?.workMinutes !== null && updated?.workMinutes !== undefined
+      ? formatMinutes(updated.workMinutes, t.language)
+      : t("common.working");
+
+  await discordApiService.editDeferredResponse(
+    c.env.DISCORD_APPLICATION_ID,
+    token,
+    t("edit.success", {
+      project: record.projectName,
+      oldStart: record.startTime,
+      newStart: updated?.startTime || record.startTime,
+      oldEnd: record.endTime || t("common.notRecorded"),
+      newEnd: updated?.endTime || t("common.notRecorded"),
+      duration: workDuration,
+      todo: updated?.todo || t("common.notRecorded"),
+    }),
+    true
+  );
+}
+
+/**
+ * /edit で記録のみ指定された場合に修正用のモーダルを生成
+ * 記録のUUIDが指定され、修正項目が未指定の場合のみモーダルを返す
+ */
+async function buildEditModalResponse(
+  c: any,
+  interaction: APIInteraction
+): Promise<object | null> {
+  if (
+    interaction.type !== InteractionType.ApplicationCommand ||
+    !("name" in interaction.data) ||
+    interaction.data.name !== "edit"
+  ) {
+    return null;
+  }
+
+  const options = getCommandOptions(interaction);
+  const recordRef = String(options.record || "");
+  const hasChanges = ["start_time", "end_time", "todo"].some(
+    (name) => options[name] !== undefined
+  );
+  if (hasChanges || !UUID_PATTERN.test(recordRef)) {
+    return null;
+  }
+
+  const t = await getTranslator(c, interaction);
+  return {
+    type: InteractionResponseType.Modal,
+    data: {
+      custom_id: `edit_record:${recordRef}`,
+      title: t("edit.modalTitle"),
+      components: [
+        buildTextInputRow(
+          "start",
+          t("edit.modalStart"),
+          t("edit.modalStartPlaceholder")
+        ),
+        buildTextInputRow(
+          "end",
+          t("edit.modalEnd"),
+          t("edit.modalEndPlaceholder")
+        ),
+        buildTextInputRow(
+          "todo",
+          t("edit.modalTodo"),
+          t("common.todoPlaceholder"),
+          TextInputStyle.Paragraph
+        ),
+      ],
+    },
+  };
+}
+
+/**
+ * 勤怠パネルの退勤ボタン用モーダルを生成（やったことの入力）
+ */
+function buildPanelEndModalResponse(t: Translator): object {
+  return {
+    type: InteractionResponseType.Modal,
+    data: {
+      custom_id: PANEL_CUSTOM_IDS.endModal,
+      title: t("panel.endModalTitle"),
+      components: [
+        buildTextInputRow(
+          "todo",
+          t("panel.endModalTodo"),
+          t("common.todoPlaceholder"),
+          TextInputStyle.Paragraph,
+          true
+        ),
+        buildTextInputRow(
+          "time",
+          t("panel.endModalTime"),
+          t("edit.modalEndPlaceholder")
+        ),
+      ],
+    },
+  };
+}
+
+/**
+ * モーダル用のテキスト入力（ActionRow）を生成
+ */
+function buildTextInputRow(
+  customId: string,
+  label: string,
+  placeholder: string,
+  style: TextInputStyle = TextInputStyle.Short,
+  required: boolean = false
+) {
+  return {
+    type: ComponentType.ActionRow,
+    components: [
+      {
+        type: ComponentType.TextInput,
+        custom_id: customId,
+        label,
+        placeholder,
+        style,
+        required,
+      },
+    ],
+  };
+}
+
+/**
+ * メッセージコンポーネント（勤怠パネルのボタン）をバックグラウンドで処理
+ */
+async function handleComponentDeferred(
+  c: any,
+  interaction: APIInteraction
+): Promise<void> {
+  if (interaction.type !== InteractionType.MessageComponent) {
+    return;
+  }
+
+  const discordApiService = new DiscordApiService(c.env.DISCORD_TOKEN);
+  const token = interaction.token;
+  const t = await getTranslator(c, interaction);
+
+  try {
+    switch (interaction.data.custom_id) {
+      case PANEL_CUSTOM_IDS.start:
+        await handleStartCommandWithRetry(
+          c,
+          interaction,
+          discordApiService,
+          token,
+          undefined,
+          undefined,
+          3 // maxRetries
+        );
+        return;
+      case PANEL_CUSTOM_IDS.break:
+        await handleBreakCommand(
+          c,
+          interaction,
+          discordApiService,
+          token,
+          "break"
+        );
+        return;
+      case PANEL_CUSTOM_IDS.resume:
+        await handleBreakCommand(
+          c,
+          interaction,
+          discordApiService,
+          token,
+          "resume"
+        );
+        return;
+    }
+
+    await sendEphemeralError(
+      c,
+      discordApiService,
+      token,
+      t("common.unknownAction")
+    );
+  } catch (error) {
+    console.error("Component processing error:", error);
+    await sendEphemeralError(
+      c,
+      discordApiService,
+      token,
+      t("common.processingFailed")
+    );
+  }
+}
+
+/**
+ * モーダル送信をバックグラウンドで処理
+ */
+async function handleModalSubmitDeferred(
+  c: any,
+  interaction: APIInteraction
+): Promise<void> {
+  if (interaction.type !== InteractionType.ModalSubmit) {
+    return;
+  }
+
+  const discordApiService = new DiscordApiService(c.env.DISCORD_TOKEN);
+  const token = interaction.token;
+  const customId = interaction.data.custom_id;
+  const t = await getTranslator(c, interaction);
+
+  // 入力値を custom_id をキーにして取得（空欄は未指定として扱う）
+  const values: Record<string, string> = {};
+  for (const row of interaction.data.components) {
+    for (const component of row.components) {
+      if (component.value.trim()) {
+        values[component.custom_id] = component.value.trim();
+      }
+    }
+  }
+
+  // "2025-07-31 09:00" または "09:00" を日付と時刻に分割
+  const splitDateTime = (input?: string) => {
+    if (!input) return {};
+    const parts = input.split(/\s+/);
+    return parts.length === 2
+      ? { day: parts[0], time: parts[1] }
+      : { time: parts[0] };
+  };
+
+  try {
+    if (customId === PANEL_CUSTOM_IDS.endModal) {
+      const end = splitDateTime(values.time);
+      await handleEndCommandWithRetry(
+        c,
+        interaction,
+        discordApiService,
+        token,
+        values.todo || "",
+        end.time,
+        end.day,
+        3 // maxRetries
+      );
+      return;
+    }
+
+    if (customId.startsWith("edit_record:")) {
+      const start = splitDateTime(values.start);
+      const end = splitDateTime(values.end);
+      await applyRecordEdit(
+        c,
+        interaction,
+        discordApiService,
+        token,
+        customId.slice("edit_record:".length),
+        {
+          startTime: start.time,
+          startDay: start.day,
+          endTime: end.time,
+          endDay: end.day,
+          todo: values.todo,
+        }
+      );
+      return;
+    }
+
+    await sendEphemeralError(
+      c,
+      discordApiService,
+      token,
+      t("common.unknownAction")
+    );
+  } catch (error) {
+    console.error("Modal submit processing error:", error);
+    await sendEphemeralError(
+      c,
+      discordApiService,
+      token,
+      t("common.processingFailed")
+    );
+  }
+}
+
+/**
+ * オートコンプリートの候補を取得
+ * /edit の record オプションに本人の直近の勤務記録を表示する
+ */
+async function handleAutocomplete(
+  c: any,
+  interaction: APIInteraction
+): Promise<APIApplicationCommandOptionChoice[]> {
+  try {
+    if (
+      interaction.type !== InteractionType.ApplicationCommandAutocomplete ||
+      interaction.data.name !== "edit" ||
+      !interaction.guild_id
+    ) {
+      return [];
+    }
+
+    const focused = interaction.data.options.find(
+      (opt) => "focused" in opt && opt.focused
+    );
+    const query =
+      focused && "value" in focused ? String(focused.value).trim() : "";
+
+    const userId = interaction.member?.user?.id || interaction.user?.id;
+    const serverConfigService = new ServerConfigService(c.env);
+    const serverConfig = await serverConfigService.getServerConfig(
+      interaction.guild_id
+    );
+    if (!userId || !serverConfig) return [];
+    const timeSettings = getTimeSettings(serverConfig);
+    const { timeZone } = timeSettings;
+    const t = createTranslator(
+      resolveLanguage(interaction, serverConfig.language)
+    );
+
+    // 直近31日分の本人の記録を新しい順に表示
+    const from = toStartOfDay(parseDateString("-31", timeZone)!, timeZone);
+    const store = createAttendanceStore(
+      c.env,
+      interaction.guild_id,
+      serverConfig
+    );
+    const result = await store.getWorkRecords(
+      from,
+      new Date(Date.now() + 24 * 60 * 60 * 1000),
+      { userId }
+    );
+
+    return (result.records || [])
+      .reverse()
+      .map((record) => ({
+        name: `${record.startTime} 〜 ${
+          record.endTime ? record.endTime.slice(11) : t("common.working")
+        } ${record.projectName} ${record.todo}`
+          .trim()
+          .slice(0, 100),
+        value: record.uuid,
+      }))
+      .filter((choice) => !query || choice.name.includes(query))
+      .slice(0, 25);
+  } catch (error) {
+    console.error("Autocomplete error:", error);
+    return [];
+  }
+}
+
+/**
+ * 集計期間を解決（サーバーのタイムゾーン基準）
+ * @param period today / week / month / custom（fromを指定した場合は省略可）
+ * @param fromString 開始日（parseDateStringの形式）
+ * @param toString 終了日（parseDateStringの形式、省略時は今日）
+ * @param timeZone 日付の区切りを判定するタイムゾーン
+ * @returns 期間の開始（含む）・終了（含まない）と表示用ラベル、不正な場合はnull
+ */
+function resolvePeriod(
+  period: string | undefined,
+  fromString: string | undefined,
+  toString: string | undefined,
+  timeZone: string
+): { from: Date; to: Date; label: string } | null {
+  // 夏時間のある地域でも日付の区切りがずれないよう、年月日で計算してから変換する
+  const addDays = (date: Date, days: number) =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+  const todayDate = parseDateString("today", timeZone)!;
+  const tomorrow = toStartOfDay(addDays(todayDate, 1), timeZone);
+  const mode = period || (fromString ? "custom" : "week");
+
+  let from: Date;
+  let to: Date;
+
+  switch (mode) {
+    case "today":
+      from = toStartOfDay(todayDate, timeZone);
+      to = tomorrow;
+      break;
+    case "week":
+      // 月曜日始まり
+      from = toStartOfDay(
+        addDays(todayDate, -((todayDate.getDay() + 6) % 7)),
+        timeZone
+      );
+      to = tomorrow;
+      break;
+    case "month":
+      from = toStartOfDay(
+        new Date(todayDate.getFullYear(), todayDate.getMonth(), 1),
+        timeZone
+      );
+      to = tomorrow;
+      break;
+    case "custom": {
+      const fromDate = fromString ? parseDateString(fromString, timeZone) : null;
+      const toDate = toString ? parseDateString(toString, timeZone) : todayDate;
+      if (!fromDate || !toDate) return null;
+      from = toStartOfDay(fromDate, timeZone);
+      to = toStartOfDay(addDays(toDate, 1), timeZone);
+      break;
+    }
+    default:
+      return null;
+  }
+
+  if (from.getTime() >= to.getTime()) return null;
+
+  const label = `${formatDateTime(from, timeZone).slice(
+    0,
+    10
+  )} 〜 ${formatDateTime(new Date(to.getTime() - 1), timeZone).slice(0, 10)}`;
+
+  return { from, to, label };
+}
+
+/**
+ * インタラクションへの応答に使うメッセージ関数を取得
+ * サーバー別の言語設定があればそれを優先し、なければDiscordのロケールに従う
+ */
+async function getTranslator(
+  c: any,
+  interaction: APIInteraction
+): Promise<Translator> {
+  const language = interaction.guild_id
+    ? await new ServerConfigService(c.env).getLanguage(interaction.guild_id)
+    : undefined;
+  return createTranslator(resolveLanguage(interaction, language));
+}
+
+/**
+ * Webページの表示に使うメッセージ関数を取得
+ * lang パラメータ → 指定された言語（サーバー設定など）→ Accept-Language の順に判定
+ */
+function getPageTranslator(c: any, language?: Language | null): Translator {
+  return createTranslator(
+    toLanguage(c.req.query("lang")) ||
+      language ||
+      languageFromAcceptLanguage(c.req.header("Accept-Language")) ||
+      DEFAULT_LANGUAGE
+  );
+}
+
+/**
+ * Deferred Responseを削除し、エラーメッセージをEPHEMERALで送信
+ */
+async function sendEphemeralError(
+  c: any,
+  discordApiService: DiscordApiService,
+  token: string,
+  message: string
+): Promise<void> {
+  await discordApiService.deleteOriginalResponse(
+    c.env.DISCORD_APPLICATION_ID,
+    token
+  );
+
+  await discordApiService.createFollowupMessage(
+    c.env.DISCORD_APPLICATION_ID,
+    token,
+    message,
+    true // ephemeral
+  );
+}
+
+/**
+ * 勤怠データの操作が失敗した理由をメッセージにする
+ * 理由が分からない失敗（保存先のエラーなど）は undefined を返し、呼び出し側で詳細を含むメッセージにする
+ */
+function describeAttendanceError(
+  t: Translator,
+  result: { errorCode?: AttendanceErrorCode; breakStartTime?: string }
+): string | undefined {
+  switch (result.errorCode) {
+    case "start_record_not_found":
+      return t("common.notStarted");
+    case "record_not_found":
+      return t("common.recordNotFound");
+    case "unreadable_record":
+      return t("common.unreadableRecord");
+    case "already_on_break":
+      return t("break.alreadyOnBreak", {
+        breakStartTime: result.breakStartTime || "-",
+      });
+    case "not_on_break":
+      return t("resume.notOnBreak");
+    case "config_not_found":
+      return t("common.serverConfigNotFound");
+    default:
+      return undefined;
+  }
+}
+
+// OAuth コールバック処理
+app.get("/oauth/callback", async (c) => {
+  // ページの言語（/init を実行した時点の言語が分かればそれを使う）
+  let t = getPageTranslator(c);
+
+  try {
+    const url = new URL(c.req.url);
+    const code = url.searchParams.get("code");
+    const state = url.searchParams.get("state");
+    const error = url.searchParams.get("error");
+
+    const oauthService = new OAuthService(c.env);
+    if (state) {
+      t = getPageTranslator(c, await oauthService.getStateLanguage(state));
+    }
+
+    // エラーハンドリング
+    if (error) {
+      console.error("OAuth error:", error);
+      return c.html(renderAuthErrorPage(t, "page.authCancelled"));
+    }
+
+    if (!code || !state) {
+      return c.html(renderAuthErrorPage(t, "page.invalidAuthParams"));
+    }
+
+    // OAuth処理（新しいhandleCallbackメソッドを使用）
+    const result = await oauthService.handleCallback(code, state, t);
+
+    if (result.success) {
+      return c.html(
+        renderSetupCompletePage(t, {
+          reconnected: result.flow === "reconnect",
+          message: result.message,
+          spreadsheetUrl: result.spreadsheetUrl,
+          nonce: c.get("secureHeadersNonce"),
+        })
+      );
+    } else {
+      return c.html(
+        renderSetupErrorPage(t, result.error || t("page.unknownError"))
+      );
+    }
+  } catch (error) {
+    // 詳細（スタックトレースなど）はログにのみ出力し、利用者には表示しない
+    console.error("OAuth callback error:", error);
+    return c.html(renderSetupErrorPage(t));
+  }
+});
+
+/**
+ * セットアップコマンドの処理
+ */
+async function handleSetupCommand(
+  c: any,
+  interaction: APIInteraction,
+  discordApiService: DiscordApiService,
+  token: string
+): Promise<void> {
+  const t = await getTranslator(c, interaction);
+  try {
+    // 管理者権限チェック
+    const member = interaction.member;
+    if (!member) {
+      await discordApiService.editDeferredResponse(
+        c.env.DISCORD_APPLICATION_ID,
+        token,
+        t("common.memberMissing"),
+        true
+      );
+      return;
+    }
+
+    if (
+      !(await ensureAdminPermission(c, interaction, discordApiService, token))
+    ) {
+      return;
+    }
+
+    const guildId = interaction.guild_id;
+    if (!guildId) {
+      await discordApiService.editDeferredResponse(
+        c.env.DISCORD_APPLICATION_ID,
+        token,
+        t("common.guildOnly"),
+        true
+      );
+      return;
+    }
+
+    // 既に設定済みかチェック
+    // D1 のみで運用中のサーバーは、スプレッドシートへの複製を追加するための連携のみ受け付ける
+    const serverConfigService = new ServerConfigService(c.env);
+    const existingConfig = await serverConfigService.getServerConfig(guildId);
+    const options = getCommandOptions(interaction);
+    const storage = options.storage as StorageBackend | undefined;
+    const spreadsheetOption = options.spreadsheet as string | undefined;
+
+    if (
+      existingConfig &&
+      (storage === "d1" || hasSpreadsheet(existingConfig))
+    ) {
+      await discordApiService.editDeferredResponse(
+        c.env.DISCORD_APPLICATION_ID,
+        token,
+        t("init.alreadyConfigured"),
+        true
+      );
+      return;
+    }
+
+    const userId = interaction.user?.id || interaction.member?.user?.id;
+    if (!userId) {
+      await discordApiService.editDeferredResponse(
+        c.env.DISCORD_APPLICATION_ID,
+        token,
+        t("common.userMissing"),
+        true
+      );
+      return;
+    }
+
+    // 既存のスプレッドシートを連携する場合は、URL から ID を取り出せるか先に確認する
+    const spreadsheetId = spreadsheetOption
+      ? parseSpreadsheetId(spreadsheetOption)
+      : undefined;
+    if (spreadsheetOption && (!spreadsheetId || storage === "d1")) {
+      await discordApiService.editDeferredResponse(
+        c.env.DISCORD_APPLICATION_ID,
+        token,
+        t(spreadsheetId ? "init.spreadsheetWithD1" : "init.invalidSpreadsheet"),
+        true
+      );
+      return;
+    }
+
+    // D1 を保存先にする場合は Google 認証なしで設定を完了する
+    if (storage === "d1") {
+      if (!c.env.KINTAI_DB) {
+        await discordApiService.editDeferredResponse(
+          c.env.DISCORD_APPLICATION_ID,
+          token,
+          t("init.d1Unavailable"),
+          true
+        );
+        return;
+      }
+
+      await serverConfigService.saveLocalServerConfig(guildId, userId);
+      await resetAttendanceCoordinator(c.env, guildId);
+      await discordApiService.editDeferredResponse(
+        c.env.DISCORD_APPLICATION_ID,
+        token,
+        t("init.d1Done"),
+        true
+      );
+      return;
+    }
+
+    // OAuth URLを生成
+    const oauthService = new OAuthService(c.env);
+
+    const authUrl = await oauthService.generateAuthUrl(
+      guildId,
+      userId,
+      t.language,
+      spreadsheetId ? { flow: "attach", spreadsheetId } : {}
+    );
+
+    await discordApiService.editDeferredResponse(
+      c.env.DISCORD_APPLICATION_ID,
+      token,
+      t("init.guide", {
+        authUrl,
+        sheetStep: t(spreadsheetId ? "init.sheetStepAttach" : "init.sheetStepCreate"),
+      }),
+      true
+    );
+  } catch (error) {
+    console.error("Setup command error:", error);
+    await discordApiService.editDeferredResponse(
+      c.env.DISCORD_APPLICATION_ID,
+      token,
+      t("init.failed"),
+      true
+    );
+  }
+}
+
+/**
+ * Google アカウント再連携コマンド（管理者のみ）
+ * リフレッシュトークンが失効した場合に、連携中のスプレッドシートを引き継いだまま認証をやり直す
+ */
+async function handleReconnectCommand(
+  c: any,
+  interaction: APIInteraction,
+  discordApiService: DiscordApiService,
+  token: string
+): Promise<void> {
+  const t = await getTranslator(c, interaction);
+  try {
+    const guildId = interaction.guild_id;
+    if (!guildId) {
+      await discordApiService.editDeferredResponse(
+        c.env.DISCORD_APPLICATION_ID,
+        token,
+        t("common.guildOnly"),
+        true
+      );
+      return;
+    }
+
+    if (
+      !(await ensureAdminPermission(c, interaction, discordApiService, token))
+    ) {
+      return;
+    }
+
+    const serverConfigService = new ServerConfigService(c.env);
+    const config = await serverConfigService.getServerConfig(guildId);
+    if (!config || !hasSpreadsheet(config)) {
+      await discordApiService.editDeferredResponse(
+        c.env.DISCORD_APPLICATION_ID,
+        token,
+        t("reconnect.notConnected"),
+        true
+      );
+      return;
+    }
+
+    const userId = interaction.user?.id || interaction.member?.user?.id;
+    if (!userId) {
+      await discordApiService.editDeferredResponse(
+        c.env.DISCORD_APPLICATION_ID,
+        token,
+        t("common.userMissing"),
+        true
+      );
+      return;
+    }
+
+    const authUrl = await new OAuthService(c.env).generateAuthUrl(
+      guildId,
+      userId,
+      t.language,
+      { flow: "reconnect" }
+    );
+
+    await discordApiService.editDeferredResponse(
+      c.env.DISCORD_APPLICATION_ID,
+      token,
+      t("reconnect.guide", { authUrl, spreadsheetUrl: config.sheet_url }),
+      true
+    );
+  } catch (error) {
+    console.error("Reconnect command error:", error);
+    await discordApiService.editDeferredResponse(
+      c.env.DISCORD_APPLICATION_ID,
+      token,
+      t("reconnect.failed"),
+      true
+    );
+  }
+}
+
+/**
+ * ステータスコマンドの処理
+ */
+async function handleStatusCommand(
+  c: any,
+  interaction: APIInteraction,
+  discordApiService: DiscordApiService,
+  token: string
+): Promise<void> {
+  const t = await getTranslator(c, interaction);
+  try {
+    const guildId = interaction.guild_id;
+    if (!guildId) {
+      await discordApiService.editDeferredResponse(
+        c.env.DISCORD_APPLICATION_ID,
+        token,
+        t("common.guildOnly"),
+        true
+      );
+      return;
+    }
+
+    if (
+      !(await ensureAdminPermission(c, interaction, discordApiService, token))
+    ) {
+      return;
+    }
+
+    const serverConfigService = new ServerConfigService(c.env);
+    const status = await serverConfigService.getServerStatus(guildId);
+
+    if (!status.configured) {
+      await discordApiService.editDeferredResponse(
+        c.env.DISCORD_APPLICATION_ID,
+        token,
+        t("config.notConfigured"),
+        true
+      );
+      return;
+    }
+
+    const createdDate = status.createdAt
+      ? new Date(status.createdAt).toLocaleDateString(
+          t.language === "ja" ? "ja-JP" : "en-US"
+        )
+      : t("common.unknown");
+
+    const adminRoles = status.adminRoleIds?.length
+      ? status.adminRoleIds.map((roleId) => `<@&${roleId}>`).join(", ")
+      : t("common.notSet");
+
+    // 保存先に書き込めず送信待ちになっている打刻の件数
+    const outbox = await getAttendanceCoordinator(
+      c.env,
+      guildId
+    ).getOutboxStatus();
+    const { timeZone } = await serverConfigService.getTimeSettings(guildId);
+    const backlog = outbox.pending
+      ? t("config.backlogPending", {
+          count: outbox.pending,
+          since: formatDateTime(
+            new Date(outbox.oldestEnqueuedAt || Date.now()),
+            timeZone
+          ),
+          error: outbox.lastError || "-",
+        })
+      : t("config.backlogEmpty");
+
+    // 再送しても反映できなかった打刻（新しいものから数件の内容を表示）
+    // メンバーの記録・エラーの詳細を含むため、/config は実行した管理者のみに表示する（EPHEMERAL_COMMANDS）
+    const failedWrites = outbox.failedCount
+      ? t("config.failedWrites", {
+          count: outbox.failedCount,
+          details: outbox.recentFailures
+            .map((failure) =>
+              t("config.failedWriteItem", {
+                punchedAt: formatDateTime(new Date(failure.punchedAt), timeZone),
+                operation: t(`config.operation.${failure.operation}`),
+                user: failure.userId
+                  ? t("config.failedWriteUser", { userId: failure.userId })
+                  : "",
+                recordId: failure.recordId,
+                error: failure.errorCode
+                  ? t(`config.failureReason.${failure.errorCode}`)
+                  : failure.error || "-",
+              })
+            )
+            .join("\n"),
+        })
+      : t("config.failedWritesEmpty");
+
+    let storage = t("config.storageSheets", {
+      spreadsheetUrl: status.spreadsheetUrl || "",
+    });
+    if (status.storage === "d1") {
+      storage = status.spreadsheetUrl
+        ? t("config.storageD1Mirror", { spreadsheetUrl: status.spreadsheetUrl })
+        : t("config.storageD1");
+    }
+
+    await discordApiService.editDeferredResponse(
+      c.env.DISCORD_APPLICATION_ID,
+      token,
+      t("config.status", {
+        storage,
+        createdAt: createdDate,
+        ownerId: status.ownerId || "",
+        adminRoles,
+        backlog,
+        failedWrites,
+      })
+    );
+  } catch (error) {
+    console.error("Status command error:", error);
+    await discordApiService.editDeferredResponse(
+      c.env.DISCORD_APPLICATION_ID,
+      token,
+      t("config.failed"),
+      true
+    );
+  }
+}
+
+/**
+ * リセットコマンドの処理
+ */
+async function handleResetCommand(
+  c: any,
+  interaction: APIInteraction,
+  discordApiService: DiscordApiService,
+  token: string
+): Promise<void> {
+  const t = await getTranslator(c, interaction);
+  try {
+    // 管理者権限チェック
+    const member = interaction.member;
+    if (!member || !member.roles) {
+      await discordApiService.editDeferredResponse(
+        c.env.DISCORD_APPLICATION_ID,
+        token,
+        t("common.permissionUnknown"),
+        true
+      );
+      return;
+    }
+
+    const guildId = interaction.guild_id;
+    if (!guildId) {
+      await discordApiService.editDeferredResponse(
+        c.env.DISCORD_APPLICATION_ID,
+        token,
+        t("common.guildOnly"),
+        true
+      );
+      return;
+    }
+
+    if (
+      !(await ensureAdminPermission(c, interaction, discordApiService, token))
+    ) {
+      return;
+    }
+
+    const serverConfigService = new ServerConfigService(c.env);
+    const hasConfig = await serverConfigService.hasServerConfig(guildId);
+
+    if (!hasConfig) {
+      await discordApiService.editDeferredResponse(
+        c.env.DISCORD_APPLICATION_ID,
+        token,
+        t("common.setupRequired"),
+        true
+      );
+      return;
+    }
+
+    // 設定を取得してトークンを取り消し（Google 連携なしのサーバーはトークンがない）
+    const config = await serverConfigService.getServerConfig(guildId);
+    if (config?.access_token) {
+      try {
+        const oauthService = new OAuthService(c.env);
+        await oauthService.revokeToken(config.access_token);
+      } catch (error) {
+        console.warn("Failed to revoke token:", error);
+        // トークン取り消しに失敗しても設定削除は続行
+      }
+    }
+
+    // 設定を削除（勤務中セッションの索引・送信待ちキューも削除する）
+    await serverConfigService.deleteServerConfig(guildId);
+    await resetAttendanceCoordinator(c.env, guildId);
+
+    await discordApiService.editDeferredResponse(
+      c.env.DISCORD_APPLICATION_ID,
+      token,
+      t("reset.success"),
+      true
+    );
+  } catch (error) {
+    console.error("Reset command error:", error);
+    await discordApiService.editDeferredResponse(
+      c.env.DISCORD_APPLICATION_ID,
+      token,
+      t("reset.failed"),
+      true
+    );
+  }
+}
+
+// セットアップガイドページ
+app.get("/init-guide", async (c) => {
+  const url = new URL(c.req.url);
+  const guildId = url.searchParams.get("guild");
+  const state = url.searchParams.get("state");
+  const type = url.searchParams.get("type");
+  const t = getPageTranslator(c);
+
+  if (
+    !guildId ||
+    !state ||
+    type !== "oauth_init" ||
+    !SNOWFLAKE_PATTERN.test(guildId) ||
+    !UUID_PATTERN.test(state)
+  ) {
+    return c.html(renderInvalidRequestPage(t));
+  }
+
+  // セットアップガイドHTML（直接OAuth方式用）
+  return c.html(
+    renderInitGuidePage(t, {
+      guildId,
+      state,
+      nonce: c.get("secureHeadersNonce"),
+    })
+  );
+});
+
+// OAuth認証情報登録API
+app.post("/api/register-oauth", async (c) => {
+  const t = getPageTranslator(c);
+  try {
+    const { guildId, clientId, clientSecret, state } = await c.req.json();
+
+    if (!guildId || !clientId || !clientSecret || !state) {
+      return c.json({
+        success: false,
+        error: t("api.missingParams"),
+      });
+    }
+
+    // 実行者は state（/init を実行した管理者に紐付いている）で認証する
+    const oauthService = new OAuthService(c.env);
+    const result = await oauthService.registerOAuthCredentials(
+      guildId,
+      clientId,
+      clientSecret,
+      state,
+      t
+    );
+
+    return c.json(result);
+  } catch (error) {
+    console.error("OAuth registration error:", error);
+    return c.json({
+      success: false,
+      error: t("api.registerFailed"),
+    });
+  }
+});
+
+/**
+ * 勤怠管理者ロールの設定コマンドの処理
+ */
+async function handleAdminRoleCommand(
+  c: any,
+  interaction: APIInteraction,
+  discordApiService: DiscordApiService,
+  token: string
+): Promise<void> {
+  const t = await getTranslator(c, interaction);
+  try {
+    const guildId = interaction.guild_id;
+    if (!guildId) {
+      await discordApiService.editDeferredResponse(
+        c.env.DISCORD_APPLICATION_ID,
+        token,
+        t("common.guildOnly"),
+        true
+      );
+      return;
+    }
+
+    if (
+      !(await ensureAdminPermission(c, interaction, discordApiService, token))
+    ) {
+      return;
+    }
+
+    const serverConfigService = new ServerConfigService(c.env);
+    const config = await serverConfigService.getServerConfig(guildId);
+    if (!config) {
+      await discordApiService.editDeferredResponse(
+        c.env.DISCORD_APPLICATION_ID,
+        token,
+        t("common.setupRequired"),
+        true
+      );
+      return;
+    }
+
+    const subcommand = getSubcommand(interaction);
+    const roleId = subcommand.options.role as string | undefined;
+    const adminRoleIds = config.admin_role_ids || [];
+
+    switch (subcommand.name) {
+      case "add": {
+        if (!roleId) break;
+        if (!adminRoleIds.includes(roleId)) {
+          await serverConfigService.updateServerSettings(guildId, {
+            admin_role_ids: [...adminRoleIds, roleId],
+          });
+        }
+        await discordApiService.editDeferredResponse(
+          c.env.DISCORD_APPLICATION_ID,
+          token,
+          t("adminRole.added", { roleId }),
+          true
+        );
+        return;
+      }
+      case "remove": {
+        if (!roleId) break;
+        await serverConfigService.updateServerSettings(guildId, {
+          admin_role_ids: adminRoleIds.filter((id) => id !== roleId),
+        });
+        await discordApiService.editDeferredResponse(
+          c.env.DISCORD_APPLICATION_ID,
+          token,
+          t("adminRole.removed", { roleId }),
+          true
+        );
+        return;
+      }
+      case "list": {
+        const roles = adminRoleIds.length
+          ? adminRoleIds.map((id) => `- <@&${id}>`).join("\n")
+          : t("common.notSet");
+        await discordApiService.editDeferredResponse(
+          c.env.DISCORD_APPLICATION_ID,
+          token,
+          t("adminRole.list", { roles }),
+          true
+        );
+        return;
+      }
+    }
+
+    await discordApiService.editDeferredResponse(
+      c.env.DISCORD_APPLICATION_ID,
+      token,
+      t("common.unknownSubcommand"),
+      true
+    );
+  } catch (error) {
+    console.error("Admin role command error:", error);
+    await discordApiService.editDeferredResponse(
+      c.env.DISCORD_APPLICATION_ID,
+      token,
+      t("adminRole.failed"),
+      true
+    );
+  }
+}
+
+/**
+ * 打刻できるチャンネルの設定コマンドの処理（管理者のみ）
+ * チャンネルの代わりにカテゴリーを指定すると、配下の全てのチャンネルが対象になる
+ */
+async function handleChannelsCommand(
+  c: any,
+  interaction: APIInteraction,
+  discordApiService: DiscordApiService,
+  token: string
+): Promise<void> {
+  const t = await getTranslator(c, interaction);
+  try {
+    const guildId = interaction.guild_id;
+    if (!guildId) {
+      await discordApiService.editDeferredResponse(
+        c.env.DISCORD_APPLICATION_ID,
+        token,
+        t("common.guildOnly"),
+        true
+      );
+      return;
+    }
+
+    if (
+      !(await ensureAdminPermission(c, interaction, discordApiService, token))
+    ) {
+      return;
+    }
+
+    const serverConfigService = new ServerConfigService(c.env);
+    const config = await serverConfigService.getServerConfig(guildId);
+    if (!config) {
+      await discordApiService.editDeferredResponse(
+        c.env.DISCORD_APPLICATION_ID,
+        token,
+        t("common.setupRequired"),
+        true
+      );
+      return;
+    }
+
+    const subcommand = getSubcommand(interaction);
+    const channelId = subcommand.options.channel as string | undefined;
+    const allowedIds = config.channel_rules?.allowed_ids || [];
+    const deniedIds = config.channel_rules?.denied_ids || [];
+
+    // 許可・禁止のどちらも空になった場合は設定ごと削除する
+    const saveRules = (rules: ChannelRules) =>
+      serverConfigService.updateServerSettings(guildId, {
+        channel_rules:
+          rules.allowed_ids?.length || rules.denied_ids?.length
+            ? rules
+            : undefined,
+      });
+    // 同じ場所を許可と禁止の両方に登録しないよう、追加時はもう一方から取り除く
+    const without = (ids: string[]) => ids.filter((id) => id !== channelId);
+
+    const reply = (message: string) =>
+      discordApiService.editDeferredResponse(
+        c.env.DISCORD_APPLICATION_ID,
+        token,
+        message,
+        true
+      );
+
+    switch (subcommand.name) {
+      case "allow":
+        if (!channelId) break;
+        await saveRules({
+          allowed_ids: [...without(allowedIds), channelId],
+          denied_ids: without(deniedIds),
+        });
+        await reply(t("channels.allowed", { channelId }));
+        return;
+      case "deny":
+        if (!channelId) break;
+        await saveRules({
+          allowed_ids: without(allowedIds),
+          denied_ids: [...without(deniedIds), channelId],
+        });
+        await reply(t("channels.denied", { channelId }));
+        return;
+      case "remove":
+        if (!channelId) break;
+        await saveRules({
+          allowed_ids: without(allowedIds),
+          denied_ids: without(deniedIds),
+        });
+        await reply(t("channels.removed", { channelId }));
+        return;
+      case "clear":
+        await saveRules({});
+        await reply(t("channels.cleared"));
+        return;
+      case "list": {
+        const places = (ids: string[]) =>
+          ids.map((id) => `- <#${id}>`).join("\n");
+        await reply(
+          t("channels.list", {
+            allowed: allowedIds.length
+              ? places(allowedIds)
+              : t("channels.anywhere"),
+            denied: deniedIds.length ? places(deniedIds) : t("common.notSet"),
+          })
+        );
+        return;
+      }
+    }
+
+    await reply(t("common.unknownSubcommand"));
+  } catch (error) {
+    console.error("Channels command error:", error);
+    await discordApiService.editDeferredResponse(
+      c.env.DISCORD_APPLICATION_ID,
+      token,
+      t("channels.failed"),
+      true
+    );
+  }
+}
+
+/**
+ * 終了打刻忘れの自動終了設定コマンド（管理者のみ）
+ * オプション未指定の場合は現在の設定を表示
+ */
+async function handleAutoCloseCommand(
+  c: any,
+  interaction: APIInteraction,
+  discordApiService: DiscordApiService,
+  token: string
+): Promise<void> {
+  const t = await getTranslator(c, interaction);
+  try {
+    const guildId = interaction.guild_id;
+    if (!guildId) {
+      await discordApiService.editDeferredResponse(
+        c.env.DISCORD_APPLICATION_ID,
+        token,
+        t("common.guildOnly"),
+        true
+      );
+      return;
+    }
+
+    if (
+      !(await ensureAdminPermission(c, interaction, discordApiService, token))
+    ) {
+      return;
+    }
+
+    const serverConfigService = new ServerConfigService(c.env);
+    const config = await serverConfigService.getServerConfig(guildId);
+    if (!config) {
+      await discordApiService.editDeferredResponse(
+        c.env.DISCORD_APPLICATION_ID,
+        token,
+        t("common.setupRequired"),
+        true
+      );
+      return;
+    }
+
+    const options = getCommandOptions(interaction);
+    const settings: Partial<ServerSettings> = {};
+    if (options.max_hours !== undefined) {
+      settings.auto_close_max_hours = Number(options.max_hours);
+    }
+    if (options.policy !== undefined) {
+      settings.auto_close_policy = options.policy as AutoClosePolicy;
+    }
+
+    const updated = Object.keys(settings).length > 0;
+    if (updated) {
+      await serverConfigService.updateServerSettings(guildId, settings);
+    }
+
+    const maxHours =
+      settings.auto_close_max_hours ||
+      config.auto_close_max_hours ||
+      DEFAULT_AUTO_CLOSE_MAX_HOURS;
+    const policy =
+      settings.auto_close_policy ||
+      config.auto_close_policy ||
+      DEFAULT_AUTO_CLOSE_POLICY;
+    const policyLabel =
+      policy === "last_activity"
+        ? t("autoClose.policyLastActivity")
+        : t("autoClose.policyMaxLength", { hours: maxHours });
+
+    await discordApiService.editDeferredResponse(
+      c.env.DISCORD_APPLICATION_ID,
+      token,
+      t("autoClose.summary", {
+        heading: t(updated ? "autoClose.updated" : "autoClose.title"),
+        hours: maxHours,
+        policy: policyLabel,
+      }),
+      true
+    );
+  } catch (error) {
+    console.error("Auto close command error:", error);
+    await discordApiService.editDeferredResponse(
+      c.env.DISCORD_APPLICATION_ID,
+      token,
+      t("autoClose.failed"),
+      true
+    );
+  }
+}
+
+/**
+ * ダイジェストの設定コマンド（管理者のみ）
+ * オプション未指定の場合は現在の設定を表示
+ */
+async function handleDigestCommand(
+  c: any,
+  interaction: APIInteraction,
+  discordApiService: DiscordApiService,
+  token: string
+): Promise<void> {
+  const t = await getTranslator(c, interaction);
+  try {
+    const guildId = interaction.guild_id;
+    if (!guildId) {
+      await discordApiService.editDeferredResponse(
+        c.env.DISCORD_APPLICATION_ID,
+        token,
+        t("common.guildOnly"),
+        true
+      );
+      return;
+    }
+
+    if (
+      !(await ensureAdminPermission(c, interaction, discordApiService, token))
+    ) {
+      return;
+    }
+
+    const serverConfigService = new ServerConfigService(c.env);
+    const config = await serverConfigService.getServerConfig(guildId);
+    if (!config) {
+      await discordApiService.editDeferredResponse(
+        c.env.DISCORD_APPLICATION_ID,
+        token,
+        t("common.setupRequired"),
+        true
+      );
+      return;
+    }
+
+    const options = getCommandOptions(interaction);
+    const settings: Partial<ServerSettings> = {};
+    if (options.disable) {
+      settings.digest_channel_id = undefined;
+    } else if (options.channel !== undefined) {
+      settings.digest_channel_id = String(options.channel);
+    }
+    if (options.hour !== undefined) {
+      settings.digest_hour = Number(options.hour);
+    }
+    if (options.weekly !== undefined) {
+      settings.digest_weekly = Boolean(options.weekly);
+    }
+
+    const updated = Object.keys(settings).length > 0;
+    if (updated) {
+      await serverConfigService.updateServerSettings(guildId, settings);
+    }
+
+    const current = { ...config, ...settings };
+    const heading = options.disable
+      ? "digest.disabled"
+      : updated
+      ? "digest.updated"
+      : "digest.title";
+
+    await discordApiService.editDeferredResponse(
+      c.env.DISCORD_APPLICATION_ID,
+      token,
+      t("digest.summary", {
+        heading: t(heading),
+        channel: current.digest_channel_id
+          ? `<#${current.digest_channel_id}>`
+          : t("digest.notConfigured"),
+        hour: current.digest_hour ?? DEFAULT_DIGEST_HOUR,
+        timezone: getTimeSettings(current).timeZone,
+        weekly: t(
+          current.digest_weekly === false ? "digest.weeklyOff" : "digest.weeklyOn"
+        ),
+      }),
+      true
+    );
+  } catch (error) {
+    console.error("Digest command error:", error);
+    await discordApiService.editDeferredResponse(
+      c.env.DISCORD_APPLICATION_ID,
+      token,
+      t("digest.failed"),
+      true
+    );
+  }
+}
+
+/**
+ * タイムゾーン・ロケール設定コマンド（管理者のみ）
+ * オプション未指定の場合は現在の設定を表示
+ */
+async function handleTimezoneCommand(
+  c: any,
+  interaction: APIInteraction,
+  discordApiService: DiscordApiService,
+  token: string
+): Promise<void> {
+  const t = await getTranslator(c, interaction);
+  try {
+    const guildId = interaction.guild_id;
+    if (!guildId) {
+      await discordApiService.editDeferredResponse(
+        c.env.DISCORD_APPLICATION_ID,
+        token,
+        t("common.guildOnly"),
         true
       );
       return;
     }
 
-    // 既に設定済みかチェック
-    const serverConfigService = new ServerConfigService(c.env);
-    const hasConfig = await serverConfigService.hasServerConfig(guildId);
+    if (
+      !(await ensureAdminPermission(c, interaction, discordApiService, token))
+    ) {
+      return;
+    }
 
-    if (hasConfig) {
+    const serverConfigService = new ServerConfigService(c.env);
+    const config = await serverConfigService.getServerConfig(guildId);
+    if (!config) {
       await discordApiService.editDeferredResponse(
         c.env.DISCORD_APPLICATION_ID,
         token,
-        "⚠️ 既に設定が完了しています。\n設定を変更したい場合は `/reset` コマンドで一度リセットしてください。",
+        t("common.setupRequired"),
         true
       );
       return;
     }
 
-    // OAuth URLを生成
-    const oauthService = new OAuthService(c.env);
-    const userId = interaction.user?.id || interaction.member?.user?.id;
-    if (!userId) {
+    const options = getCommandOptions(interaction);
+    const timezone = (options.timezone as string | undefined)?.trim();
+    const locale = options.locale as string | undefined;
+
+    if (timezone && !isValidTimeZone(timezone)) {
       await discordApiService.editDeferredResponse(
         c.env.DISCORD_APPLICATION_ID,
         token,
-        "❌ ユーザー情報を取得できませんでした。",
+        t("timezone.invalid", { timezone }),
         true
       );
       return;
     }
 
-    const authUrl = await oauthService.generateAuthUrl(guildId, userId);
-
-    await discordApiService.editDeferredResponse(
-      c.env.DISCORD_APPLICATION_ID,
-      token,
-      `## 🔧 勤怠管理システム初期設定
+    const settings: Partial<ServerSettings> = {};
+    if (timezone) settings.timezone = timezone;
+    if (locale) settings.locale = locale;
 
-Google スプレッドシートとの連携設定を行います。
+    const updated = Object.keys(settings).length > 0;
+    const timeSettings = getTimeSettings({ ...config, ...settings });
+    let sheetMessage = "";
 
-### 手順
-1. 下記のリンクをクリックしてGoogle認証を完了してください
-2. 認証完了後、自動でスプレッドシートが作成されます
-3. \`/config\` コマンドで設定を確認できます
+    if (updated) {
+      await serverConfigService.updateServerSettings(guildId, settings);
 
-**🔗 認証リンク**
-${authUrl}
+      // スプレッドシート側の設定も合わせて更新（数式の日時解釈に使われる）
+      if (hasSpreadsheet(config)) {
+        const sheetsService = new SheetsService(c.env, undefined, timeSettings);
+        const sheetResult = await sheetsService.updateSpreadsheetTimeSettings(
+          config.access_token,
+          config.spreadsheet_id,
+          guildId
+        );
+        sheetMessage = sheetResult.success
+          ? t("timezone.sheetUpdated")
+          : t("timezone.sheetUpdateFailed", {
+              error: sheetResult.error || t("common.unknown"),
+            });
+      }
+    }
 
-⚠️ **注意事項**
-- 管理者のみがこの設定を行えます
-- Google アカウントでスプレッドシートの作成権限が必要です
-- 認証リンクは10分間有効です`,
+    await discordApiService.editDeferredResponse(
+      c.env.DISCORD_APPLICATION_ID,
+      token,
+      t("timezone.summary", {
+        heading: t(updated ? "timezone.updated" : "timezone.title"),
+        timezone: timeSettings.timeZone,
+        locale: timeSettings.locale,
+        now: formatDateTime(new Date(), timeSettings.timeZone),
+        sheetMessage,
+        note: updated ? t("timezone.existingRecordsNote") : "",
+      }),
       true
     );
   } catch (error) {
-    console.error("Setup command error:", error);
+    console.error("Timezone command error:", error);
     await discordApiService.editDeferredResponse(
       c.env.DISCORD_APPLICATION_ID,
       token,
-      "❌ セットアップ処理中にエラーが発生しました。しばらく待ってから再試行してください。",
+      t("timezone.failed"),
       true
     );
   }
 }
 
 /**
- * ステータスコマンドの処理
+ * 言語設定コマンド（管理者のみ）
+ * オプション未指定の場合は現在の設定を表示、auto の場合はサーバー別の設定を解除
  */
-async function handleStatusCommand(
+async function handleLanguageCommand(
   c: any,
   interaction: APIInteraction,
   discordApiService: DiscordApiService,
   token: string
 ): Promise<void> {
+  let t = await getTranslator(c, interaction);
   try {
     const guildId = interaction.guild_id;
     if (!guildId) {
       await discordApiService.editDeferredResponse(
         c.env.DISCORD_APPLICATION_ID,
         token,
-        "❌ このコマンドはサーバー内でのみ使用できます。",
+        t("common.guildOnly"),
         true
       );
       return;
     }
 
-    const serverConfigService = new ServerConfigService(c.env);
-    const status = await serverConfigService.getServerStatus(guildId);
+    if (
+      !(await ensureAdminPermission(c, interaction, discordApiService, token))
+    ) {
+      return;
+    }
 
-    if (!status.configured) {
+    const serverConfigService = new ServerConfigService(c.env);
+    if (!(await serverConfigService.hasServerConfig(guildId))) {
       await discordApiService.editDeferredResponse(
         c.env.DISCORD_APPLICATION_ID,
         token,
-        `## ⚙️ 設定状況
-
-❌ **未設定**
-
-勤怠管理システムが設定されていません。
-\`/init\` コマンドで初期設定を行ってください。
-
-**必要な権限**: 管理者`,
+        t("common.setupRequired"),
         true
       );
       return;
     }
 
-    const createdDate = status.createdAt
-      ? new Date(status.createdAt).toLocaleDateString("ja-JP")
-      : "不明";
+    const option = getCommandOptions(interaction).language as
+      | string
+      | undefined;
+    const updated = option === "auto" || isSupportedLanguage(option || "");
+    let language = await serverConfigService.getLanguage(guildId);
+
+    if (updated) {
+      language = option === "auto" ? undefined : (option as Language);
+      await serverConfigService.updateServerSettings(guildId, { language });
+      // 変更後の言語で応答する
+      t = createTranslator(resolveLanguage(interaction, language));
+    }
 
     await discordApiService.editDeferredResponse(
       c.env.DISCORD_APPLICATION_ID,
       token,
-      `## ⚙️ 設定状況
-
-✅ **設定完了**
-
-**📊 スプレッドシート**
-${status.spreadsheetUrl}
-
-**📅 設定日時**: ${createdDate}
-**👤 設定者**: <@${status.ownerId}>
-
-**利用可能なコマンド**
-- \`/start\` - 勤務開始
-- \`/end\` - 勤務終了
-- \`/reset\` - 設定リセット（管理者のみ）`
+      t("language.summary", {
+        heading: t(updated ? "language.updated" : "language.title"),
+        language: language ? t(`language.name.${language}`) : t("language.auto"),
+      }),
+      true
     );
   } catch (error) {
-    console.error("Status command error:", error);
+    console.error("Language command error:", error);
     await discordApiService.editDeferredResponse(
       c.env.DISCORD_APPLICATION_ID,
       token,
-      "❌ ステータス確認中にエラーが発生しました。",
+      t("language.failed"),
       true
     );
   }
 }
 
 /**
- * リセットコマンドの処理
+ * スプレッドシートの列の配置設定コマンド（管理者のみ）
+ * オプション未指定の場合は現在の設定を表示、reset の場合は既定の配置に戻す
  */
-async function handleResetCommand(
+async function handleColumnsCommand(
   c: any,
   interaction: APIInteraction,
   discordApiService: DiscordApiService,
   token: string
 ): Promise<void> {
+  const t = await getTranslator(c, interaction);
   try {
-    // 管理者権限チェック
-    const member = interaction.member;
-    if (!member || !member.roles) {
+    const guildId = interaction.guild_id;
+    if (!guildId) {
       await discordApiService.editDeferredResponse(
         c.env.DISCORD_APPLICATION_ID,
         token,
-        "❌ 権限を確認できませんでした。",
+        t("common.guildOnly"),
         true
       );
       return;
     }
 
-    const guildId = interaction.guild_id;
-    if (!guildId) {
-      await discordApiService.editDeferredResponse(
-        c.env.DISCORD_APPLICATION_ID,
-        token,
-        "❌ このコマンドはサーバー内でのみ使用できます。",
-        true
-      );
+    if (
+      !(await ensureAdminPermission(c, interaction, discordApiService, token))
+    ) {
       return;
     }
 
     const serverConfigService = new ServerConfigService(c.env);
-    const hasConfig = await serverConfigService.hasServerConfig(guildId);
-
-    if (!hasConfig) {
+    if (!(await serverConfigService.hasServerConfig(guildId))) {
       await discordApiService.editDeferredResponse(
         c.env.DISCORD_APPLICATION_ID,
         token,
-        "⚠️ 設定が見つかりません。\n`/init` コマンドで初期設定を行ってください。",
+        t("common.setupRequired"),
         true
       );
       return;
     }
 
-    // 設定を取得してトークンを取り消し
-    const config = await serverConfigService.getServerConfig(guildId);
-    if (config) {
-      try {
-        const oauthService = new OAuthService(c.env);
-        await oauthService.revokeToken(config.access_token);
-      } catch (error) {
-        console.warn("Failed to revoke token:", error);
-        // トークン取り消しに失敗しても設定削除は続行
+    const options = getCommandOptions(interaction);
+    const field = (options.field as string | undefined)?.toUpperCase() as
+      | KintaiColumn
+      | undefined;
+    const column = (options.column as string | undefined)?.trim();
+    let layout = await serverConfigService.getColumnLayout(guildId);
+    let heading = t("columns.title");
+    let note = "";
+
+    if (options.reset) {
+      await serverConfigService.updateServerSettings(guildId, {
+        column_layout: undefined,
+      });
+      layout = resolveColumnLayout();
+
+      heading = t("columns.reset");
+    } else if (field || column) {
+      if (!field || !column || !KINTAI_FIELDS.includes(field)) {
+        await discordApiService.editDeferredResponse(
+          c.env.DISCORD_APPLICATION_ID,
+          token,
+          t("columns.missingOption"),
+          true
+        );
+        return;
+      }
+
+      const index = parseColumnLetter(column);
+      if (index === null) {
+        await discordApiService.editDeferredResponse(
+          c.env.DISCORD_APPLICATION_ID,
+          token,
+          t("columns.invalidColumn", { column }),
+          true
+        );
+        return;
+      }
+
+      // 移動先の列を使っている項目とは列を入れ替える（同じ列に2つの項目を置かない）
+      const occupant = KINTAI_FIELDS.find(
+        (other) => other !== field && layout[other] === index
+      );
+      if (occupant) {
+        layout[occupant] = layout[field];
+        note = t("columns.swapped", {
+          header: KINTAI_HEADERS[occupant],
+          column: toColumnLetter(layout[occupant]),
+        });
       }
+      layout[field] = index;
+
+      await serverConfigService.updateServerSettings(guildId, {
+        column_layout: layout,
+      });
+      heading = t("columns.updated");
     }
 
-    // 設定を削除
-    await serverConfigService.deleteServerConfig(guildId);
+    const columns = [...KINTAI_FIELDS]
+      .sort((a, b) => layout[a] - layout[b])
+      .map((item) =>
+        t("columns.line", {
+          column: toColumnLetter(layout[item]),
+          header: KINTAI_HEADERS[item],
+        })
+      )
+      .join("\n");
 
     await discordApiService.editDeferredResponse(
       c.env.DISCORD_APPLICATION_ID,
       token,
-      `## 🗑️ 設定リセット完了
-
-✅ 勤怠管理システムの設定がリセットされました。
-
-**削除された内容**
-- Google アカウントとの連携
-- スプレッドシートの関連付け
-- 保存されていた認証情報
-
-**次の手順**
-新しく設定する場合は \`/init\` コマンドを実行してください。
-
-⚠️ **注意**: スプレッドシート自体は削除されません。`,
+      t("columns.summary", { heading, note, columns }),
       true
     );
   } catch (error) {
-    console.error("Reset command error:", error);
+    console.error("Columns command error:", error);
     await discordApiService.editDeferredResponse(
       c.env.DISCORD_APPLICATION_ID,
       token,
-      "❌ リセット処理中にエラーが発生しました。",
+      t("columns.failed"),
       true
     );
   }
 }
 
-// セットアップガイドページ
-app.get("/init-guide", async (c) => {
-  const url = new URL(c.req.url);
-  const guildId = url.searchParams.get("guild");
-  const state = url.searchParams.get("state");
-  const type = url.searchParams.get("type");
-
-  if (!guildId || !state || type !== "oauth_init") {
-    return c.html(`
-      <html>
-        <head><title>無効なリクエスト</title></head>
-        <body>
-          <h1>❌ 無効なリクエストです</h1>
-          <p>Discordに戻って /init コマンドを再実行してください。</p>
-        </body>
-      </html>
-    `);
+/**
+ * 勤怠パネル設置コマンド（管理者のみ）
+ * 出勤・休憩・再開・退勤ボタン付きのメッセージをチャンネルに投稿
+ */
+async function handlePanelCommand(
+  c: any,
+  interaction: APIInteraction,
+  discordApiService: DiscordApiService,
+  token: string
+): Promise<void> {
+  const guildId = interaction.guild_id;
+  const channelId = interaction.channel_id;
+  const t = await getTranslator(c, interaction);
+  if (!guildId || !channelId) {
+    await discordApiService.editDeferredResponse(
+      c.env.DISCORD_APPLICATION_ID,
+      token,
+      t("common.guildOnly"),
+      true
+    );
+    return;
   }
 
-  // セットアップガイドHTML（直接OAuth方式用）
-  return c.html(`
-    <!DOCTYPE html>
-    <html lang="ja">
-    <head>
-        <meta charset="UTF-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>勤怠管理Bot - Google認証設定</title>
-        <style>
-            body { 
-                font-family: Arial, sans-serif; 
-                max-width: 800px; 
-                margin: 0 auto; 
-                padding: 20px; 
-                line-height: 1.6;
-            }
-            .step { 
-                background: #f5f5f5; 
-                padding: 15px; 
-                margin: 10px 0; 
-                border-radius: 5px; 
-            }
-            .warning { 
-                background: #fff3cd; 
-                border: 1px solid #ffeaa7; 
-                padding: 10px; 
-                border-radius: 5px; 
-            }
-            .success { 
-                background: #d4edda; 
-                border: 1px solid #c3e6cb; 
-                padding: 10px; 
-                border-radius: 5px; 
-            }
-            code { 
-                background: #e9ecef; 
-                padding: 2px 4px; 
-                border-radius: 3px; 
-                word-break: break-all;
-            }
-            .form-group {
-                margin: 15px 0;
-            }
-            input[type="text"] {
-                width: 100%;
-                padding: 8px;
-                border: 1px solid #ddd;
-                border-radius: 4px;
-                box-sizing: border-box;
-            }
-            button {
-                background: #007bff;
-                color: white;
-                padding: 10px 20px;
-                border: none;
-                border-radius: 4px;
-                cursor: pointer;
-            }
-            button:hover {
-                background: #0056b3;
-            }
-            .loading {
-                display: none;
-            }
-        </style>
-    </head>
-    <body>
-        <h1>🔧 勤怠管理Bot - Google認証設定</h1>
-        
-        <div class="warning">
-            <h3>⚠️ 重要な注意事項</h3>
-            <p>この設定により、<strong>あなたのGoogleアカウント</strong>にスプレッドシートが作成されます。</p>
-            <p>勤怠データはあなたのGoogle Driveに保存され、Botの開発者はアクセスできません。</p>
-        </div>
-
-        <h2>📋 設定手順</h2>
-        
-        <div class="step">
-            <h3>Step 1: Google Cloud Projectの作成</h3>
-            <ol>
-                <li><a href="https://console.cloud.google.com/" target="_blank">Google Cloud Console</a>にアクセス</li>
-                <li>新しいプロジェクトを作成（または既存のプロジェクトを選択）</li>
-                <li>プロジェクト名: 例）「勤怠管理Bot用」</li>
-            </ol>
-        </div>
-
-        <div class="step">
-            <h3>Step 2: OAuth同意画面の設定</h3>
-            <ol>
-                <li>「APIとサービス」→「OAuth同意画面」</li>
-                <li>User Type: 「外部」を選択して「作成」をクリック</li>
-                <li>アプリ情報を入力：
-                    <ul>
-                        <li>アプリ名: 「勤怠管理Bot」わかりやすい名前をつけてください</li>
-                        <li>ユーザーサポートメール: あなたのGmailアドレス</li>
-                        <li>デベロッパーの連絡先情報: あなたのGmailアドレス</li>
-                    </ul>
-                </li>
-                <li>「保存して次へ」をクリック</li>
-                <li>スコープ画面: 何も追加せず「保存して次へ」をクリック</li>
-                <li>テストユーザー画面: あなたのGmailアドレスを追加して「保存して次へ」</li>
-                <li>概要画面: 「ダッシュボードに戻る」をクリック</li>
-            </ol>
-            <div class="warning">
-                <p><strong>注意:</strong> 初回設定時は「テスト」状態です。</p>
-            </div>
-        </div>
-
-        <div class="step">
-            <h3>Step 3: Google Sheets APIの有効化</h3>
-            <ol>
-                <li>左側メニューから「APIとサービス」→「ライブラリ」</li>
-                <li>「Google Sheets API」を検索</li>
-                <li>「有効にする」をクリック</li>
-            </ol>
-        </div>
-
-        <div class="step">
-            <h3>Step 4: OAuth認証情報の作成</h3>
-            <ol>
-                <li>「APIとサービス」→「認証情報」</li>
-                <li>「認証情報を作成」→「OAuth クライアント ID」</li>
-                <li>アプリケーションの種類：「ウェブアプリケーション」</li>
-                <li>名前：「勤怠管理Bot」</li>
-                <li><strong>⚠️ 重要：</strong> 承認済みのリダイレクト URI に以下を<strong>正確に</strong>追加：<br>
-                    <code style="font-size: 14px; background: #f8f9fa; padding: 8px; display: block; margin: 5px 0; border: 2px solid #007bff;">https://kintai-discord-v2.nasubi.dev/oauth/callback</code>
-                    <div style="background: #fff3cd; padding: 8px; margin: 5px 0; border-radius: 4px; font-size: 12px;">
-                        <strong>注意:</strong> このURLを<strong>完全に一致</strong>するように入力してください。スペースや余分な文字があるとエラーになります。
-                    </div>
-                </li>
-                <li>「作成」をクリック</li>
-            </ol>
-        </div>
-
-        <div class="step">
-            <h3>Step 5: 認証情報の入力</h3>
-            <p>作成されたクライアント ID とクライアント シークレットを以下に入力してください：</p>
-            
-            <form id="oauth-form">
-                <div class="form-group">
-                    <label for="client-id">クライアント ID:</label>
-                    <input type="text" id="client-id" name="clientId" placeholder="例: 123456789-abcdef.apps.googleusercontent.com" required>
-                </div>
-                
-                <div class="form-group">
-                    <label for="client-secret">クライアント シークレット:</label>
-                    <input type="text" id="client-secret" name="clientSecret" placeholder="例: GOCSPX-abcdefghijklmnop" required>
-                </div>
-                
-                <button type="submit">認証を開始</button>
-                <div class="loading" id="loading">処理中...</div>
-            </form>
-        </div>
-
-        <div class="step">
-            <h3>🔧 トラブルシューティング</h3>
-            <div style="background: #f8d7da; border: 1px solid #f5c6cb; padding: 10px; border-radius: 4px;">
-                <h4>❌ "redirect_uri_mismatch" エラーが出る場合:</h4>
-                <ol>
-                    <li>Google Cloud Console の認証情報設定を再確認</li>
-                    <li>リダイレクトURIが以下と<strong>完全に一致</strong>しているか確認：<br>
-                        <code style="background: #fff; padding: 4px;">https://kintai-discord-v2.nasubi.dev/oauth/callback</code>
-                    </li>
-                    <li>設定を保存後、数分待ってから再試行</li>
-                    <li>ブラウザのキャッシュをクリアしてから再試行</li>
-                </ol>
-            </div>
-            <div style="background: #d1ecf1; border: 1px solid #bee5eb; padding: 10px; border-radius: 4px; margin-top: 10px;">
-                <h4>💡 確認のコツ:</h4>
-                <ul>
-                    <li>リダイレクトURIをコピー&ペーストで入力することを推奨</li>
-                    <li>末尾にスペースや改行が入っていないか確認</li>
-                    <li>HTTPSであることを確認（HTTPではない）</li>
-                </ul>
-            </div>
-        </div>
-
-        <div id="result"></div>
-
-        <script>
-            document.getElementById('oauth-form').addEventListener('submit', async function(e) {
-                e.preventDefault();
-                
-                const submitButton = e.target.querySelector('button[type="submit"]');
-                const loading = document.getElementById('loading');
-                
-                submitButton.style.display = 'none';
-                loading.style.display = 'block';
-                
-                const formData = new FormData(e.target);
-                const clientId = formData.get('clientId');
-                const clientSecret = formData.get('clientSecret');
-                
-                try {
-                    const response = await fetch('/api/register-oauth', {
-                        method: 'POST',
-                        headers: {
-                            'Content-Type': 'application/json',
-                        },
-                        body: JSON.stringify({
-                            guildId: '${guildId}',
-                            clientId,
-                            clientSecret,
-                            state: '${state}'
-                        })
-                    });
-                    
-                    const result = await response.json();
-                    
-                    if (result.success) {
-                        document.getElementById('result').innerHTML = \`
-                            <div class="success">
-                                <h3>✅ 認証情報が登録されました</h3>
-                                <p><a href="\${result.authUrl}" target="_blank">こちらをクリックしてGoogle認証を完了してください</a></p>
-                                <p>認証完了後、Discordに戻って勤怠管理が利用できます。</p>
-                            </div>
-                        \`;
-                    } else {
-                        document.getElementById('result').innerHTML = \`
-                            <div class="warning">
-                                <h3>❌ エラーが発生しました</h3>
-                                <p>\${result.error}</p>
-                            </div>
-                        \`;
-                        submitButton.style.display = 'block';
-                    }
-                } catch (error) {
-                    document.getElementById('result').innerHTML = \`
-                        <div class="warning">
-                            <h3>❌ 通信エラーが発生しました</h3>
-                            <p>\${error.message}</p>
-                        </div>
-                    \`;
-                    submitButton.style.display = 'block';
-                } finally {
-                    loading.style.display = 'none';
-                }
-            });
-        </script>
-    </body>
-    </html>
-  `);
-});
+  if (
+    !(await ensureAdminPermission(c, interaction, discordApiService, token))
+  ) {
+    return;
+  }
 
-// OAuth認証情報登録API
-app.post("/api/register-oauth", async (c) => {
-  try {
-    const { guildId, clientId, clientSecret, state } = await c.req.json();
+  const serverConfigService = new ServerConfigService(c.env);
+  if (!(await serverConfigService.hasServerConfig(guildId))) {
+    await discordApiService.editDeferredResponse(
+      c.env.DISCORD_APPLICATION_ID,
+      token,
+      t("common.setupRequired"),
+      true
+    );
+    return;
+  }
 
-    if (!guildId || !clientId || !clientSecret || !state) {
-      return c.json({
-        success: false,
-        error: "必要なパラメータが不足しています",
-      });
-    }
+  const button = (
+    customId: string,
+    label: string,
+    style: APIButtonComponentWithCustomId["style"]
+  ): APIButtonComponentWithCustomId => ({
+    type: ComponentType.Button,
+    custom_id: customId,
+    label,
+    style,
+  });
 
-    const oauthService = new OAuthService(c.env);
-    const result = await oauthService.registerOAuthCredentials(
-      guildId,
-      "", // userIdは後で取得
-      clientId,
-      clientSecret,
-      state
+  try {
+    await discordApiService.createChannelMessage(
+      channelId,
+      t("panel.message"),
+      [
+        {
+          type: ComponentType.ActionRow,
+          components: [
+            button(PANEL_CUSTOM_IDS.start, t("panel.start"), ButtonStyle.Success),
+            button(PANEL_CUSTOM_IDS.break, t("panel.break"), ButtonStyle.Secondary),
+            button(
+              PANEL_CUSTOM_IDS.resume,
+              t("panel.resume"),
+              ButtonStyle.Secondary
+            ),
+            button(PANEL_CUSTOM_IDS.end, t("panel.end"), ButtonStyle.Danger),
+          ],
+        },
+      ]
     );
 
-    return c.json(result);
+    await discordApiService.editDeferredResponse(
+      c.env.DISCORD_APPLICATION_ID,
+      token,
+      t("panel.success"),
+      true
+    );
   } catch (error) {
-    console.error("OAuth registration error:", error);
-    return c.json({
-      success: false,
-      error: "OAuth認証情報の登録に失敗しました",
-    });
+    console.error("Panel command error:", error);
+    await discordApiService.editDeferredResponse(
+      c.env.DISCORD_APPLICATION_ID,
+      token,
+      t("panel.failed"),
+      true
+    );
   }
-});
+}
 
 /**
- * Discord管理者権限をチェックする関数
+ * 管理者権限をチェックし、権限がない場合はエラーメッセージを返す
+ * @returns 管理者権限がある場合 true
  */
-function checkAdminPermissions(
-  member: any,
-  userId?: string,
-  guildId?: string
-): boolean {
-  // 1. サーバーオーナーチェック
-  if (userId && guildId && userId === guildId) {
+async function ensureAdminPermission(
+  c: any,
+  interaction: APIInteraction,
+  discordApiService: DiscordApiService,
+  token: string
+): Promise<boolean> {
+  const permissionService = new PermissionService(c.env);
+  const permission = await permissionService.checkAdminPermission(interaction);
+
+  if (permission.allowed) {
+    console.log(`Admin permission granted: ${permission.reason}`);
     return true;
   }
 
-  // 2. メンバーの権限ビットフィールドをチェック
-  if (member.permissions) {
-    const permissions = parseInt(member.permissions);
+  const t = await getTranslator(c, interaction);
+  await discordApiService.editDeferredResponse(
+    c.env.DISCORD_APPLICATION_ID,
+    token,
+    t("common.adminRequired"),
+    true
+  );
+  return false;
+}
 
-    // ADMINISTRATOR権限 (0x8) または MANAGE_GUILD権限 (0x20) をチェック
-    const ADMINISTRATOR = 0x8;
-    const MANAGE_GUILD = 0x20;
+/**
+ * 打刻（/start・/end・勤怠パネル）を実行したチャンネルがサーバーのチャンネルの制限で許可されているか確認し、
+ * 許可されていない場合は打刻できる場所を本人のみに表示する
+ * @returns 打刻できる場合は true
+ */
+async function ensurePunchChannelAllowed(
+  c: any,
+  interaction: APIInteraction,
+  discordApiService: DiscordApiService,
+  token: string
+): Promise<boolean> {
+  const guildId = interaction.guild_id;
+  const channelId = interaction.channel_id;
+  if (!guildId || !channelId) return true;
+
+  const rules = await new ServerConfigService(c.env).getChannelRules(guildId);
+  if (!rules?.allowed_ids?.length && !rules?.denied_ids?.length) return true;
+
+  // カテゴリー単位の制限に対応するため、親（カテゴリー・スレッドの親チャンネル）も対象にする
+  const scopeIds = [channelId];
+  const channel = interaction.channel;
+  const parentId =
+    channel && "parent_id" in channel ? channel.parent_id : undefined;
+  if (parentId) {
+    scopeIds.push(parentId);
+    if (channel && THREAD_CHANNEL_TYPES.includes(channel.type)) {
+      // スレッドの場合は親チャンネルのカテゴリーも対象にする
+      try {
+        const parent = await discordApiService.getChannel(parentId);
+        if (parent && "parent_id" in parent && parent.parent_id) {
+          scopeIds.push(parent.parent_id);
+        }
+      } catch (error) {
+        console.error("Failed to get thread parent channel:", error);
+      }
+    }
+  }
 
-    if (
-      (permissions & ADMINISTRATOR) === ADMINISTRATOR ||
-      (permissions & MANAGE_GUILD) === MANAGE_GUILD
-    ) {
-      return true;
+  if (isChannelAllowed(scopeIds, rules)) return true;
+
+  const t = await getTranslator(c, interaction);
+  const places = (ids: string[]) => ids.map((id) => `<#${id}>`).join(" ");
+  const lines = [];
+  if (rules.allowed_ids?.length) {
+    lines.push(t("channels.allowedPlaces", { places: places(rules.allowed_ids) }));
+  }
+  if (rules.denied_ids?.length) {
+    lines.push(t("channels.deniedPlaces", { places: places(rules.denied_ids) }));
+  }
+  await sendEphemeralError(
+    c,
+    discordApiService,
+    token,
+    t("channels.punchNotAllowed", { places: lines.join("\n") })
+  );
+  return false;
+}
+
+/**
+ * コマンドのオプションを名前をキーにして取得（サブコマンドを除く）
+ */
+function getCommandOptions(
+  interaction: APIInteraction
+): Record<string, string | number | boolean> {
+  const options: Record<string, string | number | boolean> = {};
+  if (
+    interaction.type !== InteractionType.ApplicationCommand ||
+    !("options" in interaction.data) ||
+    !interaction.data.options
+  ) {
+    return options;
+  }
+
+  for (const opt of interaction.data.options) {
+    if ("value" in opt) {
+      options[opt.name] = opt.value;
     }
   }
+  return options;
+}
+
+/**
+ * サブコマンド名とそのオプションを取得
+ */
+function getSubcommand(interaction: APIInteraction): {
+  name?: string;
+  options: Record<string, string | number | boolean>;
+} {
+  if (
+    interaction.type !== InteractionType.ApplicationCommand ||
+    !("options" in interaction.data) ||
+    !interaction.data.options
+  ) {
+    return { options: {} };
+  }
 
-  // 3. ロール名による簡易チェック（フォールバック）
-  if (member.roles && Array.isArray(member.roles)) {
-    // 注意: この方法は確実ではないが、フォールバックとして使用
-    const adminRoleNames = [
-      "admin",
-      "administrator",
-      "owner",
-      "mod",
-      "moderator",
-      "管理者",
-      "運営",
-      "オーナー",
-      "モデレーター",
-    ];
+  const subcommand = interaction.data.options.find(
+    (opt: APIApplicationCommandInteractionDataOption) =>
+      opt.type === ApplicationCommandOptionType.Subcommand
+  );
+  if (!subcommand || subcommand.type !== ApplicationCommandOptionType.Subcommand) {
+    return { options: {} };
+  }
 
-    // この実装では実際のロール名ではなくロールIDが来るため、
-    // より寛容なチェックを行う
-    return true; // 一時的に全てのユーザーを許可
+  const options: Record<string, string | number | boolean> = {};
+  for (const opt of subcommand.options || []) {
+    options[opt.name] = opt.value;
   }
 
-  // 4. 最終的なフォールバック（開発・テスト用）
-  return true; // 一時的に全てのユーザーを許可
+  return { name: subcommand.name, options };
 }
 
-export default app;
+// Durable Object のクラスはエントリーポイントから公開する必要がある
+export { AttendanceCoordinator } from "./attendance-coordinator";
+export { RateLimiter } from "./rate-limiter";
+
+export default {
+  fetch: app.fetch,
+
+  // Cron Trigger: 終了打刻忘れの勤務の自動終了・ダイジェストの送信・集計シートの更新・暗号化キーの移行
+  async scheduled(
+    controller: ScheduledController,
+    env: Bindings,
+    ctx: ExecutionContext
+  ) {
+    console.log(`Scheduled event: ${controller.cron}`);
+    if (controller.cron === SUMMARY_CRON) {
+      ctx.waitUntil(
+        (async () => {
+          // 暗号化キーを更新した後、保存済みの暗号文を新しいキーに移行する（移行済みなら何もしない）
+          await new KeyRotationService(env)
+            .reEncryptAll()
+            .catch((error) => console.error("Re-encryption failed:", error));
+          await new SummaryService(env).updateSummaries();
+        })()
+      );
+      return;
+    }
+    ctx.waitUntil(
+      (async () => {
+        await new AutoCloseService(env)
+          .closeStaleSessions()
+          .catch((error) => console.error("Auto close failed:", error));
+        // 自動終了した勤務を終了打刻忘れとして含めるため、自動終了の後に送信する
+        await new DigestService(env).sendScheduledDigests(
+          new Date(controller.scheduledTime)
+        );
+      })()
+    );
+  },
+} satisfies ExportedHandler<Bindings>;
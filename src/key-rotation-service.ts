@@ -0,0 +1,126 @@
+import { Bindings, ServerConfig } from "./types";
+import { CryptoService, createCryptoService } from "./crypto-service";
+
+// 再暗号化が完了したキーのバージョンを記録するKVのキー（同じバージョンの間は再実行しない）
+const MIGRATED_VERSION_KEY = "crypto:migrated_version";
+
+// サーバー設定のうち暗号化して保存する項目
+const ENCRYPTED_CONFIG_FIELDS = ["access_token", "refresh_token"] as const;
+
+export class KeyRotationService {
+  private kv: KVNamespace;
+  private cryptoService: CryptoService;
+
+  constructor(env: Bindings) {
+    this.kv = env.KINTAI_DISCORD_KV;
+    this.cryptoService = createCryptoService(env);
+  }
+
+  /**
+   * KVに保存された暗号文（server:* のトークン・oauth_credentials:*）を最新のキーで暗号化し直す
+   * Cron Trigger から定期実行され、全て移行できたら次にキーを更新するまで何もしない
+   * temp_oauth:* は1時間で期限切れになるため対象外（その間は古いキーでも復号できる）
+   */
+  async reEncryptAll(): Promise<{
+    migrated: number;
+    failed: number;
+    skipped: boolean;
+  }> {
+    const currentVersion = String(this.cryptoService.currentVersion);
+    if ((await this.kv.get(MIGRATED_VERSION_KEY)) === currentVersion) {
+      return { migrated: 0, failed: 0, skipped: true };
+    }
+
+    let migrated = 0;
+    let failed = 0;
+    const migrate = async (
+      keys: string[],
+      reEncrypt: (key: string) => Promise<boolean>
+    ) => {
+      for (const key of keys) {
+        try {
+          if (await reEncrypt(key)) migrated++;
+        } catch (error) {
+          // 1件の失敗で他の項目の移行を止めない（完了扱いにせず次回に再試行する）
+          console.error(`Re-encryption failed (${key}):`, error);
+          failed++;
+        }
+      }
+    };
+
+    await migrate(await this.listKeys("server:"), (key) =>
+      this.reEncryptServerConfig(key)
+    );
+    await migrate(await this.listKeys("oauth_credentials:"), (key) =>
+      this.reEncryptValue(key)
+    );
+
+    if (failed === 0) {
+      await this.kv.put(MIGRATED_VERSION_KEY, currentVersion);
+    }
+
+    console.log(
+      `Re-encryption finished (version ${currentVersion}): migrated=${migrated}, failed=${failed}`
+    );
+    return { migrated, failed, skipped: false };
+  }
+
+  /**
+   * サーバー設定のトークンを再暗号化
+   * @returns 更新した場合は true
+   */
+  private async reEncryptServerConfig(key: string): Promise<boolean> {
+    const configStr = await this.kv.get(key);
+    if (!configStr) return false;
+
+    const config = JSON.parse(configStr) as ServerConfig;
+    const updates: Partial<ServerConfig> = {};
+    for (const field of ENCRYPTED_CONFIG_FIELDS) {
+      const value = config[field];
+      if (value && !this.cryptoService.isCurrent(value)) {
+        updates[field] = await this.cryptoService.reEncrypt(value);
+      }
+    }
+    if (Object.keys(updates).length === 0) return false;
+
+    // 再暗号化の間にコマンドで設定が更新された場合に備え、保存直前の設定にトークンだけを反映する
+    const latestStr = await this.kv.get(key);
+    if (!latestStr) return false;
+    const latest = JSON.parse(latestStr) as ServerConfig;
+    for (const field of ENCRYPTED_CONFIG_FIELDS) {
+      if (updates[field] !== undefined && latest[field] === config[field]) {
+        latest[field] = updates[field]!;
+      }
+    }
+    await this.kv.put(key, JSON.stringify(latest));
+    return true;
+  }
+
+  /**
+   * 値全体が暗号文の項目を再暗号化
+   * @returns 更新した場合は true
+   */
+  private async reEncryptValue(key: string): Promise<boolean> {
+    const value = await this.kv.get(key);
+    if (!value || this.cryptoService.isCurrent(value)) return false;
+
+    await this.kv.put(key, await this.cryptoService.reEncrypt(value));
+    return true;
+  }
+
+  /**
+   * 指定の接頭辞を持つKVのキーを全て取得
+   */
+  private async listKeys(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const result = await this.kv.list({ prefix, cursor });
+      keys.push(...result.keys.map((key) => key.name));
+      cursor = result.list_complete ? undefined : result.cursor;
+    } while (cursor);
+
+    return keys;
+  }
+}
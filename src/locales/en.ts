@@ -0,0 +1,454 @@
+import type { MessageCatalog } from "../i18n";
+
+// 英語のメッセージカタログ（キーは ja.ts と同じ）
+export const en: MessageCatalog = {
+  // 共通
+  "common.unsupportedInteraction": "❌ This interaction type is not supported.",
+  "common.requestFailed":
+    "❌ An error occurred while processing the request. Please wait a moment and try again.",
+  "common.rateLimited":
+    "⏳ Too many requests. Please wait about {seconds} seconds and try again.",
+  "common.processingFailed":
+    "❌ An error occurred during processing. Please wait a moment and try again.",
+  "common.commandFailed":
+    "❌ An error occurred during processing\n\n**Error details**:\n```\n{error}\n```\n\nPlease wait a moment and try again.\nIf the problem persists, please contact an administrator.",
+  "common.errorTruncated":
+    "\n\n... (the error message was truncated because it was too long)",
+  "common.userOrChannelMissing":
+    "❌ Could not retrieve user or channel information.",
+  "common.memberMissing": "❌ Could not retrieve member information.",
+  "common.userMissing": "❌ Could not retrieve user information.",
+  "common.permissionUnknown": "❌ Could not verify your permissions.",
+  "common.unknownCommand": "❌ Unknown command.",
+  "common.unknownSubcommand": "❌ Unknown subcommand.",
+  "common.unknownAction": "❌ Unknown action.",
+  "common.guildOnly": "❌ This command can only be used in a server.",
+  "common.serverNotConfigured":
+    "❌ This server has not been set up.\nPlease ask an administrator to run the `/init` command.",
+  "common.serverConfigNotFound":
+    "❌ Server settings were not found. Please ask an administrator to run the `/init` command.",
+  "common.setupRequired":
+    "⚠️ Settings were not found.\nPlease run the `/init` command to set up.",
+  "common.adminRequired":
+    "❌ This command requires administrator permission.\n\n**Required (any of):**\n• Administrator permission\n• Manage Server permission\n• Server owner\n• The user who ran the initial setup\n• Attendance admin role (set with `/admin-role`)",
+  "common.recordCheckFailed":
+    "❌ Failed to check your work record\n\n**Error**: {error}",
+  "common.notStarted":
+    "❌ You have not started work yet\n\nPlease start with the `/start` command first.",
+  "common.recordNotFound": "❌ The specified record was not found.",
+  "common.unreadableRecord":
+    "❌ The start time of this record could not be read. Please check the record in the spreadsheet.",
+  "common.recordFailed": "Failed to write to the spreadsheet",
+  "common.queuedNote":
+    "\n\n📮 The spreadsheet could not be reached, so this punch was saved to the outbox. It will be recorded automatically with its original time once the connection recovers.",
+  "common.channelIdDetail": "\n🔍 **Details**: Channel ID: `{channelId}`",
+  "common.unknown": "Unknown",
+  "common.notSet": "Not set",
+  "common.notRecorded": "Not recorded",
+  "common.working": "Working",
+  "common.todoPlaceholder": "e.g. Coding",
+
+  // 日時・時間
+  "datetime.invalid": "❌ Invalid date/time format.\n",
+  "datetime.invalidTime": "❌ Invalid time format.\n",
+  "datetime.timeFormats":
+    "**Accepted time formats:**\n• `{hhmm}` (HH:MM)\n• `{compact}` (HHMM)\n• `{short}` (HMM)\n",
+  "datetime.dateFormats":
+    "**Accepted date formats:**\n• `2023-03-15` (YYYY-MM-DD)\n• `20230315` (YYYYMMDD)\n• `today`\n• `yesterday`\n• `0` (today), `-1` (yesterday), `1` (tomorrow), etc.",
+  "datetime.future":
+    "❌ You cannot specify a time in the future.\nSpecified: {specified}\nNow: {now}",
+  "datetime.endBeforeStart":
+    "❌ The end time is before the start time.\nStart: {start}\nEnd: {end}\nPlease specify a valid time.",
+  "datetime.startParseFailed":
+    "❌ Failed to parse the start time. Please contact an administrator.",
+  "duration.format": "{hours}h {minutes}m",
+
+  // Discord API の状況（エラー時の詳細表示）
+  "discordApi.forbidden":
+    "\n\n🔗 **Discord API**: ❌ Missing permissions\n⚠️ **Fix**: Invite the bot to the server and grant it permission to view the channel",
+  "discordApi.unauthorized":
+    "\n\n🔗 **Discord API**: ❌ Authentication error\n⚠️ **Fix**: Check the bot token",
+  "discordApi.error": "\n\n🔗 **Discord API**: ❌ Error ({error})",
+
+  // /start
+  "start.timeNote": " (start time: {time})",
+  "start.alreadyStarted":
+    "❌ You have already started work\n\n**Start time**: {startTime}\n\nPlease finish with the `/end` command first.",
+  "start.success":
+    "✅ Work started!{timeNote}\n\n📍 **Project**: {project}\n⏰ **Start time**: {startTime}",
+  "start.failed":
+    "❌ Failed to start work\n\n**Error details**: {error}{details}\n\nPlease check your network connection and try again.\nIf the problem persists, please contact an administrator.",
+
+  // /end
+  "end.todoRequired":
+    "❌ The `todo` parameter is required. Please record what you did.\n\nExample: `/end todo:Coding`",
+  "end.timeNote": " (end time: {time})",
+  "end.calculating": "Calculating...",
+  "end.breakInfo": "\n☕ **Break time**: {duration}",
+  "end.success":
+    "✅ Work finished! Good job!{timeNote}\n\n📍 **Project**: {project}\n⏰ **Working time**: {duration}{breakInfo}\n📝 **What you did**: {todo}",
+  "end.recordIdDetail": "\n📝 **Record ID**: `{recordId}`",
+  "end.failed":
+    "❌ Failed to finish work\n\n**Error details**: {error}{details}\n\nPlease check your network connection and try again.\nIf the problem persists, please contact an administrator.",
+
+  // /break /resume
+  "break.beforeStart":
+    "❌ The break start time is before the work start time.\nWork start: {reference}\nSpecified: {specified}",
+  "break.alreadyOnBreak":
+    "❌ You are already on a break\n\n**Break started**: {breakStartTime}\n\nPlease resume work with the `/resume` command.",
+  "break.failed": "❌ Failed to start the break\n\n**Error details**: {error}",
+  "break.success":
+    "☕ Break started\n\n📍 **Project**: {project}\n⏰ **Break started**: {time}",
+  "resume.beforeBreak":
+    "❌ The break end time is before the break start time.\nBreak start: {reference}\nSpecified: {specified}",
+  "resume.notOnBreak":
+    "❌ You are not on a break\n\nPlease start a break with the `/break` command first.",
+  "resume.failed": "❌ Failed to resume work\n\n**Error details**: {error}",
+  "resume.success":
+    "✅ Work resumed\n\n📍 **Project**: {project}\n☕ **This break**: {breakDuration}\n🧮 **Total breaks**: {totalBreakDuration}",
+
+  // /who
+  "who.failed": "❌ Failed to get the work status\n\n**Error**: {error}",
+  "who.title": "## 👥 Members currently working",
+  "who.titleChannel": "## 👥 Members working in this channel",
+  "who.empty": "No one is working right now.",
+  "who.line":
+    "• <@{userId}> — 📍 {project} — ⏰ {startTime} – ({elapsed} elapsed){breakStatus}",
+  "who.onBreak": " ☕ On break",
+  "who.more": "... and {count} more",
+  "who.total": "**Total**: {count}",
+
+  // /history
+  "history.invalidPeriod":
+    "❌ Invalid period.\nSpecify `from` when using `period:custom`.\n",
+  "history.failed": "❌ Failed to get your attendance history\n\n**Error**: {error}",
+  "history.header": "## 📊 Attendance history ({period}{project})",
+  "history.empty": "There are no work records in this period.",
+  "history.byDay": "**📅 By day**",
+  "history.byProject": "**📍 By project**",
+  "history.working": " (working)",
+  "history.projectLine": "• {project} — {duration} ({count} records)",
+  "history.total": "**⏰ Total**: {duration} ({count} records)",
+  "history.moreDays": "... and {count} more days",
+
+  // /report
+  "report.failed": "❌ Failed to create the report\n\n**Error**: {error}",
+  "report.empty": "## 📊 Attendance report ({period})\n\nThere are no work records in this period.",
+  "report.title": "📊 Attendance report",
+  "report.description": "**Period**: {period}\n**Grouped by**: {grouping}",
+  "report.groupBy.user": "User",
+  "report.groupBy.project": "Project",
+  "report.groupBy.day": "Day",
+  "report.line": "• {name} — {duration} ({count} records)",
+  "report.more": "... and {count} more (see the attached CSV)",
+  "report.total": "⏰ Total",
+  "report.totalValue": "{duration} ({count} records)",
+  "report.working": "🟢 Working (not counted)",
+  "report.workingValue": "{count} records",
+  "report.csv.user": "User",
+  "report.csv.project": "Project",
+  "report.csv.day": "Date",
+  "report.csv.discordId": "discord_id",
+  "report.csv.minutes": "Work minutes",
+  "report.csv.hours": "Work hours",
+  "report.csv.count": "Records",
+
+  // /edit
+  "edit.noChanges":
+    "❌ Please specify what to change.\n\nExample: `/edit record:2025-07-31 end_time:18:00`",
+  "edit.dayWithoutTime": "❌ Please also specify a time when specifying a date.",
+  "edit.fetchFailed": "❌ Failed to get the record\n\n**Error**: {error}",
+  "edit.invalidRecord":
+    "❌ Specify a record UUID or a date (e.g. `2025-07-31`, `yesterday`) for `record`.",
+  "edit.notFound": "❌ No record was found for the specified date.",
+  "edit.multipleRecords":
+    "❌ There are multiple records on the specified date. Please specify a UUID for `record`.\n\n{candidates}",
+  "edit.notOwner": "❌ You can only edit your own records.",
+  "edit.invalidStartTime":
+    "❌ Invalid start time format.\nExample: `09:00`, `0900`, `2025-07-31 09:00`",
+  "edit.invalidEndTime":
+    "❌ Invalid end time format.\nExample: `18:00`, `1800`, `2025-07-31 18:00`",
+  "edit.failed": "❌ Failed to edit the record\n\n**Error details**: {error}",
+  "edit.success":
+    "✅ Work record updated\n\n📍 **Project**: {project}\n⏰ **Start time**: {oldStart} → {newStart}\n⏰ **End time**: {oldEnd} → {newEnd}\n🧮 **Working time**: {duration}\n📝 **What you did**: {todo}",
+  "edit.modalTitle": "Edit work record",
+  "edit.modalStart": "Start time (only if changing)",
+  "edit.modalStartPlaceholder": "e.g. 09:00 or 2025-07-31 09:00",
+  "edit.modalEnd": "End time (only if changing)",
+  "edit.modalEndPlaceholder": "e.g. 18:00 or 2025-07-31 18:00",
+  "edit.modalTodo": "What you did (only if changing)",
+
+  // 勤怠パネル
+  "panel.message":
+    "## 🕒 Attendance panel\n\nPress the buttons to clock in, take a break and clock out.\n📍 Records are saved under this channel's project.",
+  "panel.start": "Clock in",
+  "panel.break": "Break",
+  "panel.resume": "Resume",
+  "panel.end": "Clock out",
+  "panel.success": "✅ The attendance panel has been posted.",
+  "panel.failed":
+    "❌ Failed to post the attendance panel.\nPlease check that the bot can send messages in this channel.",
+  "panel.endModalTitle": "Clock out",
+  "panel.endModalTodo": "What you did",
+  "panel.endModalTime": "End time (defaults to now)",
+
+  // /init
+  "init.alreadyConfigured":
+    "⚠️ Setup has already been completed.\nTo change the settings, reset them once with the `/reset` command.\nIf the Google account link has expired, `/reconnect` links it again and keeps the current spreadsheet.",
+  "init.guide":
+    "## 🔧 Attendance system setup\n\nThis connects the bot to Google Sheets.\n\n### Steps\n1. Click the link below and complete Google authentication\n2. {sheetStep}\n3. Check the settings with the `/config` command\n\n**🔗 Authentication link**\n{authUrl}\n\n⚠️ **Notes**\n- Only administrators can perform this setup\n- Your Google account must be able to create and edit spreadsheets\n- The authentication link is valid for 10 minutes",
+  "init.sheetStepCreate": "A spreadsheet is created automatically after authentication",
+  "init.sheetStepAttach":
+    "The given spreadsheet is linked after authentication (a sheet for this month and any missing header cells are added automatically)",
+  "init.invalidSpreadsheet":
+    "❌ The spreadsheet URL could not be read.\nUse the format `https://docs.google.com/spreadsheets/d/...`.",
+  "init.spreadsheetWithD1":
+    "❌ `spreadsheet` cannot be used when `storage` is D1.\nSet up with D1 first, then run `/init` again with `spreadsheet` to copy records to that spreadsheet.",
+  "init.failed":
+    "❌ An error occurred during setup. Please wait a moment and try again.",
+  "init.d1Done":
+    "## ✅ Attendance system setup complete\n\nAttendance data will be stored in D1. No Google account link is needed.\n\nYou can clock in and out with `/start` and `/end` right away.\nTo also record to a spreadsheet, run `/init` later and link a Google account.",
+  "init.d1Unavailable":
+    "❌ D1 cannot be selected because no D1 database is configured.\nAsk the bot administrator to set up `KINTAI_DB`, or run the command without `storage`.",
+
+  // /reconnect
+  "reconnect.notConnected":
+    "❌ No Google spreadsheet is linked.\nRun the `/init` command to set up first.",
+  "reconnect.guide":
+    "## 🔄 Reconnect Google account\n\nThis redoes Google authentication and keeps the current spreadsheet.\n📊 {spreadsheetUrl}\n\n**🔗 Authentication link**\n{authUrl}\n\n⚠️ **Notes**\n- Authenticate with a Google account that can edit the spreadsheet above\n- Queued punches are sent again automatically after reconnecting\n- The authentication link is valid for 10 minutes",
+  "reconnect.failed":
+    "❌ An error occurred while preparing to reconnect. Please wait a moment and try again.",
+
+  // /config
+  "config.notConfigured":
+    "## ⚙️ Configuration\n\n❌ **Not configured**\n\nThe attendance system has not been set up.\nPlease run the `/init` command to set up.\n\n**Required permission**: Administrator",
+  "config.status":
+    "## ⚙️ Configuration\n\n✅ **Configured**\n\n**🗄️ Storage**\n{storage}\n\n**📅 Configured on**: {createdAt}\n**👤 Configured by**: <@{ownerId}>\n**🛡️ Attendance admin roles**: {adminRoles}\n**📮 Queued punches**: {backlog}\n**⚠️ Punches that could not be saved**: {failedWrites}\n\n**Available commands**\n- `/start` - Start work\n- `/end` - Finish work\n- `/admin-role` - Set attendance admin roles (administrators only)\n- `/reset` - Reset settings (administrators only)",
+  "config.failed": "❌ An error occurred while checking the status.",
+  "config.storageSheets": "Google Sheets\n{spreadsheetUrl}",
+  "config.storageD1": "D1 (no spreadsheet linked)",
+  "config.storageD1Mirror": "D1 (mirrored to a spreadsheet)\n{spreadsheetUrl}",
+  "config.backlogEmpty": "None",
+  "config.backlogPending": "{count} (waiting since {since})\n└ Last error: {error}",
+  "config.failedWritesEmpty": "None",
+  "config.failedWrites":
+    "{count} (fix the records with `/edit`)\n{details}",
+  "config.failedWriteItem":
+    "└ {punchedAt} {operation} ({user}record ID `{recordId}`): {error}",
+  "config.failedWriteUser": "<@{userId}>, ",
+  "config.operation.start": "Start work",
+  "config.operation.end": "Finish work",
+  "config.operation.break_start": "Start break",
+  "config.operation.break_end": "End break",
+  "config.failureReason.start_record_not_found":
+    "The matching start record was not found",
+  "config.failureReason.record_not_found": "The record was not found",
+  "config.failureReason.unreadable_record":
+    "The start time of the record could not be read",
+  "config.failureReason.already_on_break": "Already on a break",
+  "config.failureReason.not_on_break": "Not on a break",
+  "config.failureReason.config_not_found": "Server settings were not found",
+
+  // /reset
+  "reset.success":
+    "## 🗑️ Settings reset\n\n✅ The attendance system settings have been reset.\n\n**Removed**\n- Link to the Google account\n- Link to the spreadsheet\n- Stored credentials\n\n**Next steps**\nRun the `/init` command to set up again.\n\n⚠️ **Note**: The spreadsheet itself is not deleted.",
+  "reset.failed": "❌ An error occurred while resetting.",
+
+  // /admin-role
+  "adminRole.added": "✅ Added <@&{roleId}> as an attendance admin role.",
+  "adminRole.removed": "✅ Removed <@&{roleId}> from the attendance admin roles.",
+  "adminRole.list":
+    "## 🛡️ Attendance admin roles\n\n{roles}\n\nMembers with Administrator or Manage Server permission, the server owner and the user who ran the initial setup are also treated as administrators.",
+  "adminRole.failed": "❌ An error occurred while setting attendance admin roles.",
+
+  // /channels と打刻できるチャンネルの制限
+  "channels.allowed":
+    "✅ Allowed clocking in and out in <#{channelId}>. Clocking in and out is now only possible in allowed places.",
+  "channels.denied": "✅ Blocked clocking in and out in <#{channelId}>.",
+  "channels.removed": "✅ Removed the setting for <#{channelId}>.",
+  "channels.cleared":
+    "✅ Removed the channel restrictions. Clocking in and out is possible in every channel.",
+  "channels.list":
+    "## 📍 Clock-in channels\n\n**Allowed**\n{allowed}\n\n**Blocked**\n{denied}\n\nA category also covers its channels (including threads). Blocked places take priority over allowed ones.",
+  "channels.anywhere": "All channels",
+  "channels.failed": "❌ An error occurred while setting the clock-in channels.",
+  "channels.punchNotAllowed": "❌ You can't clock in or out in this channel.\n{places}",
+  "channels.allowedPlaces": "📍 Allowed places: {places}",
+  "channels.deniedPlaces": "🚫 Blocked places: {places}",
+
+  // /auto-close と自動終了の通知
+  "autoClose.title": "## ⏰ Auto close settings",
+  "autoClose.updated": "✅ Auto close settings updated",
+  "autoClose.policyMaxLength": "End {hours} hours after the start time",
+  "autoClose.policyLastActivity":
+    "End at the last action (start, break or resume)",
+  "autoClose.summary":
+    "{heading}\n\n⏱️ **Maximum working time**: {hours} hours\n📐 **End time**: {policy}\n\nWork that exceeds the maximum working time without a clock-out is closed automatically and the member is notified by DM.",
+  "autoClose.failed": "❌ An error occurred while setting auto close.",
+  "autoClose.todoMarker": "[Auto-closed] Forgot to clock out",
+  "autoClose.notification":
+    "⏰ **Your work was closed automatically**\n\n📍 **Project**: {project}\n⏰ **Start time**: {startTime}\n⏰ **End time**: {endTime}\n\nIt was closed because {hours} hours passed without a clock-out.\nPlease correct the actual end time with the `/edit` command.",
+
+  // /digest とダイジェスト
+  "digest.title": "## 📰 Digest settings",
+  "digest.updated": "✅ Digest settings updated",
+  "digest.disabled": "✅ Digests have been turned off",
+  "digest.notConfigured": "Not set (specify `channel` to start sending digests)",
+  "digest.weeklyOn": "Sent on Mondays",
+  "digest.weeklyOff": "Not sent",
+  "digest.summary":
+    "{heading}\n\n📢 **Channel**: {channel}\n⏰ **Time**: every day at {hour}:00 ({timezone})\n📅 **Weekly digest**: {weekly}\n\nEvery day, the bot posts yesterday's hours per member and work sessions with a forgotten clock-out (nothing is posted on days without records). The weekly digest shows last week's totals by project.",
+  "digest.failed": "❌ An error occurred while configuring digests.",
+  "digest.dailyHeader": "## 📰 Attendance digest ({date})",
+  "digest.weeklyHeader": "## 📅 Weekly digest ({period})",
+  "digest.byMember": "**👥 By member**",
+  "digest.memberLine": "• {name} — {duration} ({count} records)",
+  "digest.forgotten": "**⚠️ Forgotten clock-outs**",
+  "digest.forgottenOpen": "• <@{userId}> — {project} (started {startTime}, still open)",
+  "digest.forgottenAutoClosed":
+    "• <@{userId}> — {project} (started {startTime}, auto closed)",
+  "digest.total": "**⏰ Total**: {duration} ({count} records)",
+  "digest.more": "... and {count} more",
+
+  // /timezone
+  "timezone.title": "## 🌐 Time zone settings",
+  "timezone.updated": "✅ Time zone settings updated",
+  "timezone.invalid":
+    "❌ The time zone `{timezone}` is invalid.\nPlease use an IANA time zone name.\nExample: `Asia/Tokyo`, `Europe/Berlin`, `America/New_York`",
+  "timezone.summary":
+    "{heading}\n\n🕒 **Time zone**: {timezone}\n🗣️ **Locale**: {locale}\n⏰ **Current time**: {now}{sheetMessage}{note}",
+  "timezone.sheetUpdated": "\n📊 The spreadsheet settings were updated as well.",
+  "timezone.sheetUpdateFailed":
+    "\n⚠️ Failed to update the spreadsheet time zone: {error}",
+  "timezone.existingRecordsNote":
+    "\n\n※ Existing records are not converted. Their times are treated as times in the new time zone.",
+  "timezone.failed": "❌ An error occurred while setting the time zone.",
+
+  // /language
+  "language.title": "## 🗣️ Language settings",
+  "language.updated": "✅ Language settings updated",
+  "language.summary":
+    "{heading}\n\n🗣️ **Language**: {language}\n\nWhen set to automatic, replies follow the Discord language of the user who ran the command (or the server's language if unavailable).",
+  "language.auto": "Automatic (follows Discord's language)",
+  "language.name.ja": "日本語",
+  "language.name.en": "English",
+  "language.failed": "❌ An error occurred while setting the language.",
+
+  // /columns
+  "columns.title": "## 📊 Spreadsheet column layout",
+  "columns.updated": "✅ Column layout updated",
+  "columns.reset": "✅ Column layout restored to the default (columns A-K)",
+  "columns.missingOption":
+    "❌ To change the layout, specify both `field` and `column`.",
+  "columns.invalidColumn":
+    "❌ The column `{column}` is invalid. Use a column name from A to ZZ.",
+  "columns.swapped": "\n↔️ \"{header}\" was swapped into column {column}.",
+  "columns.line": "`{column}` {header}",
+  "columns.summary":
+    "{heading}{note}\n\n{columns}\n\nNew monthly sheets are created with their header row in this layout.\nExisting sheets are matched by header name, so you can reorder columns or add columns for notes and recording keeps working (do not rename the headers).",
+  "columns.failed": "❌ An error occurred while setting the column layout.",
+
+  // OAuth コールバックのページ
+  "page.authErrorTitle": "Authentication error",
+  "page.authCancelled": "❌ Authentication was cancelled",
+  "page.invalidAuthParams": "❌ Invalid authentication parameters",
+  "page.retryInit": "Please go back to Discord and run the /init command again.",
+  "page.setupCompleteTitle": "Setup complete",
+  "page.setupComplete": "✅ Setup complete!",
+  "page.setupCompleteMessage": "The attendance system has been set up.",
+  "page.reconnectCompleteTitle": "Reconnected",
+  "page.reconnectComplete": "✅ Reconnected!",
+  "page.reconnectCompleteMessage":
+    "Your Google account has been linked again. Records keep going to the same spreadsheet.",
+  "page.openSpreadsheet": "📊 Open the spreadsheet",
+  "page.checkConfig":
+    "Go back to Discord and check the settings with the <code>/config</code> command.",
+  "page.setupErrorTitle": "Setup error",
+  "page.setupError": "❌ Setup error",
+  "page.errorContent": "Error:",
+  "page.unknownError": "An unknown error occurred",
+  "page.contactAdmin": "If the problem persists, please contact an administrator.",
+  "page.callbackError":
+    "An error occurred during authentication. Please contact an administrator.",
+  "page.invalidRequestTitle": "Invalid request",
+  "page.invalidRequest": "❌ Invalid request",
+  "page.retryInitShort": "Please go back to Discord and run the /init command again.",
+
+  // OAuth コールバックの処理結果
+  "oauth.setupCreated":
+    "Setup is complete! A spreadsheet has been created in the administrator's Google account.",
+  "oauth.setupAttached":
+    "Setup is complete! The specified spreadsheet has been linked.",
+  "oauth.sessionNotFound":
+    "The authentication session was not found. It may have expired.",
+  "oauth.tokenFailed": "Failed to obtain the tokens",
+  "oauth.spreadsheetNotLinked":
+    "No linked spreadsheet was found. Please set it up with /init.",
+  "oauth.spreadsheetInaccessible":
+    "This Google account cannot access the linked spreadsheet: {error}",
+  "oauth.spreadsheetCreateFailed": "Failed to create the spreadsheet",
+  "oauth.spreadsheetPrepareFailed":
+    "Failed to prepare the spreadsheet: {error}",
+  "oauth.callbackFailed":
+    "An error occurred during OAuth authentication: {error}",
+
+  // セットアップガイドのページ
+  "guide.title": "Attendance Bot - Google authentication setup",
+  "guide.heading": "🔧 Attendance Bot - Google authentication setup",
+  "guide.noticeTitle": "⚠️ Important",
+  "guide.noticeBody":
+    "<p>This setup creates a spreadsheet in <strong>your Google account</strong>.</p>\n<p>Attendance data is stored in your Google Drive, and the bot's developers cannot access it.</p>",
+  "guide.stepsHeading": "📋 Setup steps",
+  "guide.step1Title": "Step 1: Create a Google Cloud project",
+  "guide.step1Items":
+    '<li>Open the <a href="https://console.cloud.google.com/" target="_blank">Google Cloud Console</a></li>\n<li>Create a new project (or select an existing one)</li>\n<li>Project name: e.g. "Attendance Bot"</li>',
+  "guide.step2Title": "Step 2: Configure the OAuth consent screen",
+  "guide.step2Items":
+    '<li>"APIs & Services" → "OAuth consent screen"</li>\n<li>User Type: select "External" and click "Create"</li>\n<li>Enter the app information:\n<ul>\n<li>App name: e.g. "Attendance Bot" (any recognizable name)</li>\n<li>User support email: your Gmail address</li>\n<li>Developer contact information: your Gmail address</li>\n</ul>\n</li>\n<li>Click "Save and continue"</li>\n<li>Scopes: add nothing and click "Save and continue"</li>\n<li>Test users: add your Gmail address and click "Save and continue"</li>\n<li>Summary: click "Back to dashboard"</li>',
+  "guide.step2Note":
+    '<strong>Note:</strong> The app is in "Testing" status after the first setup.',
+  "guide.step3Title": "Step 3: Enable the Google Sheets API",
+  "guide.step3Items":
+    '<li>From the left menu, open "APIs & Services" → "Library"</li>\n<li>Search for "Google Sheets API"</li>\n<li>Click "Enable"</li>',
+  "guide.step4Title": "Step 4: Create OAuth credentials",
+  "guide.step4Items":
+    '<li>"APIs & Services" → "Credentials"</li>\n<li>"Create credentials" → "OAuth client ID"</li>\n<li>Application type: "Web application"</li>\n<li>Name: "Attendance Bot"</li>',
+  "guide.step4RedirectUri":
+    "<strong>⚠️ Important:</strong> Add the following <strong>exactly</strong> as an authorized redirect URI:",
+  "guide.step4RedirectNote":
+    "<strong>Note:</strong> Enter this URL so that it <strong>matches exactly</strong>. Spaces or extra characters will cause an error.",
+  "guide.step4Create": 'Click "Create"',
+  "guide.step5Title": "Step 5: Enter the credentials",
+  "guide.step5Body": "Enter the client ID and client secret you created below:",
+  "guide.clientIdLabel": "Client ID:",
+  "guide.clientIdPlaceholder": "e.g. 123456789-abcdef.apps.googleusercontent.com",
+  "guide.clientSecretLabel": "Client secret:",
+  "guide.clientSecretPlaceholder": "e.g. GOCSPX-abcdefghijklmnop",
+  "guide.submit": "Start authentication",
+  "guide.loading": "Processing...",
+  "guide.troubleshootingTitle": "🔧 Troubleshooting",
+  "guide.redirectMismatchTitle": '❌ If you get a "redirect_uri_mismatch" error:',
+  "guide.redirectMismatchItems":
+    "<li>Re-check the credentials in the Google Cloud Console</li>\n<li>Make sure the redirect URI <strong>exactly matches</strong>:<br>\n{redirectUri}\n</li>\n<li>After saving, wait a few minutes and try again</li>\n<li>Clear your browser cache and try again</li>",
+  "guide.tipsTitle": "💡 Tips:",
+  "guide.tipsItems":
+    "<li>Copy and paste the redirect URI rather than typing it</li>\n<li>Make sure there is no trailing space or line break</li>\n<li>Make sure it is HTTPS (not HTTP)</li>",
+  "guide.registered": "✅ Credentials registered",
+  "guide.openAuthUrl": "Click here to complete Google authentication",
+  "guide.afterAuth":
+    "After authentication, go back to Discord to start using attendance tracking.",
+  "guide.error": "❌ An error occurred",
+  "guide.networkError": "❌ A network error occurred",
+
+  // OAuth認証情報登録API
+  "api.missingParams": "Required parameters are missing",
+  "api.registerFailed": "Failed to register the OAuth credentials",
+  "api.registerFailedDetail": "Failed to register the OAuth credentials: {error}",
+  "api.invalidState": "The authentication session is invalid or has expired",
+  "api.stateUsed":
+    "Credentials have already been registered for this authentication session. Please run /init again.",
+  "api.stateMismatch":
+    "This authentication session does not belong to this server. Please run /init again.",
+  "api.rateLimited":
+    "Too many requests. Please wait about {seconds} seconds and try again",
+};
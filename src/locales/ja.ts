@@ -0,0 +1,449 @@
+// 日本語のメッセージカタログ（キーの定義元。他の言語も同じキーを持つ）
+// {name} の部分は呼び出し時のパラメータで置き換えられる
+export const ja = {
+  // 共通
+  "common.unsupportedInteraction":
+    "❌ サポートされていないインタラクションタイプです。",
+  "common.requestFailed":
+    "❌ リクエストの処理中にエラーが発生しました。しばらく待ってから再試行してください。",
+  "common.rateLimited":
+    "⏳ 操作が集中しています。{seconds}秒ほど待ってから再試行してください。",
+  "common.processingFailed":
+    "❌ 処理中にエラーが発生しました。しばらく待ってから再試行してください。",
+  "common.commandFailed":
+    "❌ 処理中にエラーが発生しました\n\n**エラー詳細**:\n```\n{error}\n```\n\nしばらく待ってから再試行してください。\n問題が続く場合は管理者にお問い合わせください。",
+  "common.errorTruncated":
+    "\n\n... (エラーメッセージが長すぎるため省略されました)",
+  "common.userOrChannelMissing":
+    "❌ ユーザー情報またはチャンネル情報を取得できませんでした。",
+  "common.memberMissing": "❌ メンバー情報を取得できませんでした。",
+  "common.userMissing": "❌ ユーザー情報を取得できませんでした。",
+  "common.permissionUnknown": "❌ 権限を確認できませんでした。",
+  "common.unknownCommand": "❌ 不明なコマンドです。",
+  "common.unknownSubcommand": "❌ 不明なサブコマンドです。",
+  "common.unknownAction": "❌ 不明な操作です。",
+  "common.guildOnly": "❌ このコマンドはサーバー内でのみ使用できます。",
+  "common.serverNotConfigured":
+    "❌ サーバーが設定されていません。\n管理者に `/init` コマンドの実行を依頼してください。",
+  "common.serverConfigNotFound":
+    "❌ サーバー設定が見つかりません。管理者に `/init` コマンドの実行を依頼してください。",
+  "common.setupRequired":
+    "⚠️ 設定が見つかりません。\n`/init` コマンドで初期設定を行ってください。",
+  "common.adminRequired":
+    "❌ このコマンドは管理者権限が必要です。\n\n**必要な権限（いずれか）:**\n• 管理者権限\n• サーバー管理権限\n• サーバーオーナー\n• 初期設定を行ったユーザー\n• 勤怠管理者ロール（`/admin-role` で設定）",
+  "common.recordCheckFailed":
+    "❌ 勤務記録の確認に失敗しました\n\n**エラー**: {error}",
+  "common.notStarted":
+    "❌ まだ勤務を開始していません\n\n先に `/start` コマンドで開始してください。",
+  "common.recordNotFound": "❌ 指定された記録が見つかりません。",
+  "common.unreadableRecord":
+    "❌ 開始時刻を解析できない記録です。スプレッドシートの記録を確認してください。",
+  "common.recordFailed": "スプレッドシートへの記録に失敗しました",
+  "common.queuedNote":
+    "\n\n📮 スプレッドシートに接続できないため、この打刻は送信待ちとして保存しました。接続が回復すると打刻した時刻のまま自動で記録されます。",
+  "common.channelIdDetail": "\n🔍 **詳細**: チャンネルID: `{channelId}`",
+  "common.unknown": "不明",
+  "common.notSet": "未設定",
+  "common.notRecorded": "未記録",
+  "common.working": "勤務中",
+  "common.todoPlaceholder": "例: コーディング",
+
+  // 日時・時間
+  "datetime.invalid": "❌ 日時形式が正しくありません。\n",
+  "datetime.invalidTime": "❌ 時刻形式が正しくありません。\n",
+  "datetime.timeFormats":
+    "**時刻の使用可能な形式:**\n• `{hhmm}` (HH:MM形式)\n• `{compact}` (HHMM形式)\n• `{short}` (HMM形式)\n",
+  "datetime.dateFormats":
+    "**日付の使用可能な形式:**\n• `2023-03-15` (YYYY-MM-DD形式)\n• `20230315` (YYYYMMDD形式)\n• `today` (今日)\n• `yesterday` (昨日)\n• `0` (今日), `-1` (昨日), `1` (明日) など",
+  "datetime.future":
+    "❌ 現在時刻より未来の時刻は指定できません。\n指定時刻: {specified}\n現在時刻: {now}",
+  "datetime.endBeforeStart":
+    "❌ 終了時刻が開始時刻より前になっています。\n開始時刻: {start}\n終了時刻: {end}\n正しい時刻を指定してください。",
+  "datetime.startParseFailed":
+    "❌ 開始時刻の解析に失敗しました。管理者にお問い合わせください。",
+  "duration.format": "{hours}時間{minutes}分",
+
+  // Discord API の状況（エラー時の詳細表示）
+  "discordApi.forbidden":
+    "\n\n🔗 **Discord API**: ❌ 権限不足\n⚠️ **解決方法**: Botをサーバーに招待し、チャンネル閲覧権限を付与してください",
+  "discordApi.unauthorized":
+    "\n\n🔗 **Discord API**: ❌ 認証エラー\n⚠️ **解決方法**: Bot Tokenを確認してください",
+  "discordApi.error": "\n\n🔗 **Discord API**: ❌ エラー ({error})",
+
+  // /start
+  "start.timeNote": " (開始時刻: {time})",
+  "start.alreadyStarted":
+    "❌ 既に勤務を開始しています\n\n**開始時刻**: {startTime}\n\n先に `/end` コマンドで終了してください。",
+  "start.success":
+    "✅ 勤務を開始しました！{timeNote}\n\n📍 **プロジェクト**: {project}\n⏰ **開始時刻**: {startTime}",
+  "start.failed":
+    "❌ 勤務開始の処理に失敗しました\n\n**エラー詳細**: {error}{details}\n\nネットワークの状況を確認して、再度お試しください。\n問題が続く場合は管理者にお問い合わせください。",
+
+  // /end
+  "end.todoRequired":
+    "❌ `todo` パラメータは必須です。やったことを記録してください。\n\n例: `/end todo:コーディング`",
+  "end.timeNote": " (終了時刻: {time})",
+  "end.calculating": "計算中...",
+  "end.breakInfo": "\n☕ **休憩時間**: {duration}",
+  "end.success":
+    "✅ 勤務を終了しました！お疲れ様でした！{timeNote}\n\n📍 **プロジェクト**: {project}\n⏰ **労働時間**: {duration}{breakInfo}\n📝 **やったこと**: {todo}",
+  "end.recordIdDetail": "\n📝 **記録ID**: `{recordId}`",
+  "end.failed":
+    "❌ 勤務終了の処理に失敗しました\n\n**エラー詳細**: {error}{details}\n\nネットワークの状況を確認して、再度お試しください。\n問題が続く場合は管理者にお問い合わせください。",
+
+  // /break /resume
+  "break.beforeStart":
+    "❌ 休憩開始時刻が勤務開始時刻より前になっています。\n勤務開始時刻: {reference}\n指定時刻: {specified}",
+  "break.alreadyOnBreak":
+    "❌ 既に休憩中です\n\n**休憩開始**: {breakStartTime}\n\n`/resume` コマンドで勤務を再開してください。",
+  "break.failed": "❌ 休憩開始の処理に失敗しました\n\n**エラー詳細**: {error}",
+  "break.success":
+    "☕ 休憩を開始しました\n\n📍 **プロジェクト**: {project}\n⏰ **休憩開始**: {time}",
+  "resume.beforeBreak":
+    "❌ 休憩終了時刻が休憩開始時刻より前になっています。\n休憩開始時刻: {reference}\n指定時刻: {specified}",
+  "resume.notOnBreak":
+    "❌ 休憩中ではありません\n\n先に `/break` コマンドで休憩を開始してください。",
+  "resume.failed": "❌ 勤務再開の処理に失敗しました\n\n**エラー詳細**: {error}",
+  "resume.success":
+    "✅ 勤務を再開しました\n\n📍 **プロジェクト**: {project}\n☕ **今回の休憩**: {breakDuration}\n🧮 **休憩合計**: {totalBreakDuration}",
+
+  // /who
+  "who.failed": "❌ 勤務状況の取得に失敗しました\n\n**エラー**: {error}",
+  "who.title": "## 👥 現在勤務中のメンバー",
+  "who.titleChannel": "## 👥 このチャンネルで勤務中のメンバー",
+  "who.empty": "現在勤務中のメンバーはいません。",
+  "who.line":
+    "• <@{userId}> — 📍 {project} — ⏰ {startTime} 〜 (経過 {elapsed}){breakStatus}",
+  "who.onBreak": " ☕ 休憩中",
+  "who.more": "... 他 {count} 名",
+  "who.total": "**合計**: {count} 名",
+
+  // /history
+  "history.invalidPeriod":
+    "❌ 期間の指定が正しくありません。\n`period:custom` の場合は `from` を指定してください。\n",
+  "history.failed": "❌ 勤怠履歴の取得に失敗しました\n\n**エラー**: {error}",
+  "history.header": "## 📊 勤怠履歴 ({period}{project})",
+  "history.empty": "指定期間の勤務記録はありません。",
+  "history.byDay": "**📅 日別**",
+  "history.byProject": "**📍 プロジェクト別**",
+  "history.working": " (勤務中)",
+  "history.projectLine": "• {project} — {duration} ({count}件)",
+  "history.total": "**⏰ 合計**: {duration} ({count}件)",
+  "history.moreDays": "... 他 {count} 日",
+
+  // /report
+  "report.failed": "❌ レポートの作成に失敗しました\n\n**エラー**: {error}",
+  "report.empty": "## 📊 勤怠レポート ({period})\n\n指定期間の勤務記録はありません。",
+  "report.title": "📊 勤怠レポート",
+  "report.description": "**期間**: {period}\n**集計**: {grouping}",
+  "report.groupBy.user": "ユーザー別",
+  "report.groupBy.project": "プロジェクト別",
+  "report.groupBy.day": "日別",
+  "report.line": "• {name} — {duration} ({count}件)",
+  "report.more": "... 他 {count} 件（添付の CSV を参照してください）",
+  "report.total": "⏰ 合計",
+  "report.totalValue": "{duration} ({count}件)",
+  "report.working": "🟢 勤務中（集計外）",
+  "report.workingValue": "{count}件",
+  "report.csv.user": "ユーザー名",
+  "report.csv.project": "プロジェクト名",
+  "report.csv.day": "日付",
+  "report.csv.discordId": "discord_id",
+  "report.csv.minutes": "労働時間(分)",
+  "report.csv.hours": "労働時間(時間)",
+  "report.csv.count": "件数",
+
+  // /edit
+  "edit.noChanges":
+    "❌ 修正する項目を指定してください。\n\n例: `/edit record:2025-07-31 end_time:18:00`",
+  "edit.dayWithoutTime": "❌ 日付を指定する場合は時刻も指定してください。",
+  "edit.fetchFailed": "❌ 記録の取得に失敗しました\n\n**エラー**: {error}",
+  "edit.invalidRecord":
+    "❌ `record` には記録のUUIDまたは日付 (例: `2025-07-31`, `yesterday`) を指定してください。",
+  "edit.notFound": "❌ 指定した日付の記録が見つかりません。",
+  "edit.multipleRecords":
+    "❌ 指定した日付の記録が複数あります。`record` にUUIDを指定してください。\n\n{candidates}",
+  "edit.notOwner": "❌ 自分の記録のみ修正できます。",
+  "edit.invalidStartTime":
+    "❌ 開始時刻の形式が正しくありません。\n例: `09:00`, `0900`, `2025-07-31 09:00`",
+  "edit.invalidEndTime":
+    "❌ 終了時刻の形式が正しくありません。\n例: `18:00`, `1800`, `2025-07-31 18:00`",
+  "edit.failed": "❌ 記録の修正に失敗しました\n\n**エラー詳細**: {error}",
+  "edit.success":
+    "✅ 勤務記録を修正しました\n\n📍 **プロジェクト**: {project}\n⏰ **開始時刻**: {oldStart} → {newStart}\n⏰ **終了時刻**: {oldEnd} → {newEnd}\n🧮 **労働時間**: {duration}\n📝 **やったこと**: {todo}",
+  "edit.modalTitle": "勤務記録の修正",
+  "edit.modalStart": "開始時刻（変更する場合のみ）",
+  "edit.modalStartPlaceholder": "例: 09:00 または 2025-07-31 09:00",
+  "edit.modalEnd": "終了時刻（変更する場合のみ）",
+  "edit.modalEndPlaceholder": "例: 18:00 または 2025-07-31 18:00",
+  "edit.modalTodo": "やったこと（変更する場合のみ）",
+
+  // 勤怠パネル
+  "panel.message":
+    "## 🕒 勤怠パネル\n\nボタンを押して出勤・休憩・退勤を記録できます。\n📍 このチャンネルのプロジェクトとして記録されます。",
+  "panel.start": "出勤",
+  "panel.break": "休憩",
+  "panel.resume": "再開",
+  "panel.end": "退勤",
+  "panel.success": "✅ 勤怠パネルを設置しました。",
+  "panel.failed":
+    "❌ 勤怠パネルの設置に失敗しました。\nBotにこのチャンネルへのメッセージ送信権限があるか確認してください。",
+  "panel.endModalTitle": "退勤",
+  "panel.endModalTodo": "やったこと",
+  "panel.endModalTime": "終了時刻（省略時は現在時刻）",
+
+  // /init
+  "init.alreadyConfigured":
+    "⚠️ 既に設定が完了しています。\n設定を変更したい場合は `/reset` コマンドで一度リセットしてください。\nGoogle アカウントとの連携が切れた場合は、`/reconnect` でスプレッドシートをそのまま再連携できます。",
+  "init.guide":
+    "## 🔧 勤怠管理システム初期設定\n\nGoogle スプレッドシートとの連携設定を行います。\n\n### 手順\n1. 下記のリンクをクリックしてGoogle認証を完了してください\n2. {sheetStep}\n3. `/config` コマンドで設定を確認できます\n\n**🔗 認証リンク**\n{authUrl}\n\n⚠️ **注意事項**\n- 管理者のみがこの設定を行えます\n- Google アカウントでスプレッドシートの作成・編集権限が必要です\n- 認証リンクは10分間有効です",
+  "init.sheetStepCreate": "認証完了後、自動でスプレッドシートが作成されます",
+  "init.sheetStepAttach":
+    "認証完了後、指定したスプレッドシートと連携します（当月のシートやヘッダー行が足りない場合は自動で追加されます）",
+  "init.invalidSpreadsheet":
+    "❌ スプレッドシートのURLを解釈できません。\n`https://docs.google.com/spreadsheets/d/...` の形式で指定してください。",
+  "init.spreadsheetWithD1":
+    "❌ `storage` に D1 を選んだ場合は `spreadsheet` を指定できません。\nD1 で設定した後、改めて `spreadsheet` を指定して `/init` を実行すると、そのスプレッドシートに記録を複製します。",
+  "init.failed":
+    "❌ セットアップ処理中にエラーが発生しました。しばらく待ってから再試行してください。",
+  "init.d1Done":
+    "## ✅ 勤怠管理システム初期設定完了\n\n勤怠データを D1 に保存する設定で初期化しました。Google アカウントとの連携は不要です。\n\n`/start` と `/end` ですぐに打刻できます。\nスプレッドシートにも記録したい場合は、後から `/init` を実行して Google アカウントと連携してください。",
+  "init.d1Unavailable":
+    "❌ D1 データベースが設定されていないため、D1 を保存先に選べません。\nBot の管理者に `KINTAI_DB` の設定を依頼するか、`storage` を指定せずに実行してください。",
+
+  // /reconnect
+  "reconnect.notConnected":
+    "❌ Google スプレッドシートと連携していません。\n`/init` コマンドで初期設定を行ってください。",
+  "reconnect.guide":
+    "## 🔄 Google アカウントの再連携\n\n連携中のスプレッドシートはそのままで、Google の認証だけをやり直します。\n📊 {spreadsheetUrl}\n\n**🔗 認証リンク**\n{authUrl}\n\n⚠️ **注意事項**\n- 上記のスプレッドシートを編集できる Google アカウントで認証してください\n- 送信待ちの打刻は、再連携後に自動で再送されます\n- 認証リンクは10分間有効です",
+  "reconnect.failed":
+    "❌ 再連携の準備中にエラーが発生しました。しばらく待ってから再試行してください。",
+
+  // /config
+  "config.notConfigured":
+    "## ⚙️ 設定状況\n\n❌ **未設定**\n\n勤怠管理システムが設定されていません。\n`/init` コマンドで初期設定を行ってください。\n\n**必要な権限**: 管理者",
+  "config.status":
+    "## ⚙️ 設定状況\n\n✅ **設定完了**\n\n**🗄️ 保存先**\n{storage}\n\n**📅 設定日時**: {createdAt}\n**👤 設定者**: <@{ownerId}>\n**🛡️ 勤怠管理者ロール**: {adminRoles}\n**📮 送信待ちの打刻**: {backlog}\n**⚠️ 反映できなかった打刻**: {failedWrites}\n\n**利用可能なコマンド**\n- `/start` - 勤務開始\n- `/end` - 勤務終了\n- `/admin-role` - 勤怠管理者ロールの設定（管理者のみ）\n- `/reset` - 設定リセット（管理者のみ）",
+  "config.failed": "❌ ステータス確認中にエラーが発生しました。",
+  "config.storageSheets": "Google スプレッドシート\n{spreadsheetUrl}",
+  "config.storageD1": "D1（スプレッドシート連携なし）",
+  "config.storageD1Mirror": "D1（スプレッドシートに複製）\n{spreadsheetUrl}",
+  "config.backlogEmpty": "なし",
+  "config.backlogPending": "{count}件（{since} から送信待ち）\n└ 最後のエラー: {error}",
+  "config.failedWritesEmpty": "なし",
+  "config.failedWrites":
+    "{count}件（`/edit` で記録を修正してください）\n{details}",
+  "config.failedWriteItem":
+    "└ {punchedAt} {operation}（{user}記録ID `{recordId}`）: {error}",
+  "config.failedWriteUser": "<@{userId}>・",
+  "config.operation.start": "勤務開始",
+  "config.operation.end": "勤務終了",
+  "config.operation.break_start": "休憩開始",
+  "config.operation.break_end": "休憩終了",
+  "config.failureReason.start_record_not_found": "対応する開始記録が見つかりません",
+  "config.failureReason.record_not_found": "記録が見つかりません",
+  "config.failureReason.unreadable_record": "開始時刻を解析できない記録です",
+  "config.failureReason.already_on_break": "既に休憩中です",
+  "config.failureReason.not_on_break": "休憩中ではありません",
+  "config.failureReason.config_not_found": "サーバー設定が見つかりません",
+
+  // /reset
+  "reset.success":
+    "## 🗑️ 設定リセット完了\n\n✅ 勤怠管理システムの設定がリセットされました。\n\n**削除された内容**\n- Google アカウントとの連携\n- スプレッドシートの関連付け\n- 保存されていた認証情報\n\n**次の手順**\n新しく設定する場合は `/init` コマンドを実行してください。\n\n⚠️ **注意**: スプレッドシート自体は削除されません。",
+  "reset.failed": "❌ リセット処理中にエラーが発生しました。",
+
+  // /admin-role
+  "adminRole.added": "✅ <@&{roleId}> を勤怠管理者ロールに追加しました。",
+  "adminRole.removed": "✅ <@&{roleId}> を勤怠管理者ロールから削除しました。",
+  "adminRole.list":
+    "## 🛡️ 勤怠管理者ロール\n\n{roles}\n\n管理者権限・サーバー管理権限を持つメンバー、サーバーオーナー、初期設定を行ったユーザーも管理者として扱われます。",
+  "adminRole.failed": "❌ 勤怠管理者ロールの設定中にエラーが発生しました。",
+
+  // /channels と打刻できるチャンネルの制限
+  "channels.allowed":
+    "✅ <#{channelId}> での打刻を許可しました。許可した場所以外では打刻できなくなります。",
+  "channels.denied": "✅ <#{channelId}> での打刻を禁止しました。",
+  "channels.removed": "✅ <#{channelId}> の設定を削除しました。",
+  "channels.cleared":
+    "✅ 打刻できるチャンネルの制限を解除しました。全てのチャンネルで打刻できます。",
+  "channels.list":
+    "## 📍 打刻できるチャンネル\n\n**許可**\n{allowed}\n\n**禁止**\n{denied}\n\nカテゴリーを指定した場合は配下のチャンネル（スレッドを含む）も対象です。禁止は許可より優先されます。",
+  "channels.anywhere": "全てのチャンネル",
+  "channels.failed": "❌ 打刻できるチャンネルの設定中にエラーが発生しました。",
+  "channels.punchNotAllowed": "❌ このチャンネルでは打刻できません。\n{places}",
+  "channels.allowedPlaces": "📍 打刻できる場所: {places}",
+  "channels.deniedPlaces": "🚫 打刻できない場所: {places}",
+
+  // /auto-close と自動終了の通知
+  "autoClose.title": "## ⏰ 自動終了の設定",
+  "autoClose.updated": "✅ 自動終了の設定を更新しました",
+  "autoClose.policyMaxLength": "開始時刻から{hours}時間後に終了",
+  "autoClose.policyLastActivity": "最後の操作（開始・休憩・再開）の時刻で終了",
+  "autoClose.summary":
+    "{heading}\n\n⏱️ **最大勤務時間**: {hours}時間\n📐 **終了時刻**: {policy}\n\n終了打刻がないまま最大勤務時間を超えた勤務は自動で終了され、本人にDMで通知されます。",
+  "autoClose.failed": "❌ 自動終了の設定中にエラーが発生しました。",
+  "autoClose.todoMarker": "【自動終了】終了打刻忘れ",
+  "autoClose.notification":
+    "⏰ **勤務を自動終了しました**\n\n📍 **プロジェクト**: {project}\n⏰ **開始時刻**: {startTime}\n⏰ **終了時刻**: {endTime}\n\n終了打刻がないまま{hours}時間を超えたため、自動で終了しました。\n実際の終了時刻は `/edit` コマンドで修正してください。",
+
+  // /digest とダイジェスト
+  "digest.title": "## 📰 ダイジェストの設定",
+  "digest.updated": "✅ ダイジェストの設定を更新しました",
+  "digest.disabled": "✅ ダイジェストの送信を停止しました",
+  "digest.notConfigured": "未設定（`channel` を指定すると送信を開始します）",
+  "digest.weeklyOn": "月曜日に送信",
+  "digest.weeklyOff": "送信しない",
+  "digest.summary":
+    "{heading}\n\n📢 **投稿先**: {channel}\n⏰ **送信時刻**: 毎日 {hour}:00（{timezone}）\n📅 **週間ダイジェスト**: {weekly}\n\n毎日、前日のメンバー別の労働時間と終了打刻忘れの勤務を投稿します（記録がない日は投稿しません）。週間ダイジェストは先週のプロジェクト別の合計です。",
+  "digest.failed": "❌ ダイジェストの設定中にエラーが発生しました。",
+  "digest.dailyHeader": "## 📰 勤怠ダイジェスト ({date})",
+  "digest.weeklyHeader": "## 📅 週間ダイジェスト ({period})",
+  "digest.byMember": "**👥 メンバー別**",
+  "digest.memberLine": "• {name} — {duration} ({count}件)",
+  "digest.forgotten": "**⚠️ 終了打刻忘れ**",
+  "digest.forgottenOpen": "• <@{userId}> — {project}（{startTime} 開始、未終了）",
+  "digest.forgottenAutoClosed":
+    "• <@{userId}> — {project}（{startTime} 開始、自動終了）",
+  "digest.total": "**⏰ 合計**: {duration} ({count}件)",
+  "digest.more": "... 他 {count} 件",
+
+  // /timezone
+  "timezone.title": "## 🌐 タイムゾーンの設定",
+  "timezone.updated": "✅ タイムゾーンの設定を更新しました",
+  "timezone.invalid":
+    "❌ タイムゾーン `{timezone}` は無効です。\nIANAタイムゾーン名で指定してください。\n例: `Asia/Tokyo`, `Europe/Berlin`, `America/New_York`",
+  "timezone.summary":
+    "{heading}\n\n🕒 **タイムゾーン**: {timezone}\n🗣️ **ロケール**: {locale}\n⏰ **現在時刻**: {now}{sheetMessage}{note}",
+  "timezone.sheetUpdated": "\n📊 スプレッドシートの設定も更新しました。",
+  "timezone.sheetUpdateFailed":
+    "\n⚠️ スプレッドシートのタイムゾーン設定に失敗しました: {error}",
+  "timezone.existingRecordsNote":
+    "\n\n※ 既存の記録の時刻は変換されません。新しいタイムゾーンの時刻として扱われます。",
+  "timezone.failed": "❌ タイムゾーンの設定中にエラーが発生しました。",
+
+  // /language
+  "language.title": "## 🗣️ 言語の設定",
+  "language.updated": "✅ 言語の設定を更新しました",
+  "language.summary":
+    "{heading}\n\n🗣️ **言語**: {language}\n\n自動の場合は、実行したユーザーのDiscordの言語設定（取得できない場合はサーバーの言語）に従います。",
+  "language.auto": "自動（Discordの言語設定に従う）",
+  "language.name.ja": "日本語",
+  "language.name.en": "English",
+  "language.failed": "❌ 言語の設定中にエラーが発生しました。",
+
+  // /columns
+  "columns.title": "## 📊 スプレッドシートの列の配置",
+  "columns.updated": "✅ 列の配置を更新しました",
+  "columns.reset": "✅ 列の配置を既定（A〜K列）に戻しました",
+  "columns.missingOption":
+    "❌ 列の配置を変更する場合は `field` と `column` を両方指定してください。",
+  "columns.invalidColumn":
+    "❌ 列 `{column}` は無効です。A〜ZZ の列名で指定してください。",
+  "columns.swapped": "\n↔️ 「{header}」は{column}列に入れ替えました。",
+  "columns.line": "`{column}` {header}",
+  "columns.summary":
+    "{heading}{note}\n\n{columns}\n\n新しく作成する月別シートは、この配置でヘッダー行を作成します。\n既存のシートはヘッダー名で列を判定するため、列を並べ替えたりメモ用の列を追加したりしても、そのまま記録できます（ヘッダー名は変更しないでください）。",
+  "columns.failed": "❌ 列の配置の設定中にエラーが発生しました。",
+
+  // OAuth コールバックのページ
+  "page.authErrorTitle": "認証エラー",
+  "page.authCancelled": "❌ 認証がキャンセルされました",
+  "page.invalidAuthParams": "❌ 認証パラメータが不正です",
+  "page.retryInit": "Discord に戻って再度 /init コマンドを実行してください。",
+  "page.setupCompleteTitle": "設定完了",
+  "page.setupComplete": "✅ 設定完了！",
+  "page.setupCompleteMessage": "勤怠管理システムの設定が完了しました。",
+  "page.reconnectCompleteTitle": "再連携完了",
+  "page.reconnectComplete": "✅ 再連携完了！",
+  "page.reconnectCompleteMessage":
+    "Google アカウントとの再連携が完了しました。これまでのスプレッドシートにそのまま記録されます。",
+  "page.openSpreadsheet": "📊 スプレッドシートを開く",
+  "page.checkConfig":
+    "Discord に戻って <code>/config</code> コマンドで設定を確認できます。",
+  "page.setupErrorTitle": "設定エラー",
+  "page.setupError": "❌ 設定エラー",
+  "page.errorContent": "エラー内容:",
+  "page.unknownError": "不明なエラーが発生しました",
+  "page.contactAdmin": "問題が続く場合は、管理者にお問い合わせください。",
+  "page.callbackError":
+    "認証処理中にエラーが発生しました。管理者にお問い合わせください。",
+  "page.invalidRequestTitle": "無効なリクエスト",
+  "page.invalidRequest": "❌ 無効なリクエストです",
+  "page.retryInitShort": "Discordに戻って /init コマンドを再実行してください。",
+
+  // OAuth コールバックの処理結果
+  "oauth.setupCreated":
+    "設定が完了しました！管理者のGoogleアカウントにスプレッドシートが作成されました。",
+  "oauth.setupAttached":
+    "設定が完了しました！指定したスプレッドシートと連携しました。",
+  "oauth.sessionNotFound":
+    "認証セッションが見つかりません。セッションが期限切れの可能性があります。",
+  "oauth.tokenFailed": "トークン取得に失敗しました",
+  "oauth.spreadsheetNotLinked":
+    "連携中のスプレッドシートが見つかりません。/init で設定してください。",
+  "oauth.spreadsheetInaccessible":
+    "このGoogleアカウントでは連携中のスプレッドシートを利用できません: {error}",
+  "oauth.spreadsheetCreateFailed": "スプレッドシート作成に失敗",
+  "oauth.spreadsheetPrepareFailed":
+    "スプレッドシートの準備に失敗しました: {error}",
+  "oauth.callbackFailed": "OAuth認証処理中にエラーが発生しました: {error}",
+
+  // セットアップガイドのページ
+  "guide.title": "勤怠管理Bot - Google認証設定",
+  "guide.heading": "🔧 勤怠管理Bot - Google認証設定",
+  "guide.noticeTitle": "⚠️ 重要な注意事項",
+  "guide.noticeBody":
+    "<p>この設定により、<strong>あなたのGoogleアカウント</strong>にスプレッドシートが作成されます。</p>\n<p>勤怠データはあなたのGoogle Driveに保存され、Botの開発者はアクセスできません。</p>",
+  "guide.stepsHeading": "📋 設定手順",
+  "guide.step1Title": "Step 1: Google Cloud Projectの作成",
+  "guide.step1Items":
+    '<li><a href="https://console.cloud.google.com/" target="_blank">Google Cloud Console</a>にアクセス</li>\n<li>新しいプロジェクトを作成（または既存のプロジェクトを選択）</li>\n<li>プロジェクト名: 例）「勤怠管理Bot用」</li>',
+  "guide.step2Title": "Step 2: OAuth同意画面の設定",
+  "guide.step2Items":
+    "<li>「APIとサービス」→「OAuth同意画面」</li>\n<li>User Type: 「外部」を選択して「作成」をクリック</li>\n<li>アプリ情報を入力：\n<ul>\n<li>アプリ名: 「勤怠管理Bot」わかりやすい名前をつけてください</li>\n<li>ユーザーサポートメール: あなたのGmailアドレス</li>\n<li>デベロッパーの連絡先情報: あなたのGmailアドレス</li>\n</ul>\n</li>\n<li>「保存して次へ」をクリック</li>\n<li>スコープ画面: 何も追加せず「保存して次へ」をクリック</li>\n<li>テストユーザー画面: あなたのGmailアドレスを追加して「保存して次へ」</li>\n<li>概要画面: 「ダッシュボードに戻る」をクリック</li>",
+  "guide.step2Note": "<strong>注意:</strong> 初回設定時は「テスト」状態です。",
+  "guide.step3Title": "Step 3: Google Sheets APIの有効化",
+  "guide.step3Items":
+    "<li>左側メニューから「APIとサービス」→「ライブラリ」</li>\n<li>「Google Sheets API」を検索</li>\n<li>「有効にする」をクリック</li>",
+  "guide.step4Title": "Step 4: OAuth認証情報の作成",
+  "guide.step4Items":
+    "<li>「APIとサービス」→「認証情報」</li>\n<li>「認証情報を作成」→「OAuth クライアント ID」</li>\n<li>アプリケーションの種類：「ウェブアプリケーション」</li>\n<li>名前：「勤怠管理Bot」</li>",
+  "guide.step4RedirectUri":
+    "<strong>⚠️ 重要：</strong> 承認済みのリダイレクト URI に以下を<strong>正確に</strong>追加：",
+  "guide.step4RedirectNote":
+    "<strong>注意:</strong> このURLを<strong>完全に一致</strong>するように入力してください。スペースや余分な文字があるとエラーになります。",
+  "guide.step4Create": "「作成」をクリック",
+  "guide.step5Title": "Step 5: 認証情報の入力",
+  "guide.step5Body":
+    "作成されたクライアント ID とクライアント シークレットを以下に入力してください：",
+  "guide.clientIdLabel": "クライアント ID:",
+  "guide.clientIdPlaceholder": "例: 123456789-abcdef.apps.googleusercontent.com",
+  "guide.clientSecretLabel": "クライアント シークレット:",
+  "guide.clientSecretPlaceholder": "例: GOCSPX-abcdefghijklmnop",
+  "guide.submit": "認証を開始",
+  "guide.loading": "処理中...",
+  "guide.troubleshootingTitle": "🔧 トラブルシューティング",
+  "guide.redirectMismatchTitle": '❌ "redirect_uri_mismatch" エラーが出る場合:',
+  "guide.redirectMismatchItems":
+    "<li>Google Cloud Console の認証情報設定を再確認</li>\n<li>リダイレクトURIが以下と<strong>完全に一致</strong>しているか確認：<br>\n{redirectUri}\n</li>\n<li>設定を保存後、数分待ってから再試行</li>\n<li>ブラウザのキャッシュをクリアしてから再試行</li>",
+  "guide.tipsTitle": "💡 確認のコツ:",
+  "guide.tipsItems":
+    "<li>リダイレクトURIをコピー&ペーストで入力することを推奨</li>\n<li>末尾にスペースや改行が入っていないか確認</li>\n<li>HTTPSであることを確認（HTTPではない）</li>",
+  "guide.registered": "✅ 認証情報が登録されました",
+  "guide.openAuthUrl": "こちらをクリックしてGoogle認証を完了してください",
+  "guide.afterAuth": "認証完了後、Discordに戻って勤怠管理が利用できます。",
+  "guide.error": "❌ エラーが発生しました",
+  "guide.networkError": "❌ 通信エラーが発生しました",
+
+  // OAuth認証情報登録API
+  "api.missingParams": "必要なパラメータが不足しています",
+  "api.registerFailed": "OAuth認証情報の登録に失敗しました",
+  "api.registerFailedDetail": "OAuth認証情報の登録に失敗しました: {error}",
+  "api.invalidState": "認証セッションが無効または期限切れです",
+  "api.stateUsed":
+    "この認証セッションでは既に認証情報が登録されています。/init をやり直してください。",
+  "api.stateMismatch":
+    "認証セッションがこのサーバーのものではありません。/init をやり直してください。",
+  "api.rateLimited":
+    "リクエストが多すぎます。{seconds}秒ほど待ってから再試行してください",
+};
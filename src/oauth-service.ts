@@ -1,7 +1,52 @@
-import { SetupResult, Bindings, GoogleOAuthTokens } from "./types";
+import {
+  SetupResult,
+  Bindings,
+  GoogleOAuthTokens,
+  Language,
+  OAuthState,
+  OAuthFlow,
+} from "./types";
 import { SheetsService } from "./sheets-service";
 import { ServerConfigService } from "./server-config-service";
-import { CryptoService } from "./crypto-service";
+import { CryptoService, createCryptoService } from "./crypto-service";
+import { hasSpreadsheet } from "./attendance-store";
+import { resetAttendanceCoordinator } from "./attendance-coordinator";
+import { Translator, MessageKey } from "./i18n";
+
+// 認証セッション（oauth_state:*）の有効期間（秒）
+const OAUTH_STATE_TTL = 600;
+
+// 設定が完了した場合のメッセージ（連携の種類ごと）
+const SETUP_COMPLETE_MESSAGES: Record<OAuthFlow, MessageKey> = {
+  init: "oauth.setupCreated",
+  attach: "oauth.setupAttached",
+  reconnect: "page.reconnectCompleteMessage",
+};
+
+/**
+ * PKCE の code_verifier を生成（32バイトの乱数を Base64URL にした43文字）
+ */
+function generateCodeVerifier(): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * code_verifier から code_challenge（S256）を計算
+ */
+async function computeCodeChallenge(codeVerifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(codeVerifier)
+  );
+  return toBase64Url(new Uint8Array(digest));
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
 
 export class OAuthService {
   private kv: KVNamespace;
@@ -11,72 +56,195 @@ export class OAuthService {
   constructor(env: Bindings) {
     this.kv = env.KINTAI_DISCORD_KV;
     this.env = env;
-    this.cryptoService = new CryptoService(env.ENCRYPTION_KEY);
+    this.cryptoService = createCryptoService(env);
   }
 
-  async generateAuthUrl(guildId: string, userId: string): Promise<string> {
+  /**
+   * 認証を開始するURLを生成
+   * 認証セッション（state）はコマンドを実行した管理者とサーバーに紐付け、コールバックで1回だけ使える
+   * 再連携（reconnect）で OAuth 認証情報が保存済みの場合は、登録ページを省略して Google の認証ページに直接進む
+   * @param options flow: 認証の目的、spreadsheetId: attach で連携するスプレッドシート
+   */
+  async generateAuthUrl(
+    guildId: string,
+    userId: string,
+    language?: Language,
+    options: { flow?: OAuthFlow; spreadsheetId?: string } = {}
+  ): Promise<string> {
     const state = crypto.randomUUID();
-    const authData = { guildId, userId, timestamp: Date.now() };
+    // 保存済みの認証情報で再連携する場合は、登録ページを使わないため登録済みとして保存する
+    const storedCredentials =
+      options.flow === "reconnect"
+        ? await this.kv.get(`oauth_credentials:${guildId}`)
+        : null;
+    const authData: OAuthState = {
+      guildId,
+      userId,
+      language,
+      flow: options.flow,
+      spreadsheetId: options.spreadsheetId,
+      timestamp: Date.now(),
+      registered: !!storedCredentials,
+    };
 
     await this.kv.put(`oauth_state:${state}`, JSON.stringify(authData), {
-      expirationTtl: 600,
+      expirationTtl: OAUTH_STATE_TTL,
     });
-    return this.generateSetupGuideUrl(guildId, state);
+
+    if (options.flow === "reconnect") {
+      if (storedCredentials) {
+        const { clientId, clientSecret } = JSON.parse(
+          await this.cryptoService.decrypt(storedCredentials)
+        );
+        return this.startGoogleAuth(state, {
+          clientId,
+          clientSecret,
+          guildId,
+          userId,
+          flow: "reconnect",
+        });
+      }
+    }
+
+    return this.generateSetupGuideUrl(guildId, state, language);
+  }
+
+  /**
+   * 認証セッション開始時（/init 実行時）の言語を取得（コールバックページの表示用）
+   */
+  async getStateLanguage(state: string): Promise<Language | null> {
+    const authDataStr = await this.kv.get(`oauth_state:${state}`);
+    if (!authDataStr) return null;
+    return (JSON.parse(authDataStr) as { language?: Language }).language || null;
   }
 
-  private generateSetupGuideUrl(guildId: string, state: string): string {
+  private generateSetupGuideUrl(
+    guildId: string,
+    state: string,
+    language?: Language
+  ): string {
     const params = new URLSearchParams({
       guild: guildId,
       state: state,
       type: "oauth_init",
+      ...(language && { lang: language }),
     });
     return `https://kintai-discord-v2.nasubi.dev/init-guide?${params.toString()}`;
   }
 
+  /**
+   * Google の認証ページのURLを生成（PKCE の code_challenge を付ける）
+   */
+  private async buildGoogleAuthUrl(
+    clientId: string,
+    state: string,
+    codeVerifier: string
+  ): Promise<string> {
+    const redirectUri = `https://kintai-discord-v2.nasubi.dev/oauth/callback`;
+    const params = new URLSearchParams({
+      response_type: "code",
+      client_id: clientId,
+      redirect_uri: redirectUri,
+      scope: "https://www.googleapis.com/auth/spreadsheets",
+      state: state,
+      access_type: "offline",
+      prompt: "consent",
+      code_challenge: await computeCodeChallenge(codeVerifier),
+      code_challenge_method: "S256",
+    });
+    return `https://accounts.google.com/o/oauth2/auth?${params.toString()}`;
+  }
+
+  /**
+   * コールバックまでの一時的な認証情報（認証の目的と PKCE の code_verifier も合わせて保持する）を保存し、
+   * Google の認証ページのURLを返す
+   */
+  private async startGoogleAuth(
+    state: string,
+    credentials: {
+      clientId: string;
+      clientSecret: string;
+      guildId: string;
+      userId: string;
+      flow?: OAuthFlow;
+      spreadsheetId?: string;
+    }
+  ): Promise<string> {
+    const codeVerifier = generateCodeVerifier();
+    await this.kv.put(
+      `temp_oauth:${state}`,
+      await this.cryptoService.encrypt(
+        JSON.stringify({ ...credentials, codeVerifier })
+      ),
+      { expirationTtl: 3600 }
+    );
+    return this.buildGoogleAuthUrl(credentials.clientId, state, codeVerifier);
+  }
+
+  /**
+   * 登録ページで入力された OAuth 認証情報を受け付ける
+   * 実行者は state で認証する（/init を実行した管理者とサーバーに紐付いている）
+   * 登録は state ごとに1回だけ受け付け、管理者の認証情報を後から上書きさせない
+   */
   async registerOAuthCredentials(
     guildId: string,
-    userId: string,
     clientId: string,
     clientSecret: string,
-    state: string
+    state: string,
+    t: Translator
   ): Promise<{ success: boolean; authUrl?: string; error?: string }> {
     try {
       const authDataStr = await this.kv.get(`oauth_state:${state}`);
       if (!authDataStr) {
         return {
           success: false,
-          error: "認証セッションが無効または期限切れです",
+          error: t("api.invalidState"),
+        };
+      }
+      const authData = JSON.parse(authDataStr) as OAuthState;
+      if (authData.guildId !== guildId || !authData.userId) {
+        console.warn("OAuth registration rejected: state mismatch", {
+          guildId,
+        });
+        return {
+          success: false,
+          error: t("api.stateMismatch"),
+        };
+      }
+      if (authData.registered) {
+        console.warn("OAuth registration rejected: state already used", {
+          guildId,
+        });
+        return {
+          success: false,
+          error: t("api.stateUsed"),
         };
       }
 
-      const credentialsData = { clientId, clientSecret, guildId, userId };
-      const credentialsJson = JSON.stringify(credentialsData);
-      const encryptedCredentials = await this.cryptoService.encrypt(
-        credentialsJson
+      // 一時的な認証情報を保存する前に登録済みにする
+      // 有効期限は最初に発行した時点から数える（KV の有効期限は60秒以上先でなければならない）
+      await this.kv.put(
+        `oauth_state:${state}`,
+        JSON.stringify({ ...authData, registered: true }),
+        {
+          expiration: Math.max(
+            Math.floor(authData.timestamp / 1000) + OAUTH_STATE_TTL,
+            Math.floor(Date.now() / 1000) + 60
+          ),
+        }
       );
 
-      // 一時的な認証情報
-      await this.kv.put(`temp_oauth:${state}`, encryptedCredentials, {
-        expirationTtl: 3600,
-      });
-
-      // 永続的なOAuth認証情報（リフレッシュ時に使用）
-      await this.kv.put(`oauth_credentials:${guildId}`, encryptedCredentials);
-
-      const redirectUri = `https://kintai-discord-v2.nasubi.dev/oauth/callback`;
-      const params = new URLSearchParams({
-        response_type: "code",
-        client_id: clientId,
-        redirect_uri: redirectUri,
-        scope: "https://www.googleapis.com/auth/spreadsheets",
-        state: state,
-        access_type: "offline",
-        prompt: "consent",
-      });
-
+      // 永続的なOAuth認証情報はGoogle認証が完了してから保存する（コールバックで使うまでは一時保存のみ）
       return {
         success: true,
-        authUrl: `https://accounts.google.com/o/oauth2/auth?${params.toString()}`,
+        authUrl: await this.startGoogleAuth(state, {
+          clientId,
+          clientSecret,
+          guildId: authData.guildId,
+          userId: authData.userId,
+          flow: authData.flow,
+          spreadsheetId: authData.spreadsheetId,
+        }),
       };
     } catch (error) {
       const errorMessage =
@@ -88,21 +256,28 @@ export class OAuthService {
 
       return {
         success: false,
-        error: `OAuth認証情報の登録に失敗しました: ${errorMessage}`,
+        error: t("api.registerFailedDetail", { error: errorMessage }),
       };
     }
   }
 
-  async handleCallback(code: string, state: string): Promise<SetupResult> {
+  async handleCallback(
+    code: string,
+    state: string,
+    t: Translator
+  ): Promise<SetupResult> {
     try {
       const tempKey = `temp_oauth:${state}`;
       const encryptedCredentials = await this.kv.get(tempKey);
 
+      // 認証セッションは1回だけ使える（失敗した場合も再利用させず、/init からやり直す）
+      await this.kv.delete(`oauth_state:${state}`);
+      await this.kv.delete(tempKey);
+
       if (!encryptedCredentials) {
         return {
           success: false,
-          error:
-            "認証セッションが見つかりません。セッションが期限切れの可能性があります。",
+          error: t("oauth.sessionNotFound"),
         };
       }
 
@@ -114,50 +289,112 @@ export class OAuthService {
       const tokenData = await this.exchangeCodeForTokens(
         code,
         credentials.clientId,
-        credentials.clientSecret
+        credentials.clientSecret,
+        credentials.codeVerifier
       );
       if (!tokenData.success) {
         return {
           success: false,
-          error: tokenData.error || "トークン取得に失敗しました",
+          error: tokenData.error || t("oauth.tokenFailed"),
         };
       }
 
+      // 再設定時はサーバー別のタイムゾーン・ロケール・列の配置を引き継いでスプレッドシートを作成
+      const serverConfigService = new ServerConfigService(this.env);
       const sheetsService = new SheetsService(
         this.env,
-        tokenData.tokens!.access_token
-      );
-      const spreadsheetResult = await sheetsService.createKintaiSpreadsheet(
-        credentials.guildId
+        tokenData.tokens!.access_token,
+        await serverConfigService.getTimeSettings(credentials.guildId),
+        await serverConfigService.getColumnLayout(credentials.guildId)
       );
+      const flow: OAuthFlow = credentials.flow || "init";
+      let spreadsheetUrl: string | undefined;
+
+      if (flow === "reconnect") {
+        // 連携中のスプレッドシートに新しいトークンでアクセスできることを確認してからトークンだけを差し替える
+        const config = await serverConfigService.getServerConfig(
+          credentials.guildId
+        );
+        if (!config || !hasSpreadsheet(config)) {
+          return {
+            success: false,
+            error: t("oauth.spreadsheetNotLinked"),
+          };
+        }
 
-      if (!spreadsheetResult.success) {
-        const errorDetails =
-          spreadsheetResult.error || "スプレッドシート作成に失敗";
-        return {
-          success: false,
-          error: `スプレッドシートの作成に失敗しました: ${errorDetails}`,
-        };
+        const attachResult = await sheetsService.attachKintaiSpreadsheet(
+          config.spreadsheet_id,
+          credentials.guildId
+        );
+        if (!attachResult.success) {
+          return {
+            success: false,
+            error: t("oauth.spreadsheetInaccessible", {
+              error: attachResult.error || "",
+            }),
+          };
+        }
+
+        await serverConfigService.updateAccessToken(
+          credentials.guildId,
+          tokenData.tokens!
+        );
+        spreadsheetUrl = config.sheet_url;
+      } else {
+        const spreadsheetResult =
+          flow === "attach"
+            ? await sheetsService.attachKintaiSpreadsheet(
+                credentials.spreadsheetId,
+                credentials.guildId
+              )
+            : await sheetsService.createKintaiSpreadsheet(credentials.guildId);
+
+        if (!spreadsheetResult.success) {
+          const errorDetails =
+            spreadsheetResult.error || t("oauth.spreadsheetCreateFailed");
+          return {
+            success: false,
+            error: t("oauth.spreadsheetPrepareFailed", { error: errorDetails }),
+          };
+        }
+
+        const previousConfig = await serverConfigService.getServerConfig(
+          credentials.guildId
+        );
+        await serverConfigService.saveServerConfig(
+          credentials.guildId,
+          credentials.userId,
+          tokenData.tokens!,
+          spreadsheetResult.spreadsheetId!,
+          spreadsheetResult.spreadsheetUrl!
+        );
+        // スプレッドシートが保存先になるため、以前の保存先の索引・送信待ちキューを削除する
+        // （D1 を保存先とするサーバーは複製先が増えるだけなので、そのまま使う）
+        if (previousConfig?.storage !== "d1") {
+          await resetAttendanceCoordinator(this.env, credentials.guildId);
+        }
+        spreadsheetUrl = spreadsheetResult.spreadsheetUrl;
       }
 
-      const serverConfigService = new ServerConfigService(this.env);
-      await serverConfigService.saveServerConfig(
-        credentials.guildId,
-        credentials.userId,
-        tokenData.tokens!,
-        spreadsheetResult.spreadsheetId!,
-        spreadsheetResult.spreadsheetUrl!
+      // 永続的なOAuth認証情報（リフレッシュ時に使用）
+      await this.kv.put(
+        `oauth_credentials:${credentials.guildId}`,
+        await this.cryptoService.encrypt(
+          JSON.stringify({
+            clientId: credentials.clientId,
+            clientSecret: credentials.clientSecret,
+            guildId: credentials.guildId,
+            userId: credentials.userId,
+          })
+        )
       );
 
-      await this.kv.delete(`oauth_state:${state}`);
-      await this.kv.delete(tempKey);
-
       return {
         success: true,
+        flow,
         guildId: credentials.guildId,
-        spreadsheetUrl: spreadsheetResult.spreadsheetUrl,
-        message:
-          "設定が完了しました！管理者のGoogleアカウントにスプレッドシートが作成されました。",
+        spreadsheetUrl,
+        message: t(SETUP_COMPLETE_MESSAGES[flow]),
       };
     } catch (error) {
       const errorMessage =
@@ -169,7 +406,7 @@ export class OAuthService {
 
       return {
         success: false,
-        error: `OAuth認証処理中にエラーが発生しました: ${errorMessage}`,
+        error: t("oauth.callbackFailed", { error: errorMessage }),
       };
     }
   }
@@ -180,7 +417,8 @@ export class OAuthService {
   private async exchangeCodeForTokens(
     code: string,
     clientId: string,
-    clientSecret: string
+    clientSecret: string,
+    codeVerifier: string
   ): Promise<{ success: boolean; tokens?: GoogleOAuthTokens; error?: string }> {
     try {
       const response = await fetch("https://oauth2.googleapis.com/token", {
@@ -194,6 +432,7 @@ export class OAuthService {
           client_secret: clientSecret,
           redirect_uri: `https://kintai-discord-v2.nasubi.dev/oauth/callback`,
           grant_type: "authorization_code",
+          code_verifier: codeVerifier,
         }),
       });
 
@@ -255,7 +494,7 @@ export class OAuthService {
         return {
           success: false,
           error:
-            "リフレッシュトークンが見つかりません。再度セットアップが必要です。",
+            "リフレッシュトークンが見つかりません。/reconnect で再連携してください。",
         };
       }
 
@@ -292,27 +531,18 @@ export class OAuthService {
         });
         return {
           success: false,
-          error: `トークンの更新に失敗しました: ${response.status}`,
+          // 400（invalid_grant）はリフレッシュトークンの失効（パスワード変更・アクセス権の取り消しなど）
+          error:
+            response.status === 400
+              ? `トークンの更新に失敗しました: ${response.status}（/reconnect で再連携してください）`
+              : `トークンの更新に失敗しました: ${response.status}`,
         };
       }
 
       const tokens = (await response.json()) as GoogleOAuthTokens;
 
-      // 新しいアクセストークンで設定を更新
-      const updatedTokens = {
-        access_token: tokens.access_token,
-        refresh_token: tokens.refresh_token || config.refresh_token, // 新しいリフレッシュトークンがない場合は既存のものを使用
-        expires_in: tokens.expires_in,
-        token_type: tokens.token_type,
-      };
-
-      await serverConfigService.saveServerConfig(
-        guildId,
-        config.owner_id,
-        updatedTokens,
-        config.spreadsheet_id,
-        config.sheet_url
-      );
+      // 新しいアクセストークンで設定を更新（新しいリフレッシュトークンがない場合は既存のものを使用）
+      await serverConfigService.updateAccessToken(guildId, tokens);
 
       return { success: true };
     } catch (error) {
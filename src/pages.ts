@@ -0,0 +1,414 @@
+import { html, raw } from "hono/html";
+import type { HtmlEscapedString } from "hono/utils/html";
+import { Translator } from "./i18n";
+
+// Webページ（OAuth のコールバック・設定ガイド）のテンプレート
+// 埋め込む値は html タグ付きテンプレートで全てエスケープされる
+// 翻訳メッセージのうち HTML を含むもの（ソースコードで管理している信頼できる値）だけを trusted で埋め込む
+
+type Html = HtmlEscapedString | Promise<HtmlEscapedString>;
+
+// Google Cloud Console に登録してもらうリダイレクトURI（固定値のため HTML にそのまま埋め込める）
+const REDIRECT_URI = "https://kintai-discord-v2.nasubi.dev/oauth/callback";
+
+/**
+ * 翻訳メッセージを HTML としてそのまま埋め込む（ユーザー入力を含む値には使わない）
+ */
+function trusted(message: string): HtmlEscapedString {
+  return raw(message);
+}
+
+const MESSAGE_PAGE_STYLE = `
+  body { font-family: Arial, sans-serif; text-align: center; padding: 20px; }
+  .container { max-width: 500px; margin: 0 auto; }
+  .success { color: #28a745; }
+  .error { color: #dc3545; }
+  .error-content { background: #f8f9fa; padding: 15px; border-left: 4px solid #dc3545; margin: 10px 0; text-align: left; white-space: pre-wrap; word-break: break-word; }
+`;
+
+/**
+ * ページ共通のレイアウト
+ */
+function layout(t: Translator, title: string, style: string, body: Html): Html {
+  return html`<!DOCTYPE html>
+<html lang="${t.language}">
+  <head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${title}</title>
+    <style>${raw(style)}</style>
+  </head>
+  <body>
+    ${body}
+  </body>
+</html>`;
+}
+
+/**
+ * Google の認証がキャンセルされた・パラメータが不正な場合のページ
+ */
+export function renderAuthErrorPage(
+  t: Translator,
+  headingKey: "page.authCancelled" | "page.invalidAuthParams"
+): Html {
+  return layout(
+    t,
+    t("page.authErrorTitle"),
+    MESSAGE_PAGE_STYLE,
+    html`<div class="container">
+      <h1 class="error">${t(headingKey)}</h1>
+      <p>${t("page.retryInit")}</p>
+    </div>`
+  );
+}
+
+/**
+ * 設定（再連携）が完了した場合のページ（5秒後にウィンドウを閉じる）
+ * @param message 連携の種類ごとの完了メッセージ（省略時は既定のメッセージ）
+ * @param nonce Content-Security-Policy で許可するスクリプトの nonce
+ */
+export function renderSetupCompletePage(
+  t: Translator,
+  options: {
+    reconnected: boolean;
+    message?: string;
+    spreadsheetUrl?: string;
+    nonce?: string;
+  }
+): Html {
+  const { reconnected, message, spreadsheetUrl, nonce } = options;
+  return layout(
+    t,
+    t(reconnected ? "page.reconnectCompleteTitle" : "page.setupCompleteTitle"),
+    MESSAGE_PAGE_STYLE,
+    html`<div class="container">
+      <h1 class="success">${t(
+        reconnected ? "page.reconnectComplete" : "page.setupComplete"
+      )}</h1>
+      <p>${message ||
+        t(
+          reconnected
+            ? "page.reconnectCompleteMessage"
+            : "page.setupCompleteMessage"
+        )}</p>
+      ${spreadsheetUrl?.startsWith("https://")
+        ? html`<p><a href="${spreadsheetUrl}" target="_blank" rel="noopener noreferrer">${t(
+            "page.openSpreadsheet"
+          )}</a></p>`
+        : ""}
+      <p>${trusted(t("page.checkConfig"))}</p>
+      <script nonce="${nonce}">
+        setTimeout(() => {
+          window.close();
+        }, 5000);
+      </script>
+    </div>`
+  );
+}
+
+/**
+ * 設定に失敗した場合のページ
+ * @param error 利用者に表示するエラー内容（省略時は予期しないエラーとして詳細を表示しない）
+ */
+export function renderSetupErrorPage(t: Translator, error?: string): Html {
+  return layout(
+    t,
+    t("page.setupErrorTitle"),
+    MESSAGE_PAGE_STYLE,
+    html`<div class="container">
+      <h1 class="error">${t("page.setupError")}</h1>
+      ${error
+        ? html`<p><strong>${t("page.errorContent")}</strong></p>
+            <div class="error-content">${error}</div>`
+        : html`<p>${t("page.callbackError")}</p>`}
+      <p>${t("page.retryInit")}</p>
+      <p>${t("page.contactAdmin")}</p>
+    </div>`
+  );
+}
+
+/**
+ * 設定ガイドのパラメータが不正な場合のページ
+ */
+export function renderInvalidRequestPage(t: Translator): Html {
+  return layout(
+    t,
+    t("page.invalidRequestTitle"),
+    MESSAGE_PAGE_STYLE,
+    html`<div class="container">
+      <h1>${t("page.invalidRequest")}</h1>
+      <p>${t("page.retryInitShort")}</p>
+    </div>`
+  );
+}
+
+const GUIDE_PAGE_STYLE = `
+  body {
+    font-family: Arial, sans-serif;
+    max-width: 800px;
+    margin: 0 auto;
+    padding: 20px;
+    line-height: 1.6;
+  }
+  .step {
+    background: #f5f5f5;
+    padding: 15px;
+    margin: 10px 0;
+    border-radius: 5px;
+  }
+  .warning {
+    background: #fff3cd;
+    border: 1px solid #ffeaa7;
+    padding: 10px;
+    border-radius: 5px;
+  }
+  .success {
+    background: #d4edda;
+    border: 1px solid #c3e6cb;
+    padding: 10px;
+    border-radius: 5px;
+  }
+  code {
+    background: #e9ecef;
+    padding: 2px 4px;
+    border-radius: 3px;
+    word-break: break-all;
+  }
+  .redirect-uri {
+    font-size: 14px;
+    background: #f8f9fa;
+    padding: 8px;
+    display: block;
+    margin: 5px 0;
+    border: 2px solid #007bff;
+  }
+  .redirect-note {
+    background: #fff3cd;
+    padding: 8px;
+    margin: 5px 0;
+    border-radius: 4px;
+    font-size: 12px;
+  }
+  .troubleshooting {
+    background: #f8d7da;
+    border: 1px solid #f5c6cb;
+    padding: 10px;
+    border-radius: 4px;
+  }
+  .tips {
+    background: #d1ecf1;
+    border: 1px solid #bee5eb;
+    padding: 10px;
+    border-radius: 4px;
+    margin-top: 10px;
+  }
+  .form-group {
+    margin: 15px 0;
+  }
+  input[type="text"] {
+    width: 100%;
+    padding: 8px;
+    border: 1px solid #ddd;
+    border-radius: 4px;
+    box-sizing: border-box;
+  }
+  button {
+    background: #007bff;
+    color: white;
+    padding: 10px 20px;
+    border: none;
+    border-radius: 4px;
+    cursor: pointer;
+  }
+  button:hover {
+    background: #0056b3;
+  }
+  .loading {
+    display: none;
+  }
+`;
+
+// 登録APIの結果を表示するスクリプト
+// サーバーから受け取った値は textContent・href で設定し、HTML として解釈させない
+const GUIDE_PAGE_SCRIPT = `
+  const form = document.getElementById('oauth-form');
+  form.addEventListener('submit', async function(e) {
+    e.preventDefault();
+
+    const submitButton = form.querySelector('button[type="submit"]');
+    const loading = document.getElementById('loading');
+    const result = document.getElementById('result');
+
+    const showTemplate = (id) => {
+      const content = document.getElementById(id).content.cloneNode(true);
+      result.replaceChildren(content);
+      return result;
+    };
+
+    submitButton.style.display = 'none';
+    loading.style.display = 'block';
+
+    const formData = new FormData(form);
+
+    try {
+      const response = await fetch('/api/register-oauth?lang=' + encodeURIComponent(form.dataset.lang), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          guildId: form.dataset.guildId,
+          clientId: formData.get('clientId'),
+          clientSecret: formData.get('clientSecret'),
+          state: form.dataset.state
+        })
+      });
+
+      const data = await response.json();
+
+      if (data.success && /^https:\\/\\/accounts\\.google\\.com\\//.test(data.authUrl)) {
+        showTemplate('registered-template').querySelector('.auth-link').href = data.authUrl;
+      } else {
+        showTemplate('error-template').querySelector('.error-message').textContent = data.error || '';
+        submitButton.style.display = 'block';
+      }
+    } catch (error) {
+      showTemplate('network-error-template').querySelector('.error-message').textContent = error.message;
+      submitButton.style.display = 'block';
+    } finally {
+      loading.style.display = 'none';
+    }
+  });
+`;
+
+/**
+ * Google OAuth の設定ガイド（認証情報の登録フォーム）のページ
+ * @param nonce Content-Security-Policy で許可するスクリプトの nonce
+ */
+export function renderInitGuidePage(
+  t: Translator,
+  options: { guildId: string; state: string; nonce?: string }
+): Html {
+  const { guildId, state, nonce } = options;
+  return layout(
+    t,
+    t("guide.title"),
+    GUIDE_PAGE_STYLE,
+    html`<h1>${t("guide.heading")}</h1>
+
+    <div class="warning">
+      <h3>${t("guide.noticeTitle")}</h3>
+      ${trusted(t("guide.noticeBody"))}
+    </div>
+
+    <h2>${t("guide.stepsHeading")}</h2>
+
+    <div class="step">
+      <h3>${t("guide.step1Title")}</h3>
+      <ol>
+        ${trusted(t("guide.step1Items"))}
+      </ol>
+    </div>
+
+    <div class="step">
+      <h3>${t("guide.step2Title")}</h3>
+      <ol>
+        ${trusted(t("guide.step2Items"))}
+      </ol>
+      <div class="warning">
+        <p>${trusted(t("guide.step2Note"))}</p>
+      </div>
+    </div>
+
+    <div class="step">
+      <h3>${t("guide.step3Title")}</h3>
+      <ol>
+        ${trusted(t("guide.step3Items"))}
+      </ol>
+    </div>
+
+    <div class="step">
+      <h3>${t("guide.step4Title")}</h3>
+      <ol>
+        ${trusted(t("guide.step4Items"))}
+        <li>${trusted(t("guide.step4RedirectUri"))}<br>
+          <code class="redirect-uri">${REDIRECT_URI}</code>
+          <div class="redirect-note">
+            ${trusted(t("guide.step4RedirectNote"))}
+          </div>
+        </li>
+        <li>${t("guide.step4Create")}</li>
+      </ol>
+    </div>
+
+    <div class="step">
+      <h3>${t("guide.step5Title")}</h3>
+      <p>${t("guide.step5Body")}</p>
+
+      <form id="oauth-form" data-guild-id="${guildId}" data-state="${state}" data-lang="${t.language}">
+        <div class="form-group">
+          <label for="client-id">${t("guide.clientIdLabel")}</label>
+          <input type="text" id="client-id" name="clientId" placeholder="${t(
+            "guide.clientIdPlaceholder"
+          )}" required>
+        </div>
+
+        <div class="form-group">
+          <label for="client-secret">${t("guide.clientSecretLabel")}</label>
+          <input type="text" id="client-secret" name="clientSecret" placeholder="${t(
+            "guide.clientSecretPlaceholder"
+          )}" required>
+        </div>
+
+        <button type="submit">${t("guide.submit")}</button>
+        <div class="loading" id="loading">${t("guide.loading")}</div>
+      </form>
+    </div>
+
+    <div class="step">
+      <h3>${t("guide.troubleshootingTitle")}</h3>
+      <div class="troubleshooting">
+        <h4>${t("guide.redirectMismatchTitle")}</h4>
+        <ol>
+          ${trusted(
+            t("guide.redirectMismatchItems", {
+              redirectUri: `<code>${REDIRECT_URI}</code>`,
+            })
+          )}
+        </ol>
+      </div>
+      <div class="tips">
+        <h4>${t("guide.tipsTitle")}</h4>
+        <ul>
+          ${trusted(t("guide.tipsItems"))}
+        </ul>
+      </div>
+    </div>
+
+    <div id="result"></div>
+
+    <template id="registered-template">
+      <div class="success">
+        <h3>${t("guide.registered")}</h3>
+        <p><a class="auth-link" target="_blank" rel="noopener noreferrer">${t(
+          "guide.openAuthUrl"
+        )}</a></p>
+        <p>${t("guide.afterAuth")}</p>
+      </div>
+    </template>
+    <template id="error-template">
+      <div class="warning">
+        <h3>${t("guide.error")}</h3>
+        <p class="error-message"></p>
+      </div>
+    </template>
+    <template id="network-error-template">
+      <div class="warning">
+        <h3>${t("guide.networkError")}</h3>
+        <p class="error-message"></p>
+      </div>
+    </template>
+
+    <script nonce="${nonce}">${raw(GUIDE_PAGE_SCRIPT)}</script>`
+  );
+}
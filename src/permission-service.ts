@@ -0,0 +1,80 @@
+import { APIInteraction, PermissionFlagsBits } from "discord-api-types/v10";
+import { Bindings, AdminPermissionResult } from "./types";
+import { DiscordApiService } from "./discord-api-service";
+import { ServerConfigService } from "./server-config-service";
+
+export class PermissionService {
+  private env: Bindings;
+
+  constructor(env: Bindings) {
+    this.env = env;
+  }
+
+  /**
+   * 勤怠管理Botの管理者権限をチェック
+   * 以下のいずれかを満たす場合に管理者として扱う
+   * 1. Discordの管理者権限 / サーバー管理権限
+   * 2. /init を実行した設定者（ServerConfig.owner_id）
+   * 3. 勤怠管理者ロールを持つメンバー
+   * 4. サーバーオーナー
+   */
+  async checkAdminPermission(
+    interaction: APIInteraction
+  ): Promise<AdminPermissionResult> {
+    const guildId = interaction.guild_id;
+    const member = interaction.member;
+
+    // DMなどサーバー外での実行は管理者操作不可
+    if (!guildId || !member) {
+      return { allowed: false };
+    }
+
+    // 1. メンバーの権限ビットフィールドをチェック（53bitを超えるためBigIntで判定）
+    if (member.permissions) {
+      const permissions = BigInt(member.permissions);
+
+      if (
+        (permissions & PermissionFlagsBits.Administrator) ===
+        PermissionFlagsBits.Administrator
+      ) {
+        return { allowed: true, reason: "administrator" };
+      }
+
+      if (
+        (permissions & PermissionFlagsBits.ManageGuild) ===
+        PermissionFlagsBits.ManageGuild
+      ) {
+        return { allowed: true, reason: "manage_guild" };
+      }
+    }
+
+    const userId = member.user.id;
+
+    // 2・3. 設定者と勤怠管理者ロールをチェック
+    const serverConfigService = new ServerConfigService(this.env);
+    const config = await serverConfigService.getServerConfig(guildId);
+    if (config) {
+      if (config.owner_id && config.owner_id === userId) {
+        return { allowed: true, reason: "config_owner" };
+      }
+
+      const adminRoleIds = config.admin_role_ids || [];
+      if (member.roles.some((roleId) => adminRoleIds.includes(roleId))) {
+        return { allowed: true, reason: "admin_role" };
+      }
+    }
+
+    // 4. サーバーオーナーをチェック（インタラクションに含まれないためAPIで取得）
+    try {
+      const discordApiService = new DiscordApiService(this.env.DISCORD_TOKEN);
+      const guild = await discordApiService.getGuild(guildId);
+      if (guild?.owner_id === userId) {
+        return { allowed: true, reason: "guild_owner" };
+      }
+    } catch (error) {
+      console.warn("Failed to fetch guild owner:", error);
+    }
+
+    return { allowed: false };
+  }
+}
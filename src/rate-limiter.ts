@@ -0,0 +1,139 @@
+import { DurableObject } from "cloudflare:workers";
+import { Bindings } from "./types";
+
+// トークンバケットの設定（capacity 回まで連続で使え、1秒あたり refillPerSecond 回分回復する）
+export interface RateLimitRule {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+// 制限の単位ごとの設定
+export const RATE_LIMIT_RULES = {
+  // 1ユーザーのコマンド・ボタン操作（5回まで連続、以降は3秒に1回）
+  user: { capacity: 5, refillPerSecond: 1 / 3 },
+  // 1サーバー全体のコマンド・ボタン操作（30回まで連続、以降は1秒に1回）
+  guild: { capacity: 30, refillPerSecond: 1 },
+  // 公開API（/api/*）への1IPアドレスからのリクエスト（20回まで連続、以降は3秒に1回）
+  ip: { capacity: 20, refillPerSecond: 1 / 3 },
+} satisfies Record<string, RateLimitRule>;
+
+// 最後の利用からこの時間が経ったバケットは満タンに戻っているため、保存内容を削除する
+const IDLE_CLEANUP_MS = 10 * 60 * 1000;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number; // 制限された場合に再試行できるまでの秒数
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * 指定の単位の回数制限を確認し、制限内であれば1回分消費する
+ * 回数制限の確認に失敗した場合は処理を止めないよう許可する
+ * @param name Durable Object の名前（同時に確認するバケットをまとめる単位）
+ */
+async function consumeRateLimit(
+  env: Bindings,
+  name: string,
+  buckets: Array<{ key: string; rule: RateLimitRule }>
+): Promise<RateLimitResult> {
+  try {
+    const limiter = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(name));
+    return await limiter.consume(buckets);
+  } catch (error) {
+    console.error(`Rate limit check failed (${name}):`, error);
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+}
+
+/**
+ * コマンド・ボタン操作の回数制限（サーバーとユーザーの両方）を確認
+ * サーバー外（DM）の操作はユーザーのみで制限する
+ */
+export function consumeInteractionRateLimit(
+  env: Bindings,
+  guildId: string | undefined,
+  userId: string
+): Promise<RateLimitResult> {
+  const userBucket = { key: `user:${userId}`, rule: RATE_LIMIT_RULES.user };
+  return guildId
+    ? consumeRateLimit(env, `guild:${guildId}`, [
+        { key: "guild", rule: RATE_LIMIT_RULES.guild },
+        userBucket,
+      ])
+    : consumeRateLimit(env, `user:${userId}`, [userBucket]);
+}
+
+/**
+ * 公開APIへのリクエストの回数制限（IPアドレス単位）を確認
+ */
+export function consumeIpRateLimit(
+  env: Bindings,
+  ip: string
+): Promise<RateLimitResult> {
+  return consumeRateLimit(env, `ip:${ip}`, [
+    { key: "ip", rule: RATE_LIMIT_RULES.ip },
+  ]);
+}
+
+/**
+ * トークンバケットで回数を制限する Durable Object
+ * 同じ名前のリクエストはここで順番に処理されるため、同時に届いても正確に数えられる
+ */
+export class RateLimiter extends DurableObject<Bindings> {
+  /**
+   * 全てのバケットに残りがあれば、それぞれから1回分を消費する
+   * どれか1つでも足りない場合は消費せず、全て回復するまでの秒数を返す
+   */
+  async consume(
+    buckets: Array<{ key: string; rule: RateLimitRule }>
+  ): Promise<RateLimitResult> {
+    const now = Date.now();
+    const states = await Promise.all(
+      buckets.map(async ({ key, rule }) => {
+        const saved = await this.ctx.storage.get<BucketState>(key);
+        const elapsedSeconds = saved ? (now - saved.updatedAt) / 1000 : 0;
+        const tokens = saved
+          ? Math.min(
+              rule.capacity,
+              saved.tokens + elapsedSeconds * rule.refillPerSecond
+            )
+          : rule.capacity;
+        return { key, rule, tokens };
+      })
+    );
+
+    const retryAfterSeconds = Math.max(
+      0,
+      ...states
+        .filter((state) => state.tokens < 1)
+        .map((state) =>
+          Math.ceil((1 - state.tokens) / state.rule.refillPerSecond)
+        )
+    );
+    if (retryAfterSeconds > 0) {
+      return { allowed: false, retryAfterSeconds };
+    }
+
+    await this.ctx.storage.put(
+      Object.fromEntries(
+        states.map((state) => [
+          state.key,
+          { tokens: state.tokens - 1, updatedAt: now } satisfies BucketState,
+        ])
+      )
+    );
+    await this.ctx.storage.setAlarm(now + IDLE_CLEANUP_MS);
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+
+  /**
+   * しばらく使われていない場合に保存内容を削除（全てのバケットは満タンに戻っている）
+   */
+  async alarm(): Promise<void> {
+    await this.ctx.storage.deleteAll();
+  }
+}
@@ -1,5 +1,18 @@
-import { ServerConfig, Bindings, GoogleOAuthTokens } from "./types";
-import { CryptoService } from "./crypto-service";
+import {
+  ServerConfig,
+  ServerSettings,
+  TimeSettings,
+  Language,
+  Bindings,
+  GoogleOAuthTokens,
+  StorageBackend,
+  ColumnLayout,
+  ChannelRules,
+} from "./types";
+
+import { CryptoService, createCryptoService } from "./crypto-service";
+import { getTimeSettings } from "./utils";
+import { resolveColumnLayout } from "./sheets-service";
 
 export class ServerConfigService {
   private kv: KVNamespace;
@@ -7,7 +20,7 @@ export class ServerConfigService {
 
   constructor(env: Bindings) {
     this.kv = env.KINTAI_DISCORD_KV;
-    this.cryptoService = new CryptoService(env.ENCRYPTION_KEY);
+    this.cryptoService = createCryptoService(env);
   }
 
   async saveServerConfig(
@@ -17,7 +30,10 @@ export class ServerConfigService {
     spreadsheetId: string,
     sheetUrl: string
   ): Promise<void> {
+    // 管理者ロールなどの任意設定はトークン更新時も引き継ぐ
+    const existing = await this.getStoredServerConfig(guildId);
     const config: ServerConfig = {
+      ...this.pickSettings(existing),
       spreadsheet_id: spreadsheetId,
       access_token: await this.cryptoService.encrypt(tokens.access_token),
       refresh_token: tokens.refresh_token
@@ -30,41 +46,128 @@ export class ServerConfigService {
     await this.kv.put(`server:${guildId}`, JSON.stringify(config));
   }
 
+  /**
+   * Google 連携なし（D1 のみ）で運用するサーバーの設定を保存
+   * スプレッドシート・トークンの項目は空文字で保存し、後から /init で連携できる
+   */
+  async saveLocalServerConfig(guildId: string, ownerId: string): Promise<void> {
+    const existing = await this.getStoredServerConfig(guildId);
+    const config: ServerConfig = {
+      ...this.pickSettings(existing),
+      storage: "d1",
+      spreadsheet_id: "",
+      access_token: "",
+      refresh_token: "",
+      sheet_url: "",
+      owner_id: ownerId,
+      created_at: new Date().toISOString(),
+    };
+    await this.kv.put(`server:${guildId}`, JSON.stringify(config));
+  }
+
   async getServerConfig(guildId: string): Promise<ServerConfig | null> {
     const configStr = await this.kv.get(`server:${guildId}`);
     if (!configStr) return null;
     const config = JSON.parse(configStr) as ServerConfig;
     return {
       ...config,
-      access_token: await this.cryptoService.decrypt(config.access_token),
+      access_token: config.access_token
+        ? await this.cryptoService.decrypt(config.access_token)
+        : "",
       refresh_token: config.refresh_token
         ? await this.cryptoService.decrypt(config.refresh_token)
         : "",
     };
   }
 
+  /**
+   * トークンだけを更新（スプレッドシート・任意設定はそのまま保持）
+   * 新しいリフレッシュトークンがない場合は保存済みのもの（暗号化済み）を引き継ぐ
+   */
   async updateAccessToken(
     guildId: string,
     newTokens: GoogleOAuthTokens
   ): Promise<void> {
-    const config = await this.getServerConfig(guildId);
-    if (!config) throw new Error("Server config not found");
+    const existing = await this.getStoredServerConfig(guildId);
+    if (!existing) throw new Error("Server config not found");
     await this.kv.put(
       `server:${guildId}`,
       JSON.stringify({
-        ...config,
+        ...existing,
         access_token: await this.cryptoService.encrypt(newTokens.access_token),
         refresh_token: newTokens.refresh_token
           ? await this.cryptoService.encrypt(newTokens.refresh_token)
-          : config.refresh_token,
+          : existing.refresh_token,
       })
     );
   }
 
+  /**
+   * サーバー別の任意設定を更新（トークンは復号せずにそのまま保持）
+   */
+  async updateServerSettings(
+    guildId: string,
+    settings: Partial<ServerSettings>
+  ): Promise<void> {
+    const existing = await this.getStoredServerConfig(guildId);
+    if (!existing) throw new Error("Server config not found");
+    await this.kv.put(
+      `server:${guildId}`,
+      JSON.stringify({ ...existing, ...settings })
+    );
+  }
+
+  /**
+   * サーバーのタイムゾーン・ロケールを取得（未設定・未登録の場合は既定値）
+   * トークンの復号が不要なため、時刻のパース前にも軽量に呼び出せる
+   */
+  async getTimeSettings(guildId: string): Promise<TimeSettings> {
+    return getTimeSettings(await this.getStoredServerConfig(guildId));
+  }
+
+  /**
+   * サーバーの月別シートの列の配置を取得（未設定の項目は既定の列）
+   */
+  async getColumnLayout(guildId: string): Promise<ColumnLayout> {
+    return resolveColumnLayout(
+      (await this.getStoredServerConfig(guildId))?.column_layout
+    );
+  }
+
+  /**
+   * 打刻できるチャンネルの制限を取得（未設定・未登録の場合は undefined で、全てのチャンネルで打刻できる）
+   */
+  async getChannelRules(guildId: string): Promise<ChannelRules | undefined> {
+    return (await this.getStoredServerConfig(guildId))?.channel_rules;
+  }
+
+  /**
+   * サーバー別の言語設定を取得（未設定の場合は undefined で、Discordのロケールに従う）
+   */
+  async getLanguage(guildId: string): Promise<Language | undefined> {
+    return (await this.getStoredServerConfig(guildId))?.language;
+  }
+
   async deleteServerConfig(guildId: string): Promise<void> {
     await this.kv.delete(`server:${guildId}`);
   }
 
+  /**
+   * 設定済みの全サーバーのIDを取得（定期実行処理用）
+   */
+  async listGuildIds(): Promise<string[]> {
+    const guildIds: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const result = await this.kv.list({ prefix: "server:", cursor });
+      guildIds.push(...result.keys.map((key) => key.name.slice("server:".length)));
+      cursor = result.list_complete ? undefined : result.cursor;
+    } while (cursor);
+
+    return guildIds;
+  }
+
   async hasServerConfig(guildId: string): Promise<boolean> {
     return (await this.kv.get(`server:${guildId}`)) !== null;
   }
@@ -80,6 +183,8 @@ export class ServerConfigService {
     spreadsheetUrl?: string;
     createdAt?: string;
     ownerId?: string;
+    adminRoleIds?: string[];
+    storage?: StorageBackend;
   }> {
     const config = await this.getServerConfig(guildId);
     return config
@@ -88,7 +193,36 @@ export class ServerConfigService {
           spreadsheetUrl: config.sheet_url,
           createdAt: config.created_at,
           ownerId: config.owner_id,
+          adminRoleIds: config.admin_role_ids || [],
+          storage: config.storage || "sheets",
         }
       : { configured: false };
   }
+
+  /**
+   * KVに保存されている設定を暗号化されたまま取得
+   */
+  private async getStoredServerConfig(
+    guildId: string
+  ): Promise<ServerConfig | null> {
+    const configStr = await this.kv.get(`server:${guildId}`);
+    return configStr ? (JSON.parse(configStr) as ServerConfig) : null;
+  }
+
+  /**
+   * 設定から任意設定の項目のみを取り出す（トークン等の基本項目を除く）
+   */
+  private pickSettings(config: ServerConfig | null): ServerSettings {
+    if (!config) return {};
+    const {
+      spreadsheet_id,
+      access_token,
+      refresh_token,
+      sheet_url,
+      owner_id,
+      created_at,
+      ...settings
+    } = config;
+    return settings;
+  }
 }
@@ -1,8 +1,36 @@
-import { GoogleSheetsResponse, GoogleOAuthTokens, Bindings } from "./types";
-import { parseDateTimeFromJST } from "./utils";
-
-// スプレッドシートのカラム定義を統一（新しいテーブル構造に対応）
-const KINTAI_COLUMNS = {
+import {
+  GoogleSheetsResponse,
+  GoogleOAuthTokens,
+  Bindings,
+  ActiveWorkSession,
+  StaleWorkSession,
+  WorkRecord,
+  TimeSettings,
+  RowLocation,
+  KintaiColumn,
+  ColumnLayout,
+  AttendanceErrorCode,
+} from "./types";
+import {
+  parseDateTime,
+  getMonthlySheetName,
+  getRecentMonthlySheetNames,
+  getMonthlySheetNamesBetween,
+  formatDateTime,
+  DEFAULT_TIME_SETTINGS,
+  BREAK_SEPARATOR,
+  formatRecordDateTime,
+  getOpenBreakStart,
+  getLastActivityTime,
+  closeOpenBreak,
+  toColumnLetter,
+  getWeekStartDate,
+  groupWorkMinutes,
+} from "./utils";
+
+// 既定の列の配置（新しいテーブル構造に対応）
+// シートから読み取った行はこの配置に並べ替えてから参照する
+export const KINTAI_COLUMNS: ColumnLayout = {
   PROJECT: 0, // A: プロジェクト名（チャンネル名）
   USERNAME: 1, // B: ユーザー名
   TODO: 2, // C: やったこと（新規追加）
@@ -12,29 +40,297 @@ const KINTAI_COLUMNS = {
   CHANNEL_ID: 6, // G: channel_id
   DISCORD_ID: 7, // H: discord_id
   UUID: 8, // I: uuid
-} as const;
-
-// 統一されたヘッダー定義（新しいテーブル構造に対応）
-const KINTAI_HEADERS = [
-  "プロジェクト名",
+  BREAK_LOG: 9, // J: 休憩記録（"開始~終了" を改行区切りで記録）
+  BREAK_MINUTES: 10, // K: 休憩時間（分）
+};
+
+// 列の項目（既定の配置の順）
+export const KINTAI_FIELDS = Object.keys(KINTAI_COLUMNS) as KintaiColumn[];
+
+// 統一されたヘッダー定義（既存のシートはこのヘッダー名で列を判定する）
+export const KINTAI_HEADERS: Record<KintaiColumn, string> = {
+  PROJECT: "プロジェクト名",
+  USERNAME: "ユーザー名",
+  TODO: "やったこと",
+  WORK_HOURS: "差分",
+  START_TIME: "開始時刻",
+  END_TIME: "終了時刻",
+  CHANNEL_ID: "channel_id",
+  DISCORD_ID: "discord_id",
+  UUID: "uuid",
+  BREAK_LOG: "休憩記録",
+  BREAK_MINUTES: "休憩時間(分)",
+};
+
+// 列の幅（ピクセル）
+const KINTAI_COLUMN_WIDTHS: Record<KintaiColumn, number> = {
+  PROJECT: 150,
+  USERNAME: 120,
+  TODO: 200,
+  WORK_HOURS: 120,
+  START_TIME: 180,
+  END_TIME: 180,
+  CHANNEL_ID: 150,
+  DISCORD_ID: 150,
+  UUID: 250,
+  BREAK_LOG: 250,
+  BREAK_MINUTES: 120,
+};
+
+// 集計シートの名前（月別シートの記録からユーザー×プロジェクトごとの合計を書き出す）
+export const SUMMARY_SHEET_NAME = "集計";
+
+// 集計シートの見出し（左に月別、1列空けて右に週別の表を並べる）
+const SUMMARY_HEADERS = [
   "ユーザー名",
-  "やったこと", // 新規追加
-  "差分",
-  "開始時刻",
-  "終了時刻",
-  "channel_id",
   "discord_id",
-  "uuid",
+  "プロジェクト名",
+  "労働時間(時間)",
+  "労働時間(分)",
+  "件数",
 ];
+const SUMMARY_MONTHLY_HEADERS = ["月", ...SUMMARY_HEADERS];
+const SUMMARY_WEEKLY_HEADERS = ["週(月曜日)", ...SUMMARY_HEADERS];
+
+// 週別の表の開始列（月別の表の右に1列空ける）
+const SUMMARY_WEEKLY_COLUMN = SUMMARY_MONTHLY_HEADERS.length + 1;
+
+// 集計シートの列数
+const SUMMARY_COLUMN_COUNT = SUMMARY_WEEKLY_COLUMN + SUMMARY_WEEKLY_HEADERS.length;
+
+// 月別シートの名前（YYYY-MM）
+const MONTHLY_SHEET_NAME_PATTERN = /^\d{4}-\d{2}$/;
+
+// 定期実行で集計し直す月数（当月と前月。それより前の月は集計済みの行をそのまま残す）
+const SUMMARY_RECENT_MONTHS = 2;
+
+// 未終了の記録を勤務中とみなす最大時間（これを超えた記録は打刻忘れとして扱う）
+export const ACTIVE_SESSION_MAX_HOURS = 24;
+
+// 既存シート名のキャッシュの有効期間（シートが手動で削除・改名された場合に備えて定期的に取り直す）
+const SHEET_TITLES_CACHE_TTL_MS = 10 * 60 * 1000;
+
+// スプレッドシートごとの既存シート名のキャッシュ（コマンドのたびにスプレッドシート情報を取得しないため）
+// スプレッドシートはサーバーごとに1つなので、サーバー単位のキャッシュになる
+const sheetTitlesCache = new Map<
+  string,
+  { titles: Set<string>; expiresAt: number }
+>();
+
+// 月別シートごとの列の配置のキャッシュ（キーは "スプレッドシートID/シート名"）
+// シート全体を読むたびにヘッダー行から取り直すため、列の並べ替えは次の読み取りで反映される
+const sheetLayoutCache = new Map<
+  string,
+  { layout: ColumnLayout; expiresAt: number }
+>();
+
+// 月別シートの行（列の配置はシートのヘッダー行から判定したもの）
+interface SheetRow {
+  sheetName: string;
+  rowNumber: number;
+  row: string[]; // 既定の列の配置（KINTAI_COLUMNS）に並べ替えた値
+  layout: ColumnLayout;
+}
+
+/**
+ * サーバー設定の列の配置を既定の配置で補完
+ */
+export function resolveColumnLayout(
+  overrides?: Partial<ColumnLayout>
+): ColumnLayout {
+  return { ...KINTAI_COLUMNS, ...overrides };
+}
+
+/**
+ * ヘッダー行から列の配置を判定
+ * ヘッダー名が見つからない項目は fallback の列が空いていればその列、
+ * 他の列名で使われていればヘッダー行の右端より後ろの列に置く（ヘッダー行がない場合は fallback のまま）
+ * @returns 列の配置とヘッダー名が見つからなかった項目
+ */
+function detectColumnLayout(
+  header: string[],
+  fallback: ColumnLayout
+): { layout: ColumnLayout; missing: KintaiColumn[] } {
+  const layout = { ...fallback };
+  const missing: KintaiColumn[] = [];
+  const usedColumns = new Set<number>();
+  header.forEach((name, index) => {
+    if ((name || "").trim()) usedColumns.add(index);
+  });
+
+  for (const field of KINTAI_FIELDS) {
+    const index = header.findIndex(
+      (name) => (name || "").trim() === KINTAI_HEADERS[field]
+    );
+    if (index >= 0) {
+      layout[field] = index;
+    } else {
+      missing.push(field);
+    }
+  }
+
+  let nextColumn = header.length;
+  for (const field of missing) {
+    if (usedColumns.has(layout[field])) {
+      while (usedColumns.has(nextColumn)) nextColumn++;
+      layout[field] = nextColumn;
+    }
+    usedColumns.add(layout[field]);
+  }
+
+  return { layout, missing };
+}
+
+/**
+ * 列の配置で使う最後の列の番号
+ */
+function getLastColumn(layout: ColumnLayout): number {
+  return Math.max(...Object.values(layout));
+}
+
+/**
+ * シートの行を既定の列の配置に並べ替え
+ */
+function toKintaiRow(values: string[], layout: ColumnLayout): string[] {
+  return KINTAI_FIELDS.map((field) => values[layout[field]] || "");
+}
+
+/**
+ * 項目ごとの値をシートの列の配置に並べる（どの項目にも使わない列は空欄）
+ */
+function toSheetRow(
+  values: Record<KintaiColumn, string>,
+  layout: ColumnLayout
+): string[] {
+  const row: string[] = new Array(getLastColumn(layout) + 1).fill("");
+  for (const field of KINTAI_FIELDS) {
+    row[layout[field]] = values[field];
+  }
+  return row;
+}
+
+/**
+ * 勤務記録を期間×ユーザー×プロジェクトごとに集計し、集計シートの表の行にする
+ * 終了していない記録は含めない。新しい期間から、ユーザー名・プロジェクト名の順に並べる
+ * @param getPeriod 記録が属する期間（月・週の開始日など）を返す関数
+ */
+function buildSummaryRows(
+  records: WorkRecord[],
+  getPeriod: (record: WorkRecord) => string
+): Array<Array<string | number>> {
+  // ユーザー名は変わることがあるため、最後の記録の名前を使う
+  const usernames = new Map<string, string>();
+  for (const record of records) {
+    usernames.set(record.userId, record.username);
+  }
+
+  const groups = groupWorkMinutes(records, (record) =>
+    JSON.stringify([getPeriod(record), record.userId, record.projectName])
+  );
+
+  return [...groups.entries()]
+    .map(([key, { minutes, count }]) => {
+      const [period, userId, projectName] = JSON.parse(key) as string[];
+      return [
+        period,
+        usernames.get(userId) || "",
+        userId,
+        projectName,
+        Math.round((minutes / 60) * 100) / 100,
+        minutes,
+        count,
+      ];
+    })
+    .sort(compareSummaryRows);
+}
+
+/**
+ * 集計シートの表の行の並び順（新しい期間から、ユーザー名・プロジェクト名の順）
+ */
+function compareSummaryRows(
+  a: Array<string | number>,
+  b: Array<string | number>
+): number {
+  return (
+    String(b[0]).localeCompare(String(a[0])) ||
+    String(a[1]).localeCompare(String(b[1])) ||
+    String(a[3]).localeCompare(String(b[3]))
+  );
+}
+
+/**
+ * Google Sheets API がエラーを返した場合の例外（HTTPステータスを保持）
+ */
+export class SheetsApiError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "SheetsApiError";
+    this.status = status;
+  }
+}
+
+/**
+ * 時間をおいて再送すれば成功する可能性がある失敗かどうか
+ * 5xx・429（レート制限）・401（トークンの更新にも失敗した場合）と通信エラーが対象
+ */
+export function isRetryableSheetsError(error: unknown): boolean {
+  if (error instanceof SheetsApiError) {
+    return error.status === 401 || error.status === 429 || error.status >= 500;
+  }
+  // fetch 自体が失敗した場合（ネットワークエラー）
+  return error instanceof TypeError;
+}
 
 export class SheetsService {
   private accessToken: string;
   private env: Bindings;
+  private timeSettings: TimeSettings;
+  // 新しく作成する月別シートの列の配置（既存のシートでヘッダー名が見つからない項目にも使う）
+  private columnLayout: ColumnLayout;
   private readonly baseUrl = "https://sheets.googleapis.com/v4/spreadsheets";
+  // 記録IDごとの行の位置（分かっている場合はシート全体を検索せずに1行だけ読む）
+  private rowLocations = new Map<string, RowLocation>();
+  // 記録IDごとの開始月の月別シート（行の位置が分からない場合の検索先）
+  private recordSheetNames = new Map<string, string>();
 
-  constructor(env: Bindings, accessToken?: string) {
+  /**
+   * @param timeSettings サーバーのタイムゾーン・ロケール（日時の記録・解釈とシート選択に使用）
+   * @param columnLayout サーバー設定の列の配置
+   */
+  constructor(
+    env: Bindings,
+    accessToken?: string,
+    timeSettings: TimeSettings = DEFAULT_TIME_SETTINGS,
+    columnLayout: ColumnLayout = KINTAI_COLUMNS
+  ) {
     this.env = env;
     this.accessToken = accessToken || "";
+    this.timeSettings = timeSettings;
+    this.columnLayout = columnLayout;
+  }
+
+  /**
+   * 記録IDの行の位置を登録（以降の検索で優先して確認する）
+   */
+  rememberRowLocation(recordId: string, location: RowLocation): void {
+    this.rowLocations.set(recordId, location);
+  }
+
+  /**
+   * 勤務中セッションの記録の場所を登録
+   * 行の位置が分からない（ずれていた）場合も、開始時刻の月のシートだけを検索すれば済むようにする
+   */
+  rememberSession(session: ActiveWorkSession): void {
+    if (session.location) {
+      this.rememberRowLocation(session.recordId, session.location);
+    }
+
+    const startTime = this.parseSheetDateTime(session.startTime);
+    if (startTime) {
+      this.recordSheetNames.set(session.recordId, this.getSheetName(startTime));
+    }
   }
 
   /**
@@ -101,7 +397,10 @@ export class SheetsService {
         errorBody: errorText,
       });
 
-      throw new Error(`${operation}に失敗しました: ${errorDetails}`);
+      throw new SheetsApiError(
+        `${operation}に失敗しました: ${errorDetails}`,
+        response.status
+      );
     }
     return response.json();
   }
@@ -110,7 +409,7 @@ export class SheetsService {
    * 新しいスプレッドシートを作成
    */
   async createSpreadsheet(title: string, guildId?: string): Promise<GoogleSheetsResponse> {
-    const currentMonth = new Date().toISOString().slice(0, 7); // YYYY-MM format
+    const currentMonth = this.getSheetName(new Date()); // YYYY-MM format
 
     const data = await this.makeApiRequest(
       this.baseUrl,
@@ -119,8 +418,8 @@ export class SheetsService {
         body: JSON.stringify({
           properties: {
             title: title || `勤怠ログ管理_kintai-discord`,
-            locale: "ja_JP",
-            timeZone: "Asia/Tokyo",
+            locale: this.timeSettings.locale,
+            timeZone: this.timeSettings.timeZone,
           },
           sheets: [
             {
@@ -128,7 +427,7 @@ export class SheetsService {
                 title: currentMonth,
                 gridProperties: {
                   rowCount: 1000,
-                  columnCount: 10,
+                  columnCount: this.getColumnCount(),
                 },
               },
             },
@@ -158,10 +457,15 @@ export class SheetsService {
     guildId?: string,
     sheetId: number = 0
   ): Promise<void> {
-    // ヘッダー行を設定（9列すべて）
-    await this.updateRange(spreadsheetId, `${sheetTitle}!A1:I1`, [
-      KINTAI_HEADERS,
-    ], guildId);
+    // ヘッダー行を設定（サーバー設定の列の配置）
+    const lastColumn = toColumnLetter(getLastColumn(this.columnLayout));
+    await this.updateRange(
+      spreadsheetId,
+      `${sheetTitle}!A1:${lastColumn}1`,
+      [toSheetRow(KINTAI_HEADERS, this.columnLayout)],
+      guildId
+    );
+    this.cacheSheetLayout(spreadsheetId, sheetTitle, this.columnLayout);
 
     // ヘッダー行のフォーマットを設定
     await this.formatHeaders(spreadsheetId, sheetId, guildId);
@@ -183,7 +487,7 @@ export class SheetsService {
             startRowIndex: 0,
             endRowIndex: 1,
             startColumnIndex: 0,
-            endColumnIndex: KINTAI_HEADERS.length,
+            endColumnIndex: getLastColumn(this.columnLayout) + 1,
           },
           cell: {
             userEnteredFormat: {
@@ -207,133 +511,21 @@ export class SheetsService {
             "userEnteredFormat(backgroundColor,textFormat,horizontalAlignment)",
         },
       },
-      // 各列の幅を設定
-      {
-        updateDimensionProperties: {
-          range: {
-            sheetId: sheetId,
-            dimension: "COLUMNS",
-            startIndex: 0, // A列: プロジェクト名
-            endIndex: 1,
-          },
-          properties: {
-            pixelSize: 150,
-          },
-          fields: "pixelSize",
-        },
-      },
-      {
-        updateDimensionProperties: {
-          range: {
-            sheetId: sheetId,
-            dimension: "COLUMNS",
-            startIndex: 1, // B列: ユーザー名
-            endIndex: 2,
-          },
-          properties: {
-            pixelSize: 120,
-          },
-          fields: "pixelSize",
-        },
-      },
-      {
-        updateDimensionProperties: {
-          range: {
-            sheetId: sheetId,
-            dimension: "COLUMNS",
-            startIndex: 2, // C列: やったこと
-            endIndex: 3,
-          },
-          properties: {
-            pixelSize: 200,
-          },
-          fields: "pixelSize",
-        },
-      },
-      {
-        updateDimensionProperties: {
-          range: {
-            sheetId: sheetId,
-            dimension: "COLUMNS",
-            startIndex: 3, // D列: 差分
-            endIndex: 4,
-          },
-          properties: {
-            pixelSize: 120,
-          },
-          fields: "pixelSize",
-        },
-      },
-      {
-        updateDimensionProperties: {
-          range: {
-            sheetId: sheetId,
-            dimension: "COLUMNS",
-            startIndex: 4, // E列: 開始時刻
-            endIndex: 5,
-          },
-          properties: {
-            pixelSize: 180,
-          },
-          fields: "pixelSize",
-        },
-      },
-      {
-        updateDimensionProperties: {
-          range: {
-            sheetId: sheetId,
-            dimension: "COLUMNS",
-            startIndex: 5, // F列: 終了時刻
-            endIndex: 6,
-          },
-          properties: {
-            pixelSize: 180,
-          },
-          fields: "pixelSize",
-        },
-      },
-      {
-        updateDimensionProperties: {
-          range: {
-            sheetId: sheetId,
-            dimension: "COLUMNS",
-            startIndex: 6, // G列: channel_id
-            endIndex: 7,
-          },
-          properties: {
-            pixelSize: 150,
-          },
-          fields: "pixelSize",
-        },
-      },
-      {
-        updateDimensionProperties: {
-          range: {
-            sheetId: sheetId,
-            dimension: "COLUMNS",
-            startIndex: 7, // H列: discord_id
-            endIndex: 8,
-          },
-          properties: {
-            pixelSize: 150,
-          },
-          fields: "pixelSize",
-        },
-      },
-      {
+      // 各列の幅を設定（列の配置に合わせる）
+      ...KINTAI_FIELDS.map((field) => ({
         updateDimensionProperties: {
           range: {
             sheetId: sheetId,
             dimension: "COLUMNS",
-            startIndex: 8, // I列: uuid
-            endIndex: 9,
+            startIndex: this.columnLayout[field],
+            endIndex: this.columnLayout[field] + 1,
           },
           properties: {
-            pixelSize: 250,
+            pixelSize: KINTAI_COLUMN_WIDTHS[field],
           },
           fields: "pixelSize",
         },
-      },
+      })),
     ];
 
     await this.makeApiRequest(
@@ -347,6 +539,52 @@ export class SheetsService {
     );
   }
 
+  /**
+   * スプレッドシートのタイムゾーン・ロケールをサーバー設定に合わせて更新
+   */
+  async updateSpreadsheetTimeSettings(
+    accessToken: string,
+    spreadsheetId: string,
+    guildId?: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      this.accessToken = accessToken;
+
+      await this.makeApiRequest(
+        `${this.baseUrl}/${spreadsheetId}:batchUpdate`,
+        {
+          method: "POST",
+          body: JSON.stringify({
+            requests: [
+              {
+                updateSpreadsheetProperties: {
+                  properties: {
+                    locale: this.timeSettings.locale,
+                    timeZone: this.timeSettings.timeZone,
+                  },
+                  fields: "locale,timeZone",
+                },
+              },
+            ],
+          }),
+        },
+        "タイムゾーン設定",
+        guildId
+      );
+
+      return { success: true };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+
+      console.error("Failed to update spreadsheet time settings:", error);
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
   /**
    * スプレッドシートに行を追加
    */
@@ -355,8 +593,8 @@ export class SheetsService {
     range: string,
     values: string[][],
     guildId?: string
-  ): Promise<void> {
-    await this.makeApiRequest(
+  ): Promise<number | null> {
+    const data = await this.makeApiRequest(
       `${this.baseUrl}/${spreadsheetId}/values/${range}:append?valueInputOption=USER_ENTERED`,
       {
         method: "POST",
@@ -365,19 +603,54 @@ export class SheetsService {
       "行の追加",
       guildId
     );
+
+    // 追加された範囲（例: 2025-07!A15:K15）から行番号を取得
+    const match = /![A-Z]+(\d+)/.exec(data?.updates?.updatedRange || "");
+    return match ? Number(match[1]) : null;
+  }
+
+  /**
+   * 複数の範囲のセルを1回のリクエストでまとめて更新
+   * @returns 更新後の各範囲の表示値（数式は計算結果）
+   */
+  async batchUpdateValues(
+    spreadsheetId: string,
+    data: Array<{ range: string; values: string[][] }>,
+    guildId?: string
+  ): Promise<string[][][]> {
+    const result = await this.makeApiRequest(
+      `${this.baseUrl}/${spreadsheetId}/values:batchUpdate`,
+      {
+        method: "POST",
+        body: JSON.stringify({
+          valueInputOption: "USER_ENTERED",
+          includeValuesInResponse: true,
+          responseValueRenderOption: "FORMATTED_VALUE",
+          data,
+        }),
+      },
+      "範囲の一括更新",
+      guildId
+    );
+
+    return (result.responses || []).map(
+      (response: any) => response.updatedData?.values || []
+    );
   }
 
   /**
    * 指定範囲のセルを更新
+   * @param valueInputOption RAW の場合は値を解釈せずにそのまま書き込む（IDや "2025-07" が数値・日付に変換されない）
    */
   async updateRange(
     spreadsheetId: string,
     range: string,
-    values: string[][],
-    guildId?: string
+    values: Array<Array<string | number>>,
+    guildId?: string,
+    valueInputOption: "USER_ENTERED" | "RAW" = "USER_ENTERED"
   ): Promise<void> {
     await this.makeApiRequest(
-      `${this.baseUrl}/${spreadsheetId}/values/${range}?valueInputOption=USER_ENTERED`,
+      `${this.baseUrl}/${spreadsheetId}/values/${range}?valueInputOption=${valueInputOption}`,
       {
         method: "PUT",
         body: JSON.stringify({ values }),
@@ -387,6 +660,25 @@ export class SheetsService {
     );
   }
 
+  /**
+   * 指定範囲のセルの値を消去（書式は残す）
+   */
+  async clearRange(
+    spreadsheetId: string,
+    range: string,
+    guildId?: string
+  ): Promise<void> {
+    await this.makeApiRequest(
+      `${this.baseUrl}/${spreadsheetId}/values/${range}:clear`,
+      {
+        method: "POST",
+        body: JSON.stringify({}),
+      },
+      "範囲の消去",
+      guildId
+    );
+  }
+
   /**
    * 指定範囲の値を取得
    */
@@ -411,15 +703,15 @@ export class SheetsService {
    */
   async findRowByUUID(
     spreadsheetId: string,
-    uuid: string
+    uuid: string,
+    sheetName: string = this.getSheetName(new Date()),
+    guildId?: string
   ): Promise<number | null> {
-    const currentMonth = new Date().toISOString().slice(0, 7);
-    const values = await this.getRange(spreadsheetId, `${currentMonth}!A:I`);
+    const { rows } = await this.readSheetRows(spreadsheetId, sheetName, guildId);
 
-    for (let i = 1; i < values.length; i++) {
+    for (let i = 1; i < rows.length; i++) {
       // ヘッダー行をスキップ
-      if (values[i][8] === uuid) {
-        // UUID列（I列）
+      if (rows[i][KINTAI_COLUMNS.UUID] === uuid) {
         return i + 1; // 1-indexed
       }
     }
@@ -428,17 +720,19 @@ export class SheetsService {
   }
 
   /**
-   * 特定の行を更新
+   * 特定の行を更新（values はシートの列の順）
    */
   async updateRow(
     spreadsheetId: string,
     rowNumber: number,
-    values: string[]
+    values: string[],
+    sheetName: string = this.getSheetName(new Date()),
+    guildId?: string
   ): Promise<void> {
-    const currentMonth = new Date().toISOString().slice(0, 7);
-    const range = `${currentMonth}!A${rowNumber}:I${rowNumber}`;
+    const lastColumn = toColumnLetter(values.length - 1);
+    const range = `${sheetName}!A${rowNumber}:${lastColumn}${rowNumber}`;
 
-    await this.updateRange(spreadsheetId, range, [values]);
+    await this.updateRange(spreadsheetId, range, [values], guildId);
   }
 
   /**
@@ -451,7 +745,7 @@ export class SheetsService {
     error?: string;
   }> {
     try {
-      const currentMonth = new Date().toISOString().slice(0, 7);
+      const currentMonth = this.getSheetName(new Date());
       const spreadsheetTitle = `勤怠ログ管理_kintai-discord`;
 
       // スプレッドシートを作成
@@ -462,8 +756,8 @@ export class SheetsService {
           body: JSON.stringify({
             properties: {
               title: spreadsheetTitle,
-              locale: "ja_JP",
-              timeZone: "Asia/Tokyo",
+              locale: this.timeSettings.locale,
+              timeZone: this.timeSettings.timeZone,
             },
             sheets: [
               {
@@ -471,7 +765,16 @@ export class SheetsService {
                   title: currentMonth,
                   gridProperties: {
                     rowCount: 1000,
-                    columnCount: 10,
+                    columnCount: this.getColumnCount(),
+                  },
+                },
+              },
+              {
+                properties: {
+                  title: SUMMARY_SHEET_NAME,
+                  gridProperties: {
+                    rowCount: 1000,
+                    columnCount: SUMMARY_COLUMN_COUNT,
                   },
                 },
               },
@@ -491,6 +794,10 @@ export class SheetsService {
       // 統一されたヘッダー行を追加
       await this.setupKintaiHeaders(spreadsheetId, currentMonth, guildId, firstSheetId);
 
+      // 集計シートの見出しを追加（集計は定期実行で書き込む）
+      const summarySheetId = spreadsheetData.sheets?.[1]?.properties?.sheetId;
+      await this.setupSummaryHeaders(spreadsheetId, summarySheetId, guildId);
+
       return {
         success: true,
         spreadsheetId,
@@ -506,100 +813,253 @@ export class SheetsService {
 
       return {
         success: false,
-        error: `スプレッドシート作成中にエラーが発生しました: ${errorMessage}`,
+        error: errorMessage,
       };
     }
   }
 
   /**
-   * 勤務開始時刻を記録
+   * 既存のスプレッドシートを勤怠管理用に連携（/init の spreadsheet オプション・/reconnect 用）
+   * 当月のシートがなければ作成し、あればヘッダー行に足りない項目を追加する
    */
-  async recordStartTime(
-    accessToken: string,
+  async attachKintaiSpreadsheet(
     spreadsheetId: string,
-    userId: string,
-    username: string,
-    projectName: string,
-    channelId: string,
-    startTime: Date,
-    guildId?: string
-  ): Promise<{ success: boolean; recordId?: string; error?: string }> {
+    guildId: string
+  ): Promise<{
+    success: boolean;
+    spreadsheetId?: string;
+    spreadsheetUrl?: string;
+    addedHeaders?: string[]; // ヘッダー行に追加した項目のヘッダー名
+    error?: string;
+  }> {
     try {
-      // アクセストークンを更新
-      this.accessToken = accessToken;
-
-      const currentMonth = new Date().toISOString().slice(0, 7); // YYYY-MM
-      const sheetName = currentMonth;
+      // スプレッドシート情報の取得で、このアカウントからアクセスできるかを確認する
+      const spreadsheetData = await this.getSpreadsheetInfo(
+        spreadsheetId,
+        guildId
+      );
+      const sheets: any[] = spreadsheetData.sheets || [];
+      this.cacheSheetTitles(spreadsheetId, sheets);
 
-      // シートが存在するかチェック
-      const sheetsData = await this.getSpreadsheetInfo(spreadsheetId, guildId);
-      const sheetExists = sheetsData.sheets?.some(
-        (sheet: any) => sheet.properties.title === sheetName
+      const currentMonth = this.getSheetName(new Date());
+      const currentSheet = sheets.find(
+        (sheet) => sheet.properties.title === currentMonth
       );
 
-      // シートが存在しない場合は作成
-      if (!sheetExists) {
-        await this.createMonthlySheet(spreadsheetId, sheetName, guildId);
+      let addedHeaders: string[] = [];
+      if (currentSheet) {
+        addedHeaders = await this.repairKintaiHeaders(
+          spreadsheetId,
+          currentSheet.properties,
+          guildId
+        );
+      } else {
+        await this.createMonthlySheet(spreadsheetId, currentMonth, guildId);
       }
 
-      // 日時フォーマット（完全な日時形式）
-      const startTimeStr = this.formatDateTimeToJST(startTime);
-      
-      // デバッグログ
-      console.log('記録開始時刻:', {
-        original: startTime.toISOString(),
-        formatted: startTimeStr,
-        timezone: 'JST'
-      });
-
-      // 記録ID生成（UUID形式）
-      const recordId = crypto.randomUUID();
+      if (
+        !sheets.some((sheet) => sheet.properties.title === SUMMARY_SHEET_NAME)
+      ) {
+        await this.createSummarySheet(spreadsheetId, guildId);
+      }
 
-      // データを追加（新しいテーブル構造に対応）
-      const values = [
-        [
-          projectName, // A: プロジェクト名（チャンネル名）
-          username, // B: ユーザー名
-          "", // C: やったこと（開始時は空）
-          "", // D: 差分（後で数式を設定）
-          startTimeStr, // E: 開始時刻
-          "", // F: 終了時刻（空のまま）
-          channelId, // G: channel_id
-          userId, // H: discord_id
-          recordId, // I: uuid
-        ],
-      ];
+      return {
+        success: true,
+        spreadsheetId,
+        spreadsheetUrl: `https://docs.google.com/spreadsheets/d/${spreadsheetId}`,
+        addedHeaders,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : typeof error === "object"
+          ? JSON.stringify(error, null, 2)
+          : String(error);
 
-      await this.appendRow(spreadsheetId, `${sheetName}!A:I`, values, guildId);
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
 
-      // 追加された行の番号を特定して数式を設定
-      const allValues = await this.getRange(spreadsheetId, `${sheetName}!A:I`, guildId);
-      let targetRowIndex = -1;
+  /**
+   * ヘッダー行に足りない項目を追加（ヘッダー行が空の場合は新しいシートと同じヘッダー行を作成）
+   * @returns 追加したヘッダー名
+   */
+  private async repairKintaiHeaders(
+    spreadsheetId: string,
+    properties: {
+      title: string;
+      sheetId: number;
+      gridProperties?: { columnCount?: number };
+    },
+    guildId?: string
+  ): Promise<string[]> {
+    const sheetName = properties.title;
+    const [header = []] = await this.getRange(
+      spreadsheetId,
+      `${sheetName}!1:1`,
+      guildId
+    );
+    const { layout, missing } = detectColumnLayout(header, this.columnLayout);
+    if (missing.length === 0) {
+      this.cacheSheetLayout(spreadsheetId, sheetName, layout);
+      return [];
+    }
 
-      for (let i = 1; i < allValues.length; i++) {
-        const row = allValues[i];
-        if (row[KINTAI_COLUMNS.UUID] === recordId) {
-          targetRowIndex = i + 1; // Google Sheetsは1ベース
-          break;
-        }
+    // 追加する列がシートの列数を超える場合は列を増やす
+    const columnCount = properties.gridProperties?.columnCount || 0;
+    const requiredColumns = getLastColumn(layout) + 1;
+    if (requiredColumns > columnCount) {
+      await this.makeApiRequest(
+        `${this.baseUrl}/${spreadsheetId}:batchUpdate`,
+        {
+          method: "POST",
+          body: JSON.stringify({
+            requests: [
+              {
+                appendDimension: {
+                  sheetId: properties.sheetId,
+                  dimension: "COLUMNS",
+                  length: requiredColumns - columnCount,
+                },
+              },
+            ],
+          }),
+        },
+        "列の追加",
+        guildId
+      );
+    }
+
+    if (header.every((name) => !(name || "").trim())) {
+      await this.setupKintaiHeaders(
+        spreadsheetId,
+        sheetName,
+        guildId,
+        properties.sheetId
+      );
+    } else {
+      await this.batchUpdateValues(
+        spreadsheetId,
+        missing.map((field) => ({
+          range: `${sheetName}!${toColumnLetter(layout[field])}1`,
+          values: [[KINTAI_HEADERS[field]]],
+        })),
+        guildId
+      );
+      this.cacheSheetLayout(spreadsheetId, sheetName, layout);
+    }
+
+    return missing.map((field) => KINTAI_HEADERS[field]);
+  }
+
+  /**
+   * 勤務開始時刻を記録
+   */
+  async recordStartTime(
+    accessToken: string,
+    spreadsheetId: string,
+    userId: string,
+    username: string,
+    projectName: string,
+    channelId: string,
+    startTime: Date,
+    guildId?: string,
+    recordId: string = crypto.randomUUID(),
+    checkExisting: boolean = true // 前回の試行で追加済みか確認する（未追加と分かっている場合は false）
+  ): Promise<{
+    success: boolean;
+    recordId?: string;
+    startTime?: string; // スプレッドシート上の表記
+    location?: RowLocation;
+    error?: string;
+    retryable?: boolean; // 時間をおいて再送すれば成功する可能性がある失敗
+  }> {
+    try {
+      // アクセストークンを更新
+      this.accessToken = accessToken;
+
+      // 開始時刻の月（サーバーのタイムゾーン）のシートに記録する
+      const sheetName = this.getSheetName(startTime); // YYYY-MM
+
+      // シートが存在するかチェック（キャッシュ済みの場合はスプレッドシート情報を取得しない）
+      const sheetTitles = await this.getSheetTitles(spreadsheetId, guildId);
+
+      // シートが存在しない場合は作成
+      if (!sheetTitles.has(sheetName)) {
+        await this.createMonthlySheet(spreadsheetId, sheetName, guildId);
       }
 
-      if (targetRowIndex > 0) {
-        // 差分の数式を設定（日付をまたぐ場合も考慮）
-        await this.updateRange(
+      // 日時フォーマット（完全な日時形式）
+      const startTimeStr = this.formatSheetDateTime(startTime);
+      
+      // デバッグログ
+      console.log('記録開始時刻:', {
+        original: startTime.toISOString(),
+        formatted: startTimeStr,
+        timezone: this.timeSettings.timeZone
+      });
+
+      // 前回の試行で同じ記録IDの行を追加済みなら追加しない
+      let targetRowIndex = -1;
+      if (checkExisting) {
+        const existing = await this.findRowByRecordId(
           spreadsheetId,
-          `${sheetName}!D${targetRowIndex}`,
-          [
-            [
-              `=IF(F${targetRowIndex}="","",IF((F${targetRowIndex}-E${targetRowIndex})<0,"エラー",INT((F${targetRowIndex}-E${targetRowIndex})*24)&"時間"&INT(MOD((F${targetRowIndex}-E${targetRowIndex})*24*60,60))&"分"))`,
-            ],
-          ]
+          recordId,
+          guildId,
+          sheetName
         );
+        targetRowIndex = existing?.rowNumber ?? -1;
+      }
+
+      // データを追加（シートの列の配置に合わせて並べる）
+      const layout = await this.getSheetLayout(spreadsheetId, sheetName, guildId);
+      const values = [
+        toSheetRow(
+          {
+            PROJECT: projectName, // プロジェクト名（チャンネル名）
+            USERNAME: username,
+            TODO: "", // やったこと（開始時は空）
+            WORK_HOURS: this.buildWorkHoursFormula(layout), // 差分（行の追加と同時に数式を設定）
+            START_TIME: startTimeStr,
+            END_TIME: "", // 終了時刻（空のまま）
+            CHANNEL_ID: channelId,
+            DISCORD_ID: userId,
+            UUID: recordId,
+            BREAK_LOG: "", // 休憩記録（休憩時に追記）
+            BREAK_MINUTES: "",
+          },
+          layout
+        ),
+      ];
+
+      if (targetRowIndex < 0) {
+        // 追加された行の番号は応答の範囲から取得（取れない場合のみ検索）
+        targetRowIndex =
+          (await this.appendRow(
+            spreadsheetId,
+            `${sheetName}!A:${toColumnLetter(getLastColumn(layout))}`,
+            values,
+            guildId
+          )) ??
+          (await this.findRowByUUID(spreadsheetId, recordId, sheetName, guildId)) ??
+          -1;
+      }
+
+      const location =
+        targetRowIndex > 0 ? { sheetName, rowNumber: targetRowIndex } : undefined;
+      if (location) {
+        this.rememberRowLocation(recordId, location);
       }
 
       return {
         success: true,
         recordId,
+        startTime: startTimeStr,
+        location,
       };
     } catch (error) {
       const errorMessage =
@@ -610,9 +1070,12 @@ export class SheetsService {
           : String(error);
 
       console.error("Failed to record start time:", error);
+      // シートが手動で削除された可能性があるため、再試行時はシート一覧を取り直す
+      sheetTitlesCache.delete(spreadsheetId);
       return {
         success: false,
-        error: `勤務開始時刻の記録に失敗しました: ${errorMessage}`,
+        error: errorMessage,
+        retryable: isRetryableSheetsError(error),
       };
     }
   }
@@ -627,81 +1090,91 @@ export class SheetsService {
     endTime: Date,
     recordId: string,
     todo: string, // 必須パラメータに変更
-    guildId?: string
-  ): Promise<{ success: boolean; workHours?: string; error?: string }> {
+    guildId?: string,
+    resume: boolean = false // 前回の試行の続きとして、終了済みの行も対象にする
+  ): Promise<{
+    success: boolean;
+    workHours?: string;
+    breakMinutes?: number;
+    error?: string;
+    errorCode?: AttendanceErrorCode;
+    retryable?: boolean;
+  }> {
     try {
       // アクセストークンを更新
       this.accessToken = accessToken;
 
-      const currentMonth = new Date().toISOString().slice(0, 7); // YYYY-MM
-      const sheetName = currentMonth;
-
-      // 該当する開始記録を検索
-      const range = `${sheetName}!A:I`;
-      const values = await this.getRange(spreadsheetId, range, guildId);
-
-      let targetRowIndex = -1;
-      let startTimeStr = "";
-
-      for (let i = 1; i < values.length; i++) {
-        // ヘッダー行をスキップ
-        const row = values[i];
-        if (
-          row[KINTAI_COLUMNS.UUID] === recordId &&
-          row[KINTAI_COLUMNS.END_TIME] === ""
-        ) {
-          // UUIDが一致し、終了時刻が空
-          targetRowIndex = i + 1; // Google Sheetsは1ベース
-          startTimeStr = row[KINTAI_COLUMNS.START_TIME];
-          break;
-        }
-      }
+      // 該当する開始記録を検索（月をまたぐ勤務に対応するため直近のシートを検索）
+      // 再試行時は前回の試行で終了時刻まで書き込み済みの場合があるため、終了済みの行も含める
+      const target = resume
+        ? await this.findRowByRecordId(spreadsheetId, recordId, guildId)
+        : await this.findOpenRowByRecordId(spreadsheetId, recordId, guildId);
 
-      if (targetRowIndex === -1) {
+      if (!target) {
         return {
           success: false,
-          error: "対応する開始記録が見つかりません",
+          errorCode: "start_record_not_found",
         };
       }
 
+      const startTimeStr = target.row[KINTAI_COLUMNS.START_TIME];
+      const breakLog = target.row[KINTAI_COLUMNS.BREAK_LOG] || "";
+      let breakMinutes = Number(target.row[KINTAI_COLUMNS.BREAK_MINUTES]) || 0;
+
       // 終了時刻フォーマット
-      const endTimeStr = this.formatDateTimeToJST(endTime);
+      const endTimeStr = this.formatSheetDateTime(endTime);
       
       // デバッグログ
       console.log('記録終了時刻:', {
         original: endTime.toISOString(),
         formatted: endTimeStr,
-        timezone: 'JST',
+        timezone: this.timeSettings.timeZone,
         startTimeFromSheet: startTimeStr
       });
 
-      // やったことを更新（C列のみ）
-      await this.updateRange(
-        spreadsheetId,
-        `${sheetName}!C${targetRowIndex}`, // C列（やったこと）のみ
-        [[todo]], // やったこと
-        guildId
-      );
+      const updates = [
+        { range: this.cellRange(target, "TODO"), values: [[todo]] },
+        // 差分の数式を休憩対応版に更新（休憩列追加前の行にも対応）
+        {
+          range: this.cellRange(target, "WORK_HOURS"),
+          values: [[this.buildWorkHoursFormula(target.layout, target.rowNumber)]],
+        },
+        { range: this.cellRange(target, "END_TIME"), values: [[endTimeStr]] },
+      ];
 
-      // 終了時刻を更新（F列のみ）
-      await this.updateRange(
-        spreadsheetId,
-        `${sheetName}!F${targetRowIndex}`, // F列（終了時刻）のみ
-        [[endTimeStr]], // 終了時刻
-        guildId
+      // 休憩中のまま終了した場合は終了時刻で休憩を閉じる
+      const closedBreak = closeOpenBreak(
+        breakLog,
+        breakMinutes,
+        endTime,
+        this.timeSettings.timeZone
       );
+      if (closedBreak) {
+        breakMinutes = closedBreak.breakMinutes;
+        updates.push(
+          {
+            range: this.cellRange(target, "BREAK_LOG"),
+            values: [[closedBreak.breakLog]],
+          },
+          {
+            range: this.cellRange(target, "BREAK_MINUTES"),
+            values: [[String(closedBreak.breakMinutes)]],
+          }
+        );
+      }
 
-      // 差分値を取得（数式で計算された結果）
-      const workHoursResult = await this.getRange(
+      // まとめて書き込み、応答から差分値（数式で計算された結果）を取得
+      const [, workHoursResult] = await this.batchUpdateValues(
         spreadsheetId,
-        `${sheetName}!D${targetRowIndex}`,
+        updates,
         guildId
       );
-      const workHours = workHoursResult[0]?.[0] || "計算中";
+      const workHours = workHoursResult?.[0]?.[0];
 
       return {
         success: true,
         workHours,
+        breakMinutes,
       };
     } catch (error) {
       const errorMessage =
@@ -714,120 +1187,371 @@ export class SheetsService {
       console.error("Failed to record end time:", error);
       return {
         success: false,
-        error: `勤務終了時刻の記録に失敗しました: ${errorMessage}`,
+        error: errorMessage,
+        retryable: isRetryableSheetsError(error),
       };
     }
   }
 
   /**
-   * リトライ機能付きのAPIリクエスト
+   * 休憩開始を記録（休憩記録の列に "開始~" を追記）
    */
-  private async makeApiRequest(
-    url: string,
-    options: RequestInit,
-    operation: string,
-    guildId?: string,
-    retryCount = 0
-  ): Promise<any> {
+  async recordBreakStart(
+    accessToken: string,
+    spreadsheetId: string,
+    recordId: string,
+    breakStartTime: Date,
+    guildId?: string
+  ): Promise<{
+    success: boolean;
+    breakStartTime?: string; // スプレッドシート上の表記
+    error?: string;
+    errorCode?: AttendanceErrorCode;
+    retryable?: boolean;
+  }> {
     try {
-      const response = await fetch(url, {
-        ...options,
-        headers: {
-          ...options.headers,
-          ...this.getHeaders(),
-        },
-      });
+      this.accessToken = accessToken;
 
-      return await this.handleApiResponse(response, operation, guildId);
-    } catch (error) {
-      if (error instanceof Error && error.message === 'RETRY_WITH_NEW_TOKEN' && retryCount < 1) {
-        console.log('新しいトークンでリトライします');
-        return this.makeApiRequest(url, options, operation, guildId, retryCount + 1);
+      const target = await this.findOpenRowByRecordId(
+        spreadsheetId,
+        recordId,
+        guildId
+      );
+
+      if (!target) {
+        return {
+          success: false,
+          errorCode: "start_record_not_found",
+        };
       }
-      throw error;
-    }
-  }
 
-  /**
-   * 日時フォーマットのヘルパーメソッド
-   */
-  private formatDateToJST(date: Date): string {
-    return date.toLocaleDateString("ja-JP", {
-      timeZone: "Asia/Tokyo",
-    });
-  }
+      const breakLog = target.row[KINTAI_COLUMNS.BREAK_LOG] || "";
+      const openBreakStart = getOpenBreakStart(breakLog);
+      if (openBreakStart) {
+        return {
+          success: false,
+          errorCode: "already_on_break",
+          breakStartTime: openBreakStart,
+        };
+      }
 
-  private formatTimeToJST(date: Date): string {
-    return date.toLocaleTimeString("ja-JP", {
-      timeZone: "Asia/Tokyo",
-      hour12: false,
-    });
-  }
+      const breakStartTimeStr = this.formatSheetDateTime(breakStartTime);
+      const entry = `${breakStartTimeStr}${BREAK_SEPARATOR}`;
+      const updatedLog = breakLog ? `${breakLog}\n${entry}` : entry;
+
+      await this.updateRange(
+        spreadsheetId,
+        this.cellRange(target, "BREAK_LOG"),
+        [[updatedLog]],
+        guildId
+      );
 
-  private formatDateTimeToJST(date: Date): string {
-    // 日本時間に変換してフォーマット
-    const jstOffset = 9 * 60; // JST = UTC+9
-    const utc = date.getTime() + (date.getTimezoneOffset() * 60000);
-    const jstTime = new Date(utc + (jstOffset * 60000));
-    
-    const year = jstTime.getFullYear();
-    const month = String(jstTime.getMonth() + 1).padStart(2, '0');
-    const day = String(jstTime.getDate()).padStart(2, '0');
-    const hour = String(jstTime.getHours()).padStart(2, '0');
-    const minute = String(jstTime.getMinutes()).padStart(2, '0');
-    
-    return `${year}/${month}/${day} ${hour}:${minute}`;
+      return { success: true, breakStartTime: breakStartTimeStr };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : typeof error === "object"
+          ? JSON.stringify(error, null, 2)
+          : String(error);
+
+      console.error("Failed to record break start:", error);
+      return {
+        success: false,
+        error: errorMessage,
+        retryable: isRetryableSheetsError(error),
+      };
+    }
   }
 
   /**
-   * 勤務時間を計算（日時文字列から）
+   * 休憩終了を記録（休憩記録の休憩を閉じ、休憩時間（分）を加算）
    */
-  private calculateWorkHoursFromDateTime(
-    startTimeStr: string,
-    endTimeStr: string
-  ): string {
+  async recordBreakEnd(
+    accessToken: string,
+    spreadsheetId: string,
+    recordId: string,
+    breakEndTime: Date,
+    guildId?: string
+  ): Promise<{
+    success: boolean;
+    breakMinutes?: number;
+    totalBreakMinutes?: number;
+    error?: string;
+    errorCode?: AttendanceErrorCode;
+    retryable?: boolean;
+  }> {
     try {
-      const startTime = new Date(
-        startTimeStr.replace(
-          /(\d{4})\/(\d{2})\/(\d{2}) (\d{2}):(\d{2})/,
-          "$1-$2-$3T$4:$5:00+09:00"
-        )
-      );
-      const endTime = new Date(
-        endTimeStr.replace(
-          /(\d{4})\/(\d{2})\/(\d{2}) (\d{2}):(\d{2})/,
-          "$1-$2-$3T$4:$5:00+09:00"
-        )
+      this.accessToken = accessToken;
+
+      const target = await this.findOpenRowByRecordId(
+        spreadsheetId,
+        recordId,
+        guildId
       );
 
-      const diffMs = endTime.getTime() - startTime.getTime();
+      if (!target) {
+        return {
+          success: false,
+          errorCode: "start_record_not_found",
+        };
+      }
 
-      if (diffMs < 0) {
-        return "エラー";
+      const closedBreak = closeOpenBreak(
+        target.row[KINTAI_COLUMNS.BREAK_LOG] || "",
+        Number(target.row[KINTAI_COLUMNS.BREAK_MINUTES]) || 0,
+        breakEndTime,
+        this.timeSettings.timeZone
+      );
+
+      if (!closedBreak) {
+        return {
+          success: false,
+          errorCode: "not_on_break",
+        };
       }
 
-      // 総分数を計算
-      const totalMinutes = Math.floor(diffMs / (1000 * 60));
-      const hours = Math.floor(totalMinutes / 60);
-      const minutes = totalMinutes % 60;
+      await this.batchUpdateValues(
+        spreadsheetId,
+        [
+          {
+            range: this.cellRange(target, "BREAK_LOG"),
+            values: [[closedBreak.breakLog]],
+          },
+          {
+            range: this.cellRange(target, "BREAK_MINUTES"),
+            values: [[String(closedBreak.breakMinutes)]],
+          },
+        ],
+        guildId
+      );
 
-      return `${hours}時間${minutes}分`;
+      return {
+        success: true,
+        breakMinutes: closedBreak.addedMinutes,
+        totalBreakMinutes: closedBreak.breakMinutes,
+      };
     } catch (error) {
-      console.error("Work hours calculation error:", error);
-      return "計算エラー";
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : typeof error === "object"
+          ? JSON.stringify(error, null, 2)
+          : String(error);
+
+      console.error("Failed to record break end:", error);
+      return {
+        success: false,
+        error: errorMessage,
+        retryable: isRetryableSheetsError(error),
+      };
     }
   }
 
   /**
-   * 勤務時間を計算
+   * 記録IDの行が未終了かどうかを確認
    */
-  private calculateWorkHours(startTimeStr: string, endTimeStr: string): string {
-    try {
-      // 日付をまたぐ可能性を考慮した時刻計算
-      const startTime = new Date(`${startTimeStr}`);
-      const endTime = new Date(`${endTimeStr}`);
-
-      const diffMs = endTime.getTime() - startTime.getTime();
+  async isRecordOpen(
+    accessToken: string,
+    spreadsheetId: string,
+    recordId: string,
+    guildId?: string
+  ): Promise<boolean> {
+    this.accessToken = accessToken;
+    return !!(await this.findOpenRowByRecordId(spreadsheetId, recordId, guildId));
+  }
+
+  /**
+   * 記録IDが一致し、終了時刻が空の行を検索
+   */
+  private async findOpenRowByRecordId(
+    spreadsheetId: string,
+    recordId: string,
+    guildId?: string
+  ): Promise<SheetRow | null> {
+    const target = await this.findRowByRecordId(spreadsheetId, recordId, guildId);
+    return target && !target.row[KINTAI_COLUMNS.END_TIME] ? target : null;
+  }
+
+  /**
+   * 記録IDが一致する行を終了済みかどうかに関わらず検索
+   * 行の位置が分かっていればその行だけを確認し、なければ開始月のシート（不明な場合は全ての月別シート）を検索する
+   * @param sheetName 検索するシート（省略時は登録済みの開始月のシート）
+   */
+  private async findRowByRecordId(
+    spreadsheetId: string,
+    recordId: string,
+    guildId?: string,
+    sheetName?: string
+  ): Promise<SheetRow | null> {
+    const hinted = await this.readRememberedRow(spreadsheetId, recordId, guildId);
+    if (hinted) return hinted;
+
+    const sheetNames = sheetName
+      ? [sheetName]
+      : await this.getRecordSheetNames(spreadsheetId, recordId, guildId);
+
+    for (const sheetName of sheetNames) {
+      const { layout, rows } = await this.readSheetRows(
+        spreadsheetId,
+        sheetName,
+        guildId
+      );
+
+      for (let i = 1; i < rows.length; i++) {
+        // ヘッダー行をスキップ
+        if (rows[i][KINTAI_COLUMNS.UUID] === recordId) {
+          return { sheetName, rowNumber: i + 1, row: rows[i], layout }; // Google Sheetsは1ベース
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 登録済みの位置の行を読み、記録IDが一致すれば返す
+   * 行がずれていた場合は登録を破棄し、呼び出し元で検索し直す
+   */
+  private async readRememberedRow(
+    spreadsheetId: string,
+    recordId: string,
+    guildId?: string
+  ): Promise<SheetRow | null> {
+    const location = this.rowLocations.get(recordId);
+    if (!location) return null;
+
+    const sheetRow = await this.readSheetRow(
+      spreadsheetId,
+      location.sheetName,
+      location.rowNumber,
+      guildId
+    );
+    if (sheetRow.row[KINTAI_COLUMNS.UUID] === recordId) {
+      return sheetRow;
+    }
+
+    this.rowLocations.delete(recordId);
+    return null;
+  }
+
+  /**
+   * 記録IDの行を検索する月別シート名を取得
+   * 開始月が登録済みであればそのシートのみ、未登録（/edit で記録IDを指定した場合など）は全ての月別シートを新しい順に返す
+   */
+  private async getRecordSheetNames(
+    spreadsheetId: string,
+    recordId: string,
+    guildId?: string
+  ): Promise<string[]> {
+    const existingTitles = await this.getSheetTitles(spreadsheetId, guildId);
+
+    const sheetName = this.recordSheetNames.get(recordId);
+    if (sheetName) {
+      return existingTitles.has(sheetName) ? [sheetName] : [];
+    }
+
+    return [...existingTitles]
+      .filter((title) => MONTHLY_SHEET_NAME_PATTERN.test(title))
+      .sort()
+      .reverse();
+  }
+
+  /**
+   * 直近（当月・前月）の月別シートのうち、実在するシート名を新しい順に取得
+   */
+  private async getRecentSheetNames(
+    spreadsheetId: string,
+    guildId?: string
+  ): Promise<string[]> {
+    const existingTitles = await this.getSheetTitles(spreadsheetId, guildId);
+
+    return getRecentMonthlySheetNames(
+      2,
+      new Date(),
+      this.timeSettings.timeZone
+    ).filter((sheetName) =>
+      existingTitles.has(sheetName)
+    );
+  }
+
+  /**
+   * リトライ機能付きのAPIリクエスト
+   */
+  private async makeApiRequest(
+    url: string,
+    options: RequestInit,
+    operation: string,
+    guildId?: string,
+    retryCount = 0
+  ): Promise<any> {
+    try {
+      const response = await fetch(url, {
+        ...options,
+        headers: {
+          ...options.headers,
+          ...this.getHeaders(),
+        },
+      });
+
+      return await this.handleApiResponse(response, operation, guildId);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'RETRY_WITH_NEW_TOKEN' && retryCount < 1) {
+        console.log('新しいトークンでリトライします');
+        return this.makeApiRequest(url, options, operation, guildId, retryCount + 1);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 差分（労働時間）の数式を生成
+   * 終了時刻 - 開始時刻 から休憩時間（分）を差し引く
+   * @param layout シートの列の配置
+   * @param row 行番号（省略時は行の追加と同時に書き込めるよう ROW() で自分の行を参照する）
+   */
+  private buildWorkHoursFormula(layout: ColumnLayout, row?: number): string {
+    const cell = (field: KintaiColumn) => {
+      const column = toColumnLetter(layout[field]);
+      return row ? `${column}${row}` : `INDEX(${column}:${column},ROW())`;
+    };
+    const end = cell("END_TIME");
+    const duration = `(${end}-${cell("START_TIME")}-N(${cell("BREAK_MINUTES")})/1440)`;
+    return `=IF(${end}="","",IF(${duration}<0,"エラー",INT(${duration}*24)&"時間"&INT(MOD(${duration}*24*60,60))&"分"))`;
+  }
+
+  /**
+   * 日時フォーマットのヘルパーメソッド（サーバーのタイムゾーン）
+   * @returns YYYY/MM/DD HH:MM 形式の文字列
+   */
+  private formatSheetDateTime(date: Date): string {
+    return formatRecordDateTime(date, this.timeSettings.timeZone);
+  }
+
+  /**
+   * スプレッドシートの日時文字列をサーバーのタイムゾーンとして解釈
+   */
+  private parseSheetDateTime(dateTimeString: string): Date | null {
+    return parseDateTime(dateTimeString, this.timeSettings.timeZone);
+  }
+
+  /**
+   * 月別シート名をサーバーのタイムゾーン基準で取得
+   */
+  private getSheetName(date: Date): string {
+    return getMonthlySheetName(date, this.timeSettings.timeZone);
+  }
+
+  /**
+   * 勤務時間を計算
+   */
+  private calculateWorkHours(startTimeStr: string, endTimeStr: string): string {
+    try {
+      // 日付をまたぐ可能性を考慮した時刻計算
+      const startTime = new Date(`${startTimeStr}`);
+      const endTime = new Date(`${endTimeStr}`);
+
+      const diffMs = endTime.getTime() - startTime.getTime();
 
       if (diffMs < 0) {
         return "エラー";
@@ -865,7 +1589,7 @@ export class SheetsService {
                   title: sheetName,
                   gridProperties: {
                     rowCount: 1000,
-                    columnCount: 10,
+                    columnCount: this.getColumnCount(),
                   },
                 },
               },
@@ -879,11 +1603,438 @@ export class SheetsService {
 
     // 新しく作成されたシートのIDを取得
     const newSheetId = addSheetResponse.replies?.[0]?.addSheet?.properties?.sheetId || 0;
+    sheetTitlesCache.get(spreadsheetId)?.titles.add(sheetName);
 
     // 統一されたヘッダー行とフォーマットを設定
     await this.setupKintaiHeaders(spreadsheetId, sheetName, guildId, newSheetId);
   }
 
+  /**
+   * 集計シートを作成
+   * @returns 作成したシートのプロパティ
+   */
+  async createSummarySheet(
+    spreadsheetId: string,
+    guildId?: string
+  ): Promise<{ sheetId: number; gridProperties?: { rowCount?: number } }> {
+    const addSheetResponse = await this.makeApiRequest(
+      `${this.baseUrl}/${spreadsheetId}:batchUpdate`,
+      {
+        method: "POST",
+        body: JSON.stringify({
+          requests: [
+            {
+              addSheet: {
+                properties: {
+                  title: SUMMARY_SHEET_NAME,
+                  gridProperties: {
+                    rowCount: 1000,
+                    columnCount: SUMMARY_COLUMN_COUNT,
+                  },
+                },
+              },
+            },
+          ],
+        }),
+      },
+      "集計シート作成",
+      guildId
+    );
+
+    const properties = addSheetResponse.replies?.[0]?.addSheet?.properties || {
+      sheetId: 0,
+    };
+    sheetTitlesCache.get(spreadsheetId)?.titles.add(SUMMARY_SHEET_NAME);
+
+    await this.setupSummaryHeaders(spreadsheetId, properties.sheetId, guildId);
+    return properties;
+  }
+
+  /**
+   * 集計シートの見出し行を設定（月別・週別の表の見出しを同じ行に並べる）
+   */
+  private async setupSummaryHeaders(
+    spreadsheetId: string,
+    sheetId: number = 0,
+    guildId?: string
+  ): Promise<void> {
+    const lastColumn = toColumnLetter(SUMMARY_COLUMN_COUNT - 1);
+    await this.updateRange(
+      spreadsheetId,
+      `${SUMMARY_SHEET_NAME}!A1:${lastColumn}1`,
+      [[...SUMMARY_MONTHLY_HEADERS, "", ...SUMMARY_WEEKLY_HEADERS]],
+      guildId,
+      "RAW"
+    );
+
+    const headerFormat = (startColumnIndex: number, endColumnIndex: number) => ({
+      repeatCell: {
+        range: {
+          sheetId,
+          startRowIndex: 0,
+          endRowIndex: 1,
+          startColumnIndex,
+          endColumnIndex,
+        },
+        cell: {
+          userEnteredFormat: {
+            backgroundColor: { red: 0.2, green: 0.4, blue: 0.6 },
+            textFormat: {
+              bold: true,
+              foregroundColor: { red: 1.0, green: 1.0, blue: 1.0 },
+            },
+            horizontalAlignment: "CENTER",
+          },
+        },
+        fields:
+          "userEnteredFormat(backgroundColor,textFormat,horizontalAlignment)",
+      },
+    });
+
+    await this.makeApiRequest(
+      `${this.baseUrl}/${spreadsheetId}:batchUpdate`,
+      {
+        method: "POST",
+        body: JSON.stringify({
+          requests: [
+            headerFormat(0, SUMMARY_MONTHLY_HEADERS.length),
+            headerFormat(SUMMARY_WEEKLY_COLUMN, SUMMARY_COLUMN_COUNT),
+            {
+              updateSheetProperties: {
+                properties: {
+                  sheetId,
+                  gridProperties: { frozenRowCount: 1 },
+                },
+                fields: "gridProperties.frozenRowCount",
+              },
+            },
+          ],
+        }),
+      },
+      "集計シートのヘッダーフォーマット設定",
+      guildId
+    );
+  }
+
+  /**
+   * 集計シートを更新する（定期実行用）
+   * 月別・週別にユーザー×プロジェクトごとの労働時間（休憩を除く）と件数を書き込む
+   * 当月・前月（と前月1日を含む週以降）だけを集計し直し、それより前の行は集計済みの値を残す
+   * 集計シートがない・集計済みの行がない場合は、全ての月別シートから作る
+   */
+  async updateSummarySheet(
+    accessToken: string,
+    spreadsheetId: string,
+    guildId?: string
+  ): Promise<{ success: boolean; rowCount?: number; error?: string }> {
+    try {
+      this.accessToken = accessToken;
+
+      // 集計シートの行数も必要なため、キャッシュを使わずにスプレッドシート情報を取得する
+      const spreadsheetData = await this.getSpreadsheetInfo(
+        spreadsheetId,
+        guildId
+      );
+      const sheets: any[] = spreadsheetData.sheets || [];
+      const titles = this.cacheSheetTitles(spreadsheetId, sheets);
+      const existingSheet = sheets.find(
+        (sheet) => sheet.properties.title === SUMMARY_SHEET_NAME
+      )?.properties;
+      const existing = existingSheet
+        ? await this.readSummaryTables(spreadsheetId, guildId)
+        : { monthlyRows: [], weeklyRows: [] };
+      const fullRebuild =
+        existing.monthlyRows.length === 0 && existing.weeklyRows.length === 0;
+
+      // 集計し直す月と、その最初の月の1日を含む週（週別の表はこの週以降を集計し直す）
+      // 最初の週には1つ前の月の記録も含まれるため、その月のシートも読む
+      const [oldestReadMonth, ...newerMonths] = getRecentMonthlySheetNames(
+        SUMMARY_RECENT_MONTHS + 1,
+        new Date(),
+        this.timeSettings.timeZone
+      ).reverse();
+      const recentMonths = new Set(newerMonths);
+      const firstRecentWeek = getWeekStartDate(
+        `${newerMonths[0].replace("-", "/")}/01`
+      );
+      const isRecentMonth = (month: string) =>
+        fullRebuild || recentMonths.has(month);
+      const isRecentWeek = (week: string) =>
+        fullRebuild || week >= firstRecentWeek;
+
+      const sheetNames = [...titles]
+        .filter(
+          (title) =>
+            MONTHLY_SHEET_NAME_PATTERN.test(title) &&
+            (fullRebuild || title >= oldestReadMonth)
+        )
+        .sort();
+
+      const records: WorkRecord[] = [];
+      for (const sheetName of sheetNames) {
+        const { rows } = await this.readSheetRows(
+          spreadsheetId,
+          sheetName,
+          guildId
+        );
+
+        for (let i = 1; i < rows.length; i++) {
+          // ヘッダー行をスキップ
+          const startTime = this.parseSheetDateTime(
+            rows[i][KINTAI_COLUMNS.START_TIME] || ""
+          );
+          if (!startTime) continue;
+          records.push(this.toWorkRecord(sheetName, i + 1, rows[i], startTime));
+        }
+      }
+
+      // 月は記録のあるシート（開始時刻の月）、週は勤務日の週で分ける
+      // 集計し直さない期間は集計済みの行を残す
+      const monthlyRows = [
+        ...existing.monthlyRows.filter(
+          (row) => !isRecentMonth(String(row[0]))
+        ),
+        ...buildSummaryRows(
+          records.filter((record) => isRecentMonth(record.sheetName)),
+          (record) => record.sheetName
+        ),
+      ].sort(compareSummaryRows);
+      const weeklyRows = [
+        ...existing.weeklyRows.filter((row) => !isRecentWeek(String(row[0]))),
+        ...buildSummaryRows(
+          records.filter((record) =>
+            isRecentWeek(getWeekStartDate(record.workDate))
+          ),
+          (record) => getWeekStartDate(record.workDate)
+        ),
+      ].sort(compareSummaryRows);
+
+      const summarySheet =
+        existingSheet ||
+        (await this.createSummarySheet(spreadsheetId, guildId));
+      const rowCount = Math.max(monthlyRows.length, weeklyRows.length);
+
+      // 書き込む行がシートの行数を超える場合は行を増やす（見出し行の分を含む）
+      const gridRowCount = summarySheet.gridProperties?.rowCount || 0;
+      if (rowCount + 1 > gridRowCount) {
+        await this.makeApiRequest(
+          `${this.baseUrl}/${spreadsheetId}:batchUpdate`,
+          {
+            method: "POST",
+            body: JSON.stringify({
+              requests: [
+                {
+                  appendDimension: {
+                    sheetId: summarySheet.sheetId,
+                    dimension: "ROWS",
+                    length: rowCount + 1 - gridRowCount,
+                  },
+                },
+              ],
+            }),
+          },
+          "行の追加",
+          guildId
+        );
+      }
+
+      // 前回より行が減った場合に古い行が残らないよう、見出し行以外を消してから書き込む
+      const lastColumn = toColumnLetter(SUMMARY_COLUMN_COUNT - 1);
+      await this.clearRange(
+        spreadsheetId,
+        `${SUMMARY_SHEET_NAME}!A2:${lastColumn}`,
+        guildId
+      );
+
+      const values = Array.from({ length: rowCount }, (_, i) => [
+        ...(monthlyRows[i] || new Array(SUMMARY_MONTHLY_HEADERS.length).fill("")),
+        "",
+        ...(weeklyRows[i] || new Array(SUMMARY_WEEKLY_HEADERS.length).fill("")),
+      ]);
+      if (values.length > 0) {
+        await this.updateRange(
+          spreadsheetId,
+          `${SUMMARY_SHEET_NAME}!A2:${lastColumn}${rowCount + 1}`,
+          values,
+          guildId,
+          "RAW"
+        );
+      }
+
+      return { success: true, rowCount };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : typeof error === "object"
+          ? JSON.stringify(error, null, 2)
+          : String(error);
+
+      console.error("Failed to update summary sheet:", error);
+      return {
+        success: false,
+        error: `集計シートの更新に失敗しました: ${errorMessage}`,
+      };
+    }
+  }
+
+  /**
+   * 集計シートに書き込み済みの月別・週別の表の行を取得
+   * 数値の列を数値のまま書き戻せるよう、表示形式を適用しない値で取得する
+   */
+  private async readSummaryTables(
+    spreadsheetId: string,
+    guildId?: string
+  ): Promise<{
+    monthlyRows: Array<Array<string | number>>;
+    weeklyRows: Array<Array<string | number>>;
+  }> {
+    const lastColumn = toColumnLetter(SUMMARY_COLUMN_COUNT - 1);
+    const data = await this.makeApiRequest(
+      `${this.baseUrl}/${spreadsheetId}/values/${SUMMARY_SHEET_NAME}!A2:${lastColumn}?valueRenderOption=UNFORMATTED_VALUE`,
+      {
+        method: "GET",
+      },
+      "集計シートの取得",
+      guildId
+    );
+    const values: Array<Array<string | number>> = data.values || [];
+
+    const pickTable = (start: number, length: number) =>
+      values
+        .map((row) => Array.from({ length }, (_, i) => row[start + i] ?? ""))
+        .filter((row) => row[0] !== "");
+    return {
+      monthlyRows: pickTable(0, SUMMARY_MONTHLY_HEADERS.length),
+      weeklyRows: pickTable(
+        SUMMARY_WEEKLY_COLUMN,
+        SUMMARY_WEEKLY_HEADERS.length
+      ),
+    };
+  }
+
+  /**
+   * 既存のシート名を取得（一定時間キャッシュする）
+   */
+  private async getSheetTitles(
+    spreadsheetId: string,
+    guildId?: string
+  ): Promise<Set<string>> {
+    const cached = sheetTitlesCache.get(spreadsheetId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.titles;
+    }
+
+    const sheetsData = await this.getSpreadsheetInfo(spreadsheetId, guildId);
+    return this.cacheSheetTitles(spreadsheetId, sheetsData.sheets || []);
+  }
+
+  /**
+   * スプレッドシート情報のシート一覧からシート名をキャッシュに登録
+   */
+  private cacheSheetTitles(spreadsheetId: string, sheets: any[]): Set<string> {
+    const titles = new Set<string>(
+      sheets.map((sheet: any) => sheet.properties.title)
+    );
+    sheetTitlesCache.set(spreadsheetId, {
+      titles,
+      expiresAt: Date.now() + SHEET_TITLES_CACHE_TTL_MS,
+    });
+    return titles;
+  }
+
+  /**
+   * 新しく作成するシートの列数（列の配置が既定の11列を超える場合は広げる）
+   */
+  private getColumnCount(): number {
+    return Math.max(KINTAI_FIELDS.length, getLastColumn(this.columnLayout) + 1);
+  }
+
+  /**
+   * 月別シートの列の配置をキャッシュに登録
+   */
+  private cacheSheetLayout(
+    spreadsheetId: string,
+    sheetName: string,
+    layout: ColumnLayout
+  ): void {
+    sheetLayoutCache.set(`${spreadsheetId}/${sheetName}`, {
+      layout,
+      expiresAt: Date.now() + SHEET_TITLES_CACHE_TTL_MS,
+    });
+  }
+
+  /**
+   * 月別シートの列の配置を取得（キャッシュがない場合はヘッダー行だけを読む）
+   */
+  private async getSheetLayout(
+    spreadsheetId: string,
+    sheetName: string,
+    guildId?: string
+  ): Promise<ColumnLayout> {
+    const cached = sheetLayoutCache.get(`${spreadsheetId}/${sheetName}`);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.layout;
+    }
+
+    const [header = []] = await this.getRange(
+      spreadsheetId,
+      `${sheetName}!1:1`,
+      guildId
+    );
+    const { layout } = detectColumnLayout(header, this.columnLayout);
+    this.cacheSheetLayout(spreadsheetId, sheetName, layout);
+    return layout;
+  }
+
+  /**
+   * 月別シート全体を読み、各行を既定の列の配置に並べ替えて返す
+   * @returns 列の配置と行（先頭はヘッダー行）
+   */
+  private async readSheetRows(
+    spreadsheetId: string,
+    sheetName: string,
+    guildId?: string
+  ): Promise<{ layout: ColumnLayout; rows: string[][] }> {
+    const values = await this.getRange(spreadsheetId, sheetName, guildId);
+    const { layout } = detectColumnLayout(values[0] || [], this.columnLayout);
+    this.cacheSheetLayout(spreadsheetId, sheetName, layout);
+
+    return {
+      layout,
+      rows: values.map((row) => toKintaiRow(row, layout)),
+    };
+  }
+
+  /**
+   * 月別シートの1行を読み、既定の列の配置に並べ替えて返す
+   */
+  private async readSheetRow(
+    spreadsheetId: string,
+    sheetName: string,
+    rowNumber: number,
+    guildId?: string
+  ): Promise<SheetRow> {
+    const layout = await this.getSheetLayout(spreadsheetId, sheetName, guildId);
+    const lastColumn = toColumnLetter(getLastColumn(layout));
+    const [row = []] = await this.getRange(
+      spreadsheetId,
+      `${sheetName}!A${rowNumber}:${lastColumn}${rowNumber}`,
+      guildId
+    );
+    return { sheetName, rowNumber, row: toKintaiRow(row, layout), layout };
+  }
+
+  /**
+   * 項目のセルの範囲（例: 2025-07!J15）
+   */
+  private cellRange(
+    { sheetName, rowNumber, layout }: Omit<SheetRow, "row">,
+    field: KintaiColumn
+  ): string {
+    return `${sheetName}!${toColumnLetter(layout[field])}${rowNumber}`;
+  }
+
   /**
    * スプレッドシート情報を取得
    */
@@ -902,75 +2053,245 @@ export class SheetsService {
   }
 
   /**
-   * 指定ユーザーの勤務開始済み記録をチェック（スプレッドシート直接確認）
-   * KVの代わりにスプレッドシートを直接確認して再打刻を防ぐ
+   * 現在勤務中の全ユーザーの記録を取得（/who 用）
+   * 開始から勤務中とみなす期間（24時間）以内の未終了の記録をすべて返す
    */
-  async checkActiveWorkSession(
+  async listActiveWorkSessions(
     accessToken: string,
     spreadsheetId: string,
-    userId: string,
-    channelId: string,
+    channelId?: string,
     guildId?: string
   ): Promise<{
-    hasActiveSession: boolean;
-    startTime?: string;
-    recordId?: string;
+    success: boolean;
+    sessions?: ActiveWorkSession[];
     error?: string;
   }> {
     try {
       this.accessToken = accessToken;
 
-      const currentMonth = new Date().toISOString().slice(0, 7); // YYYY-MM
-      const sheetName = currentMonth;
+      const openRows = await this.findOpenRows(
+        spreadsheetId,
+        (row) =>
+          (!channelId || row[KINTAI_COLUMNS.CHANNEL_ID] === channelId) &&
+          this.isWithinActiveWindow(row[KINTAI_COLUMNS.START_TIME]),
+        guildId
+      );
 
-      // シートが存在するかチェック
-      const sheetsData = await this.getSpreadsheetInfo(spreadsheetId, guildId);
-      const sheetExists = sheetsData.sheets?.some(
-        (sheet: any) => sheet.properties.title === sheetName
+      const sessions = openRows.map((openRow) =>
+        this.toActiveWorkSession(openRow)
       );
 
-      if (!sheetExists) {
-        // シートが存在しない場合はアクティブセッションなし
-        return { hasActiveSession: false };
-      }
+      return { success: true, sessions };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : typeof error === "object"
+          ? JSON.stringify(error, null, 2)
+          : String(error);
 
-      // 該当ユーザーの未完了記録を検索
-      const range = `${sheetName}!A:I`;
-      const values = await this.getRange(spreadsheetId, range, guildId);
+      console.error("Failed to list active work sessions:", error);
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
 
-      for (let i = 1; i < values.length; i++) {
-        // ヘッダー行をスキップ
-        const row = values[i];
-
-        // discord_id、channel_idが一致し、終了時刻が空の記録を検索
-        if (
-          row[KINTAI_COLUMNS.DISCORD_ID] === userId &&
-          row[KINTAI_COLUMNS.CHANNEL_ID] === channelId &&
-          row[KINTAI_COLUMNS.END_TIME] === ""
-        ) {
-          // 開始時刻が24時間以内かチェック
-          const startTimeStr = row[KINTAI_COLUMNS.START_TIME];
-          if (startTimeStr) {
-            const startTime = parseDateTimeFromJST(startTimeStr);
-            if (startTime) {
-              const now = new Date();
-              const timeDiff = now.getTime() - startTime.getTime();
-              const hoursDiff = timeDiff / (1000 * 60 * 60);
-
-              if (hoursDiff <= 24) {
-                // 24時間以内のアクティブセッションが存在
-                return {
-                  hasActiveSession: true,
-                  startTime: startTimeStr,
-                  recordId: row[KINTAI_COLUMNS.UUID] || undefined,
-                };
-              }
-            }
+  /**
+   * 終了していない全ての勤務記録を取得（勤務中セッションの索引作成用）
+   * 勤務中とみなす期間を超えた記録も含める
+   */
+  async listOpenWorkSessions(
+    accessToken: string,
+    spreadsheetId: string,
+    guildId?: string
+  ): Promise<{
+    success: boolean;
+    sessions?: ActiveWorkSession[];
+    error?: string;
+  }> {
+    try {
+      this.accessToken = accessToken;
+
+      const openRows = await this.findOpenRows(
+        spreadsheetId,
+        (row) => !!row[KINTAI_COLUMNS.UUID],
+        guildId
+      );
+
+      const sessions = openRows.map((openRow) =>
+        this.toActiveWorkSession(openRow)
+      );
+
+      return { success: true, sessions };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : typeof error === "object"
+          ? JSON.stringify(error, null, 2)
+          : String(error);
+
+      console.error("Failed to list open work sessions:", error);
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * 未終了の行を勤務中セッションに変換
+   */
+  private toActiveWorkSession({
+    sheetName,
+    rowNumber,
+    row,
+  }: SheetRow): ActiveWorkSession {
+    return {
+      recordId: row[KINTAI_COLUMNS.UUID] || "",
+      userId: row[KINTAI_COLUMNS.DISCORD_ID] || "",
+      username: row[KINTAI_COLUMNS.USERNAME] || "",
+      projectName: row[KINTAI_COLUMNS.PROJECT] || "",
+      channelId: row[KINTAI_COLUMNS.CHANNEL_ID] || "",
+      startTime: row[KINTAI_COLUMNS.START_TIME] || "",
+      breakStartTime:
+        getOpenBreakStart(row[KINTAI_COLUMNS.BREAK_LOG]) || undefined,
+      breakMinutes: Number(row[KINTAI_COLUMNS.BREAK_MINUTES]) || 0,
+      location: { sheetName, rowNumber },
+    };
+  }
+
+  /**
+   * 開始から指定時間を超えても終了していない勤務記録を取得（自動終了用）
+   * @param maxHours 最大勤務時間
+   */
+  async listStaleWorkSessions(
+    accessToken: string,
+    spreadsheetId: string,
+    maxHours: number,
+    guildId?: string
+  ): Promise<{
+    success: boolean;
+    sessions?: StaleWorkSession[];
+    error?: string;
+  }> {
+    try {
+      this.accessToken = accessToken;
+
+      const openRows = await this.findOpenRows(
+        spreadsheetId,
+        (row) => {
+          const startTime = this.parseSheetDateTime(
+            row[KINTAI_COLUMNS.START_TIME] || ""
+          );
+          return (
+            !!startTime &&
+            !!row[KINTAI_COLUMNS.UUID] &&
+            Date.now() - startTime.getTime() > maxHours * 60 * 60 * 1000
+          );
+        },
+        guildId
+      );
+
+      const sessions = openRows.map(({ row }) => ({
+        recordId: row[KINTAI_COLUMNS.UUID],
+        userId: row[KINTAI_COLUMNS.DISCORD_ID] || "",
+        username: row[KINTAI_COLUMNS.USERNAME] || "",
+        projectName: row[KINTAI_COLUMNS.PROJECT] || "",
+        channelId: row[KINTAI_COLUMNS.CHANNEL_ID] || "",
+        startTime: row[KINTAI_COLUMNS.START_TIME],
+        breakStartTime:
+          getOpenBreakStart(row[KINTAI_COLUMNS.BREAK_LOG]) || undefined,
+        breakMinutes: Number(row[KINTAI_COLUMNS.BREAK_MINUTES]) || 0,
+        lastActivityTime: getLastActivityTime(
+          row[KINTAI_COLUMNS.START_TIME],
+          row[KINTAI_COLUMNS.BREAK_LOG]
+        ),
+      }));
+
+      return { success: true, sessions };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : typeof error === "object"
+          ? JSON.stringify(error, null, 2)
+          : String(error);
+
+      console.error("Failed to list stale work sessions:", error);
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * 指定期間に開始した勤務記録を取得（/history 等の集計用）
+   * @param from 期間の開始時刻（含む）
+   * @param to 期間の終了時刻（含まない）
+   * @param filter ユーザーID・プロジェクト名による絞り込み
+   */
+  async getWorkRecords(
+    accessToken: string,
+    spreadsheetId: string,
+    from: Date,
+    to: Date,
+    filter: { userId?: string; projectName?: string } = {},
+    guildId?: string
+  ): Promise<{ success: boolean; records?: WorkRecord[]; error?: string }> {
+    try {
+      this.accessToken = accessToken;
+
+      const existingTitles = await this.getSheetTitles(spreadsheetId, guildId);
+      const sheetNames = getMonthlySheetNamesBetween(
+        from,
+        to,
+        this.timeSettings.timeZone
+      ).filter(
+        (sheetName) => existingTitles.has(sheetName)
+      );
+
+      const records: WorkRecord[] = [];
+      for (const sheetName of sheetNames) {
+        const { rows } = await this.readSheetRows(
+          spreadsheetId,
+          sheetName,
+          guildId
+        );
+
+        for (let i = 1; i < rows.length; i++) {
+          // ヘッダー行をスキップ
+          const row = rows[i];
+
+          if (filter.userId && row[KINTAI_COLUMNS.DISCORD_ID] !== filter.userId) {
+            continue;
+          }
+          if (
+            filter.projectName &&
+            row[KINTAI_COLUMNS.PROJECT] !== filter.projectName
+          ) {
+            continue;
+          }
+
+          const startTime = this.parseSheetDateTime(
+            row[KINTAI_COLUMNS.START_TIME] || ""
+          );
+          if (
+            !startTime ||
+            startTime.getTime() < from.getTime() ||
+            startTime.getTime() >= to.getTime()
+          ) {
+            continue;
           }
+
+          records.push(this.toWorkRecord(sheetName, i + 1, row, startTime));
         }
       }
 
-      return { hasActiveSession: false };
+      return { success: true, records };
     } catch (error) {
       const errorMessage =
         error instanceof Error
@@ -979,73 +2300,160 @@ export class SheetsService {
           ? JSON.stringify(error, null, 2)
           : String(error);
 
-      console.error("Failed to check active work session:", error);
+      console.error("Failed to get work records:", error);
       return {
-        hasActiveSession: false,
-        error: `アクティブセッションの確認に失敗しました: ${errorMessage}`,
+        success: false,
+        error: errorMessage,
       };
     }
   }
 
   /**
-   * 指定ユーザーの未完了勤務記録を取得（終了処理用）
-   * KVの代わりにスプレッドシートを直接確認
+   * UUIDで勤務記録を取得（直近の月別シートを検索）
    */
-  async getActiveWorkRecord(
+  async getWorkRecordByUUID(
     accessToken: string,
     spreadsheetId: string,
-    userId: string,
-    channelId: string,
+    uuid: string,
     guildId?: string
   ): Promise<{
-    found: boolean;
-    recordId?: string;
-    startTime?: string;
-    username?: string;
-    projectName?: string;
+    success: boolean;
+    record?: WorkRecord;
     error?: string;
+    errorCode?: AttendanceErrorCode;
   }> {
     try {
       this.accessToken = accessToken;
 
-      const currentMonth = new Date().toISOString().slice(0, 7); // YYYY-MM
-      const sheetName = currentMonth;
+      const target = await this.findRowByRecordId(spreadsheetId, uuid, guildId);
+      if (!target) {
+        return { success: false, errorCode: "record_not_found" };
+      }
 
-      // シートが存在するかチェック
-      const sheetsData = await this.getSpreadsheetInfo(spreadsheetId, guildId);
-      const sheetExists = sheetsData.sheets?.some(
-        (sheet: any) => sheet.properties.title === sheetName
+      const startTime = this.parseSheetDateTime(
+        target.row[KINTAI_COLUMNS.START_TIME]
       );
+      if (!startTime) {
+        return {
+          success: false,
+          errorCode: "unreadable_record",
+        };
+      }
 
-      if (!sheetExists) {
-        return { found: false };
+      return {
+        success: true,
+        record: this.toWorkRecord(
+          target.sheetName,
+          target.rowNumber,
+          target.row,
+          startTime
+        ),
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : typeof error === "object"
+          ? JSON.stringify(error, null, 2)
+          : String(error);
+
+      console.error("Failed to get work record:", error);
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * 勤務記録の開始時刻・終了時刻・やったことを修正
+   * 時刻の妥当性チェックは呼び出し元で行う
+   */
+  async updateWorkRecord(
+    accessToken: string,
+    spreadsheetId: string,
+    record: WorkRecord,
+    changes: { startTime?: Date; endTime?: Date; todo?: string },
+    guildId?: string
+  ): Promise<{
+    success: boolean;
+    record?: WorkRecord;
+    error?: string;
+    errorCode?: AttendanceErrorCode;
+  }> {
+    try {
+      this.accessToken = accessToken;
+
+      // 取得後に行がずれている可能性があるため、UUIDで行を再検索
+      const target = await this.findRowByRecordId(
+        spreadsheetId,
+        record.uuid,
+        guildId,
+        record.sheetName
+      );
+      if (!target) {
+        return { success: false, errorCode: "record_not_found" };
       }
 
-      // 該当ユーザーの未完了記録を検索
-      const range = `${sheetName}!A:I`;
-      const values = await this.getRange(spreadsheetId, range, guildId);
+      const { row, rowNumber } = target;
 
-      for (let i = 1; i < values.length; i++) {
-        // ヘッダー行をスキップ
-        const row = values[i];
-
-        // discord_id、channel_idが一致し、終了時刻が空の記録を検索
-        if (
-          row[KINTAI_COLUMNS.DISCORD_ID] === userId &&
-          row[KINTAI_COLUMNS.CHANNEL_ID] === channelId &&
-          row[KINTAI_COLUMNS.END_TIME] === ""
-        ) {
-          return {
-            found: true,
-            recordId: row[KINTAI_COLUMNS.UUID] || undefined,
-            startTime: row[KINTAI_COLUMNS.START_TIME] || undefined,
-            username: row[KINTAI_COLUMNS.USERNAME] || undefined,
-            projectName: row[KINTAI_COLUMNS.PROJECT] || undefined,
-          };
+      if (changes.todo !== undefined) {
+        row[KINTAI_COLUMNS.TODO] = changes.todo;
+      }
+      if (changes.startTime) {
+        row[KINTAI_COLUMNS.START_TIME] = this.formatSheetDateTime(
+          changes.startTime
+        );
+      }
+      if (changes.endTime) {
+        row[KINTAI_COLUMNS.END_TIME] = this.formatSheetDateTime(
+          changes.endTime
+        );
+
+        // 休憩中のまま終了時刻を設定した場合は終了時刻で休憩を閉じる
+        const closedBreak = closeOpenBreak(
+          row[KINTAI_COLUMNS.BREAK_LOG],
+          Number(row[KINTAI_COLUMNS.BREAK_MINUTES]) || 0,
+          changes.endTime,
+          this.timeSettings.timeZone
+        );
+        if (closedBreak) {
+          row[KINTAI_COLUMNS.BREAK_LOG] = closedBreak.breakLog;
+          row[KINTAI_COLUMNS.BREAK_MINUTES] = String(closedBreak.breakMinutes);
         }
       }
 
-      return { found: false };
+      // 差分は表示値ではなく数式を書き戻す
+      row[KINTAI_COLUMNS.WORK_HOURS] = this.buildWorkHoursFormula(
+        target.layout,
+        rowNumber
+      );
+
+      // 修正対象の項目のセルだけを書き戻す（利用者が追加した列には触れない）
+      const editedFields: KintaiColumn[] = [
+        "TODO",
+        "WORK_HOURS",
+        "START_TIME",
+        "END_TIME",
+        "BREAK_LOG",
+        "BREAK_MINUTES",
+      ];
+      await this.batchUpdateValues(
+        spreadsheetId,
+        editedFields.map((field) => ({
+          range: this.cellRange(target, field),
+          values: [[row[KINTAI_COLUMNS[field]]]],
+        })),
+        guildId
+      );
+
+      const startTime = this.parseSheetDateTime(row[KINTAI_COLUMNS.START_TIME]);
+      return {
+        success: true,
+        record: startTime
+          ? this.toWorkRecord(record.sheetName, rowNumber, row, startTime)
+          : undefined,
+      };
     } catch (error) {
       const errorMessage =
         error instanceof Error
@@ -1054,11 +2462,95 @@ export class SheetsService {
           ? JSON.stringify(error, null, 2)
           : String(error);
 
-      console.error("Failed to get active work record:", error);
+      console.error("Failed to update work record:", error);
       return {
-        found: false,
-        error: `アクティブ勤務記録の取得に失敗しました: ${errorMessage}`,
+        success: false,
+        error: errorMessage,
       };
     }
   }
+
+  /**
+   * スプレッドシートの行を勤務記録に変換
+   */
+  private toWorkRecord(
+    sheetName: string,
+    rowNumber: number,
+    row: string[],
+    startTime: Date
+  ): WorkRecord {
+    const endTimeStr = row[KINTAI_COLUMNS.END_TIME] || "";
+    const endTime = endTimeStr ? this.parseSheetDateTime(endTimeStr) : null;
+    const breakMinutes = Number(row[KINTAI_COLUMNS.BREAK_MINUTES]) || 0;
+
+    const workMinutes = endTime
+      ? Math.max(
+          0,
+          Math.floor((endTime.getTime() - startTime.getTime()) / (1000 * 60)) -
+            breakMinutes
+        )
+      : null;
+
+    return {
+      sheetName,
+      rowNumber,
+      projectName: row[KINTAI_COLUMNS.PROJECT] || "",
+      username: row[KINTAI_COLUMNS.USERNAME] || "",
+      todo: row[KINTAI_COLUMNS.TODO] || "",
+      startTime: row[KINTAI_COLUMNS.START_TIME] || "",
+      endTime: endTimeStr,
+      channelId: row[KINTAI_COLUMNS.CHANNEL_ID] || "",
+      userId: row[KINTAI_COLUMNS.DISCORD_ID] || "",
+      uuid: row[KINTAI_COLUMNS.UUID] || "",
+      breakMinutes,
+      workDate: formatDateTime(startTime, this.timeSettings.timeZone).slice(0, 10),
+      workMinutes,
+    };
+  }
+
+  /**
+   * 直近の月別シートから終了時刻が空の行を検索
+   * @param predicate 行の絞り込み条件
+   */
+  private async findOpenRows(
+    spreadsheetId: string,
+    predicate: (row: string[]) => boolean,
+    guildId?: string
+  ): Promise<SheetRow[]> {
+    const results: SheetRow[] = [];
+
+    // シートが存在しない場合は検索対象外
+    const sheetNames = await this.getRecentSheetNames(spreadsheetId, guildId);
+
+    for (const sheetName of sheetNames) {
+      const { layout, rows } = await this.readSheetRows(
+        spreadsheetId,
+        sheetName,
+        guildId
+      );
+
+      for (let i = 1; i < rows.length; i++) {
+        // ヘッダー行をスキップ
+        const row = rows[i];
+        if (!row[KINTAI_COLUMNS.END_TIME] && predicate(row)) {
+          results.push({ sheetName, rowNumber: i + 1, row, layout }); // Google Sheetsは1ベース
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * 開始時刻がアクティブとみなす期間（24時間）以内かチェック
+   */
+  private isWithinActiveWindow(startTimeStr: string | undefined): boolean {
+    if (!startTimeStr) return false;
+
+    const startTime = this.parseSheetDateTime(startTimeStr);
+    if (!startTime) return false;
+
+    const hoursDiff = (Date.now() - startTime.getTime()) / (1000 * 60 * 60);
+    return hoursDiff <= ACTIVE_SESSION_MAX_HOURS;
+  }
 }
@@ -0,0 +1,98 @@
+import { Bindings } from "./types";
+import { ServerConfigService } from "./server-config-service";
+import { SheetsService, resolveColumnLayout } from "./sheets-service";
+import { hasSpreadsheet } from "./attendance-store";
+import { getTimeSettings } from "./utils";
+
+// 集計シートの更新・暗号化キーの移行を行う定期実行のスケジュール（wrangler.jsonc の triggers.crons と合わせる）
+// 毎時0分の自動終了で終了した記録も含めるため、30分に実行する
+export const SUMMARY_CRON = "30 * * * *";
+
+// 1回の実行で集計シートを更新するサーバー数の上限（Workers のサブリクエスト数の上限に収めるため）
+// 残りのサーバーは次回以降の実行で続きから更新する
+const SUMMARY_GUILDS_PER_RUN = 20;
+
+// 前回の実行で最後に更新したサーバーID（KV のキー）
+const SUMMARY_CURSOR_KEY = "summary_cursor";
+
+export class SummaryService {
+  private env: Bindings;
+
+  constructor(env: Bindings) {
+    this.env = env;
+  }
+
+  /**
+   * スプレッドシートと連携済みのサーバーの集計シートを、前回の続きから順番に更新
+   * Cron Trigger から定期実行される（サーバーが多い場合は複数回の実行で一巡する）
+   */
+  async updateSummaries(): Promise<{ updated: number; failed: number }> {
+    const serverConfigService = new ServerConfigService(this.env);
+    const guildIds = await serverConfigService.listGuildIds();
+    const kv = this.env.KINTAI_DISCORD_KV;
+    let updated = 0;
+    let failed = 0;
+
+    // サーバーIDは KV のキー順（文字列順）に並んでいるため、前回の最後のサーバーの次から始める
+    const cursor = await kv.get(SUMMARY_CURSOR_KEY);
+    const start = Math.max(
+      0,
+      cursor ? guildIds.findIndex((guildId) => guildId > cursor) : 0
+    );
+    const batch = [...guildIds.slice(start), ...guildIds.slice(0, start)].slice(
+      0,
+      SUMMARY_GUILDS_PER_RUN
+    );
+
+    for (const guildId of batch) {
+      try {
+        if (await this.updateSummaryForGuild(guildId)) {
+          updated++;
+        }
+      } catch (error) {
+        // 1サーバーの失敗で他のサーバーの処理を止めない
+        console.error(`Summary update failed (guildId: ${guildId}):`, error);
+        failed++;
+      }
+    }
+
+    if (batch.length > 0) {
+      await kv.put(SUMMARY_CURSOR_KEY, batch[batch.length - 1]);
+    }
+
+    console.log(
+      `Summary update finished: updated=${updated}, failed=${failed}, remaining=${
+        guildIds.length - batch.length
+      }`
+    );
+    return { updated, failed };
+  }
+
+  /**
+   * 指定サーバーの集計シートを更新
+   * @returns 更新した場合は true（スプレッドシートと連携していないサーバーは false）
+   */
+  private async updateSummaryForGuild(guildId: string): Promise<boolean> {
+    const serverConfigService = new ServerConfigService(this.env);
+    const config = await serverConfigService.getServerConfig(guildId);
+    if (!config || !hasSpreadsheet(config)) return false;
+
+    // D1 で運用するサーバーも、スプレッドシートへの複製から集計する
+    const sheetsService = new SheetsService(
+      this.env,
+      undefined,
+      getTimeSettings(config),
+      resolveColumnLayout(config.column_layout)
+    );
+    const result = await sheetsService.updateSummarySheet(
+      config.access_token,
+      config.spreadsheet_id,
+      guildId
+    );
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    return true;
+  }
+}
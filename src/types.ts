@@ -1,12 +1,24 @@
+import type { AttendanceCoordinator } from "./attendance-coordinator";
+import type { RateLimiter } from "./rate-limiter";
+
 // Discord API関連の型定義
 export type Bindings = {
   DISCORD_PUBLIC_KEY: string;
   DISCORD_APPLICATION_ID: string;
   DISCORD_TOKEN: string;
-  ALLOWED_CHANNEL_IDS: string;
   KINTAI_DISCORD_KV: KVNamespace;
   // 暗号化キー
   ENCRYPTION_KEY: string;
+  // 暗号化キーのバージョン（キーを更新するたびに増やす。未設定時は 1）
+  ENCRYPTION_KEY_VERSION?: string;
+  // 更新前の暗号化キー（"バージョン:キー" のカンマ区切り。再暗号化が終わるまで復号に使う）
+  PREVIOUS_ENCRYPTION_KEYS?: string;
+  // サーバーごとの勤怠書き込みを直列化する Durable Object
+  ATTENDANCE_COORDINATOR: DurableObjectNamespace<AttendanceCoordinator>;
+  // コマンド・公開APIの回数制限（トークンバケット）を管理する Durable Object
+  RATE_LIMITER: DurableObjectNamespace<RateLimiter>;
+  // D1 を保存先に選んだサーバーの勤怠データ（/init storage:d1 を使う場合のみ必要）
+  KINTAI_DB?: D1Database;
 };
 
 // GAS関連の型定義
@@ -39,6 +51,57 @@ export interface AttendanceRecord {
   todo: string; // 必須フィールドに変更
 }
 
+// 勤務中の記録（/who 用）
+export interface ActiveWorkSession {
+  recordId: string;
+  userId: string;
+  username: string;
+  projectName: string;
+  channelId: string;
+  startTime: string;
+  breakStartTime?: string;
+  breakMinutes: number;
+  location?: RowLocation; // スプレッドシート上の行の位置（分かっている場合）
+}
+
+// 勤務記録の行の位置
+export interface RowLocation {
+  sheetName: string;
+  rowNumber: number;
+}
+
+// 最大勤務時間を超えた未終了の勤務記録（自動終了用）
+export interface StaleWorkSession extends ActiveWorkSession {
+  lastActivityTime: string; // 最後の操作（開始・休憩・再開）の時刻
+}
+
+// 勤怠データの操作が失敗した理由（利用者へのメッセージは index.ts でメッセージカタログから作る）
+// 理由が分からない保存先の失敗はコードを付けず、error に保存先から返された詳細を入れる
+export type AttendanceErrorCode =
+  | "start_record_not_found" // 終了・休憩の対象の開始記録が見つからない
+  | "record_not_found" // 指定された記録が見つからない
+  | "unreadable_record" // 開始時刻を解析できない記録
+  | "already_on_break" // 既に休憩中
+  | "not_on_break" // 休憩中ではない
+  | "config_not_found"; // サーバー設定が見つからない
+
+// スプレッドシートから読み取った勤務記録（/history 等の集計用）
+export interface WorkRecord {
+  sheetName: string;
+  rowNumber: number;
+  projectName: string;
+  username: string;
+  todo: string;
+  startTime: string; // スプレッドシート上の表記（JST）
+  endTime: string; // 未終了の場合は空文字
+  channelId: string;
+  userId: string;
+  uuid: string;
+  breakMinutes: number;
+  workDate: string; // 開始日（YYYY/MM/DD, JST）
+  workMinutes: number | null; // 休憩を除いた労働時間（未終了の場合は null）
+}
+
 // KVストレージ用の型定義
 export interface KVAttendanceRecord {
   startTime: string;
@@ -52,10 +115,21 @@ export interface KVAttendanceRecord {
 export interface OAuthState {
   guildId: string;
   userId: string;
+  language?: Language;
+  flow?: OAuthFlow; // 未設定時は init
+  spreadsheetId?: string; // attach で連携するスプレッドシート
   timestamp: number;
+  registered?: boolean; // OAuth 認証情報を登録済み（同じ state では再登録できない）
 }
 
-export interface ServerConfig {
+// Google 認証の目的
+export type OAuthFlow =
+  | "init" // 新しいスプレッドシートを作成して連携
+  | "attach" // 既存のスプレッドシートを連携（ヘッダー行を確認・補修）
+  | "reconnect"; // 連携中のスプレッドシートのまま、トークンだけを取り直す
+
+// Google 連携なし（D1 のみ）で運用する場合、スプレッドシート・トークンの項目は空文字
+export interface ServerConfig extends ServerSettings {
   spreadsheet_id: string;
   access_token: string;
   refresh_token: string;
@@ -64,7 +138,7 @@ export interface ServerConfig {
   created_at: string;
 }
 
-export interface EncryptedServerConfig {
+export interface EncryptedServerConfig extends ServerSettings {
   spreadsheet_id: string;
   encrypted_tokens: string;
   sheet_url: string;
@@ -72,6 +146,83 @@ export interface EncryptedServerConfig {
   created_at: string;
 }
 
+// サーバー別の任意設定（トークン再保存時も引き継がれる）
+export interface ServerSettings {
+  admin_role_ids?: string[]; // 勤怠管理者ロールID
+  auto_close_max_hours?: number; // 自動終了するまでの最大勤務時間
+  auto_close_policy?: AutoClosePolicy; // 自動終了時の終了時刻の決め方
+  timezone?: string; // IANAタイムゾーン名（例: Asia/Tokyo）
+  locale?: string; // スプレッドシートのロケール（例: ja_JP）
+  language?: Language; // Botのメッセージの言語（未設定時はDiscordのロケールに従う）
+  storage?: StorageBackend; // 勤怠データの保存先（未設定時はスプレッドシート）
+  column_layout?: Partial<ColumnLayout>; // 月別シートの列の配置（未設定の項目は既定の列）
+  digest_channel_id?: string; // ダイジェストを投稿するチャンネル（未設定時は送信しない）
+  digest_hour?: number; // ダイジェストを送信する時刻（サーバーのタイムゾーンの時、0〜23）
+  digest_weekly?: boolean; // 月曜日に先週のダイジェストも送信するか（未設定時は送信する）
+  channel_rules?: ChannelRules; // 打刻（/start・/end）できるチャンネルの制限（未設定時は全てのチャンネル）
+}
+
+// 打刻できるチャンネルの制限（チャンネルまたはカテゴリーのID。カテゴリーを指定すると配下のチャンネルも対象）
+export interface ChannelRules {
+  allowed_ids?: string[]; // 打刻を許可する場所（空の場合は禁止した場所以外の全て）
+  denied_ids?: string[]; // 打刻を禁止する場所（許可より優先）
+}
+
+// 時刻の解釈・表示とスプレッドシート作成に使うサーバー別の設定
+export interface TimeSettings {
+  timeZone: string;
+  locale: string;
+}
+
+// Botのメッセージの言語
+export type Language = "ja" | "en";
+
+// 勤怠データの保存先
+export type StorageBackend =
+  | "sheets" // Google スプレッドシートのみ
+  | "d1"; // D1 を正とし、スプレッドシートと連携済みであれば複製する
+
+// 勤怠シートの列の項目
+export type KintaiColumn =
+  | "PROJECT"
+  | "USERNAME"
+  | "TODO"
+  | "WORK_HOURS"
+  | "START_TIME"
+  | "END_TIME"
+  | "CHANNEL_ID"
+  | "DISCORD_ID"
+  | "UUID"
+  | "BREAK_LOG"
+  | "BREAK_MINUTES";
+
+// 勤怠シートの列の配置（項目ごとの列番号、A列 = 0）
+export type ColumnLayout = Record<KintaiColumn, number>;
+
+// 終了打刻忘れの自動終了ポリシー
+export type AutoClosePolicy =
+  | "max_length" // 開始時刻 + 最大勤務時間で終了
+  | "last_activity"; // 最後の操作（開始・休憩・再開）の時刻で終了
+
+// /report の集計単位
+export type ReportGrouping =
+  | "user" // ユーザー別
+  | "project" // プロジェクト別
+  | "day"; // 日別
+
+// 管理者権限の判定結果
+export type AdminPermissionReason =
+  | "administrator" // Discordの管理者権限
+  | "manage_guild" // Discordのサーバー管理権限
+  | "guild_owner" // サーバーオーナー
+  | "config_owner" // /init を実行した設定者
+  | "admin_role"; // 勤怠管理者ロール
+
+export interface AdminPermissionResult {
+  allowed: boolean;
+  reason?: AdminPermissionReason;
+}
+
 export interface GoogleTokens {
   access_token: string;
   refresh_token: string;
@@ -99,6 +250,7 @@ export interface GoogleSheetsCreateRequest {
 // Setup コマンドのレスポンス型
 export interface SetupResult {
   success: boolean;
+  flow?: OAuthFlow;
   guildId?: string;
   error?: string;
   spreadsheetUrl?: string;
@@ -1,3 +1,23 @@
+import {
+  ChannelRules,
+  Language,
+  ServerSettings,
+  TimeSettings,
+  WorkRecord,
+} from "./types";
+import {
+  DEFAULT_LANGUAGE,
+  MessageKey,
+  Translator,
+  createTranslator,
+} from "./i18n";
+
+// サーバー別設定がない場合のタイムゾーン・ロケール
+export const DEFAULT_TIME_SETTINGS: TimeSettings = {
+  timeZone: "Asia/Tokyo",
+  locale: "ja_JP",
+};
+
 export async function verifyDiscordRequest(
   request: Request,
   publicKey: string
@@ -56,92 +76,190 @@ export function getCurrentTimestamp(): string {
 }
 
 /**
- * チャンネルIDが許可リストに含まれているかチェック
- * @param channelId チャンネルID
- * @param allowedChannels 許可されたチャンネルIDのリスト
- * @returns チャンネルが許可されているかどうか
+ * 文字列から一意に決まるUUID形式の記録IDを生成
+ * 同じインタラクションの再試行で同じ記録IDを使い、二重記録を防ぐために利用
+ * @param seed インタラクションIDなどの一意なキー
+ */
+export async function deriveRecordId(seed: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(seed)
+  );
+  const bytes = new Uint8Array(digest).slice(0, 16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x80; // バージョン8（独自生成）
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // RFC 4122 バリアント
+
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join("-");
+}
+
+/**
+ * チャンネルで打刻できるかチェック
+ * @param scopeIds チャンネルIDと、その親（カテゴリー・スレッドの親チャンネル）のID
+ * @param rules サーバーのチャンネルの制限
+ * @returns 禁止した場所に含まれず、許可した場所が未設定か含まれる場合は true
  */
 export function isChannelAllowed(
-  channelId: string,
-  allowedChannels: string[]
+  scopeIds: string[],
+  rules: ChannelRules | undefined
 ): boolean {
-  // "*" が設定されている場合はすべてのチャンネルを許可
-  if (allowedChannels.includes("*")) {
+  if (rules?.denied_ids?.some((id) => scopeIds.includes(id))) {
+    return false;
+  }
+  if (!rules?.allowed_ids?.length) {
     return true;
   }
-  return allowedChannels.includes(channelId);
+  return rules.allowed_ids.some((id) => scopeIds.includes(id));
 }
 
 /**
- * 時刻文字列をパースしてDate オブジェクトを作成（JST基準）
- * @param timeString 時刻文字列 (例: "09:00", "0900", "19:30", "1930")
- * @param baseDate 基準日（省略時は今日）
- * @returns パースされたDate オブジェクト（UTC）
+ * 時刻文字列を時・分に分解
+ * @param timeString 時刻文字列 (例: "09:00", "0900", "900")
+ * @returns 時・分、形式が不正な場合はnull
  */
-export function parseTimeStringToJST(
-  timeString: string,
-  baseDate?: Date
-): Date | null {
-  try {
-    // 基準日を設定（JSTで今日）
-    const base = baseDate || new Date();
-
-    // JSTで日付を作成（UTCから9時間戻す）
-    const jstDate = new Date(base.getTime() + 9 * 60 * 60 * 1000);
-    const year = jstDate.getUTCFullYear();
-    const month = jstDate.getUTCMonth();
-    const day = jstDate.getUTCDate();
-
-    // 時刻文字列をパース
-    let hours: number, minutes: number;
-
-    if (timeString.includes(":")) {
-      // "HH:MM" 形式
-      const parts = timeString.split(":");
-      if (parts.length !== 2) return null;
-
-      hours = parseInt(parts[0], 10);
-      minutes = parseInt(parts[1], 10);
-    } else if (timeString.length === 3 || timeString.length === 4) {
-      // "HMM" または "HHMM" 形式
-      if (timeString.length === 3) {
-        // "HMM" 形式 (例: "900" -> 9:00)
-        hours = parseInt(timeString.substring(0, 1), 10);
-        minutes = parseInt(timeString.substring(1), 10);
-      } else {
-        // "HHMM" 形式 (例: "1900" -> 19:00)
-        hours = parseInt(timeString.substring(0, 2), 10);
-        minutes = parseInt(timeString.substring(2), 10);
-      }
-    } else {
-      return null;
-    }
+function parseHoursMinutes(
+  timeString: string
+): { hours: number; minutes: number } | null {
+  let hours: number, minutes: number;
+
+  if (timeString.includes(":")) {
+    // "HH:MM" 形式
+    const parts = timeString.split(":");
+    if (parts.length !== 2) return null;
+
+    hours = parseInt(parts[0], 10);
+    minutes = parseInt(parts[1], 10);
+  } else if (timeString.length === 3 || timeString.length === 4) {
+    // "HMM" または "HHMM" 形式 (例: "900" -> 9:00, "1900" -> 19:00)
+    const hourLength = timeString.length - 2;
+    hours = parseInt(timeString.substring(0, hourLength), 10);
+    minutes = parseInt(timeString.substring(hourLength), 10);
+  } else {
+    return null;
+  }
 
-    // 時刻の有効性をチェック
-    if (
-      isNaN(hours) ||
-      isNaN(minutes) ||
-      hours < 0 ||
-      hours > 23 ||
-      minutes < 0 ||
-      minutes > 59
-    ) {
-      return null;
-    }
+  // 時刻の有効性をチェック
+  if (
+    isNaN(hours) ||
+    isNaN(minutes) ||
+    hours < 0 ||
+    hours > 23 ||
+    minutes < 0 ||
+    minutes > 59
+  ) {
+    return null;
+  }
 
-    // JSTでDateオブジェクトを作成し、UTCに変換
-    const jstDateTime = new Date(year, month, day, hours, minutes, 0, 0);
-    const utcDateTime = new Date(jstDateTime.getTime() - 9 * 60 * 60 * 1000);
+  return { hours, minutes };
+}
 
-    return utcDateTime;
-  } catch (error) {
-    console.error("Time parsing error:", error);
-    return null;
+/**
+ * IANAタイムゾーン名として有効かチェック
+ * @param timeZone タイムゾーン名 (例: "Asia/Tokyo", "Europe/Berlin")
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
   }
 }
 
 /**
- * 指定された時刻が現在時刻より未来かどうかをチェック（JST基準）
+ * サーバー設定から時刻処理の設定を取得（未設定の場合はJST・日本語）
+ */
+export function getTimeSettings(settings?: ServerSettings | null): TimeSettings {
+  return {
+    timeZone: settings?.timezone || DEFAULT_TIME_SETTINGS.timeZone,
+    locale: settings?.locale || DEFAULT_TIME_SETTINGS.locale,
+  };
+}
+
+/**
+ * 指定タイムゾーンでの年月日・時分秒を取得
+ * @param date 対象日時
+ * @param timeZone IANAタイムゾーン名
+ * @returns 各要素（monthは1始まり）
+ */
+export function getZonedDateParts(
+  date: Date,
+  timeZone: string
+): {
+  year: number;
+  month: number;
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+} {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hours: get("hour"),
+    minutes: get("minute"),
+    seconds: get("second"),
+  };
+}
+
+/**
+ * 指定タイムゾーンのUTCからのオフセット（ミリ秒）を取得
+ */
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = getZonedDateParts(date, timeZone);
+  const zonedAsUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hours,
+    parts.minutes,
+    parts.seconds
+  );
+  return zonedAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * 指定タイムゾーンでの日時をDateオブジェクト（UTC）に変換
+ * @param month 月（1始まり）
+ * @param timeZone IANAタイムゾーン名
+ */
+export function zonedDateTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hours: number,
+  minutes: number,
+  seconds: number,
+  timeZone: string
+): Date {
+  const zonedAsUtc = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+  const guess = zonedAsUtc - getTimeZoneOffset(new Date(zonedAsUtc), timeZone);
+  // 夏時間の切り替え前後ではオフセットが変わるため、変換後の時刻で再計算
+  return new Date(zonedAsUtc - getTimeZoneOffset(new Date(guess), timeZone));
+}
+
+/**
+ * 指定された時刻が現在時刻より未来かどうかをチェック
  * @param targetTime チェック対象の時刻
  * @returns 未来の時刻の場合 true
  */
@@ -164,22 +282,20 @@ export function isEndTimeBeforeStartTime(
 }
 
 /**
- * 日付文字列をパースしてDateオブジェクトを作成（JST基準）
+ * 日付文字列をパースしてDateオブジェクトを作成（サーバーのタイムゾーン基準）
  * @param dateString 日付文字列 (例: "2023-03-15", "20230315", "today", "yesterday", "0", "-1")
- * @returns パースされたDateオブジェクト、失敗時はnull
+ * @param timeZone 「今日」を判定するタイムゾーン
+ * @returns 年月日を保持するDateオブジェクト、失敗時はnull
  */
-export function parseDateString(dateString: string): Date | null {
+export function parseDateString(
+  dateString: string,
+  timeZone: string
+): Date | null {
   if (!dateString) return null;
 
-  // JSTベースで今日の日付を取得
-  const now = new Date();
-  const jstOffset = 9 * 60 * 60 * 1000; // +9時間
-  const jstNow = new Date(now.getTime() + jstOffset);
-  const today = new Date(
-    jstNow.getUTCFullYear(),
-    jstNow.getUTCMonth(),
-    jstNow.getUTCDate()
-  );
+  // サーバーのタイムゾーンで今日の日付を取得
+  const now = getZonedDateParts(new Date(), timeZone);
+  const today = new Date(now.year, now.month - 1, now.day);
 
   switch (dateString.toLowerCase()) {
     case "today":
@@ -226,187 +342,401 @@ function isValidDate(date: Date): boolean {
 }
 
 /**
- * 時刻文字列と日付文字列を組み合わせてDateオブジェクトを作成（JST基準）
+ * 時刻文字列と日付文字列を組み合わせてDateオブジェクトを作成（サーバーのタイムゾーン基準）
  * @param timeString 時刻文字列 (例: "09:00", "0900") - undefinedの場合は現在時刻を使用
  * @param dateString 日付文字列 (例: "today", "2023-03-15") - undefinedの場合は今日を使用
- * @returns パースされたDateオブジェクト（内部はUTCだが、JST時刻として作成）
+ * @param timeZone 時刻を解釈するタイムゾーン
+ * @returns パースされたDateオブジェクト（UTC）
  */
 export function parseTimeStringWithDate(
-  timeString?: string,
-  dateString?: string
+  timeString: string | undefined,
+  dateString: string | undefined,
+  timeZone: string
 ): Date | null {
+  const now = getZonedDateParts(new Date(), timeZone);
+
   // 日付を決定
-  let targetYear: number, targetMonth: number, targetDay: number;
+  let targetYear = now.year;
+  let targetMonth = now.month;
+  let targetDay = now.day;
 
   if (dateString) {
-    const parsedDate = parseDateString(dateString);
+    const parsedDate = parseDateString(dateString, timeZone);
     if (!parsedDate) return null;
 
     targetYear = parsedDate.getFullYear();
-    targetMonth = parsedDate.getMonth();
+    targetMonth = parsedDate.getMonth() + 1;
     targetDay = parsedDate.getDate();
-  } else {
-    // 今日の日付をJST基準で取得（システムローカル日付を使用）
-    const today = new Date();
-    targetYear = today.getFullYear();
-    targetMonth = today.getMonth();
-    targetDay = today.getDate();
   }
 
-  // 時刻を決定
-  let targetHours: number, targetMinutes: number;
+  // 時刻を決定（未指定の場合は現在時刻）
+  let targetHours = now.hours;
+  let targetMinutes = now.minutes;
 
   if (timeString) {
-    // 時刻が指定された場合
-    if (timeString.includes(":")) {
-      // "HH:MM" 形式
-      const parts = timeString.split(":");
-      if (parts.length !== 2) return null;
-      targetHours = parseInt(parts[0], 10);
-      targetMinutes = parseInt(parts[1], 10);
-    } else if (timeString.length === 3 || timeString.length === 4) {
-      // "HMM" または "HHMM" 形式
-      if (timeString.length === 3) {
-        targetHours = parseInt(timeString.substring(0, 1), 10);
-        targetMinutes = parseInt(timeString.substring(1), 10);
-      } else {
-        targetHours = parseInt(timeString.substring(0, 2), 10);
-        targetMinutes = parseInt(timeString.substring(2), 10);
-      }
-    } else {
-      return null;
-    }
+    const parsedTime = parseHoursMinutes(timeString);
+    if (!parsedTime) return null;
 
-    // 時刻の有効性をチェック
-    if (
-      isNaN(targetHours) ||
-      isNaN(targetMinutes) ||
-      targetHours < 0 ||
-      targetHours > 23 ||
-      targetMinutes < 0 ||
-      targetMinutes > 59
-    ) {
-      return null;
-    }
-  } else {
-    // 時刻が未指定の場合は現在のJST時刻を使用
-    const now = new Date();
-    // 現在時刻をJSTとして取得（システムローカル時刻を使用）
-    targetHours = now.getHours();
-    targetMinutes = now.getMinutes();
-  }
-
-  // dayの引数がある場合のみUTC変換を行う
-  let utcDate: Date;
-  if (timeString) {
-    // 日付が指定されている場合：JST→UTC変換
-    const utcHours = targetHours - 9;
-    utcDate = new Date(
-      Date.UTC(
-        targetYear,
-        targetMonth,
-        targetDay,
-        utcHours,
-        targetMinutes,
-        0,
-        0
-      )
-    );
-  } else {
-    // 日付が未指定の場合：現在時刻をそのまま使用（UTC変換なし）
-    utcDate = new Date(
-      targetYear,
-      targetMonth,
-      targetDay,
-      targetHours,
-      targetMinutes,
-      0,
-      0
-    );
+    targetHours = parsedTime.hours;
+    targetMinutes = parsedTime.minutes;
   }
 
-  return utcDate;
+  return zonedDateTimeToUtc(
+    targetYear,
+    targetMonth,
+    targetDay,
+    targetHours,
+    targetMinutes,
+    0,
+    timeZone
+  );
 }
 
 /**
- * Date オブジェクトをJST文字列に変換（更新版）
+ * Date オブジェクトをサーバーのタイムゾーンの日時文字列に変換
  * @param date Date オブジェクト
- * @param includeDate 日付も含めるかどうか
- * @returns JST形式の文字列
+ * @param timeZone 表示するタイムゾーン
+ * @returns YYYY/MM/DD HH:MM:SS 形式の文字列
  */
-export function formatDateToJST(
-  date: Date,
-  includeDate: boolean = false
-): string {
-  const jstDate = new Date(date.getTime() + 9 * 60 * 60 * 1000);
+export function formatDateTime(date: Date, timeZone: string): string {
+  const parts = getZonedDateParts(date, timeZone);
+  const pad = (value: number) => String(value).padStart(2, "0");
 
-  const year = jstDate.getUTCFullYear();
-  const month = String(jstDate.getUTCMonth() + 1).padStart(2, "0");
-  const day = String(jstDate.getUTCDate()).padStart(2, "0");
-  const hours = String(jstDate.getUTCHours()).padStart(2, "0");
-  const minutes = String(jstDate.getUTCMinutes()).padStart(2, "0");
-  const seconds = String(jstDate.getUTCSeconds()).padStart(2, "0");
+  return `${parts.year}/${pad(parts.month)}/${pad(parts.day)} ${pad(
+    parts.hours
+  )}:${pad(parts.minutes)}:${pad(parts.seconds)}`;
+}
 
-  if (includeDate) {
-    return `${year}/${month}/${day} ${hours}:${minutes}:${seconds}`;
-  } else {
-    return `${year}/${month}/${day} ${hours}:${minutes}:${seconds}`;
-  }
+/**
+ * Date オブジェクトを勤務記録に保存する日時文字列（分まで）に変換
+ * @param date Date オブジェクト
+ * @param timeZone 記録するタイムゾーン
+ * @returns YYYY/MM/DD HH:MM 形式の文字列
+ */
+export function formatRecordDateTime(date: Date, timeZone: string): string {
+  return formatDateTime(date, timeZone).slice(0, 16);
 }
 
 /**
- * 日本語ロケール形式の日時文字列をDateオブジェクトに変換
+ * スプレッドシートの日時文字列をDateオブジェクトに変換
  * Google Sheetsから取得した日時文字列（例：2025/06/28 14:30:00）を適切にパース
- * @param jstDateTimeString JST形式の日時文字列
+ * @param dateTimeString サーバーのタイムゾーンでの日時文字列
+ * @param timeZone 日時を解釈するタイムゾーン
  * @returns Dateオブジェクト（UTC）、パースに失敗した場合はnull
  */
-export function parseDateTimeFromJST(jstDateTimeString: string): Date | null {
+export function parseDateTime(
+  dateTimeString: string,
+  timeZone: string
+): Date | null {
   try {
     // 分まで（秒なし）の形式: "2025/07/31 17:32"
-    const matchMinutes = jstDateTimeString.match(
-      /^(\d{4})\/(\d{1,2})\/(\d{1,2})\s+(\d{1,2}):(\d{1,2})$/
-    );
-    
     // 秒ありの形式: "2025/07/31 17:32:00" (後方互換性のため)
-    const matchSeconds = jstDateTimeString.match(
-      /^(\d{4})\/(\d{1,2})\/(\d{1,2})\s+(\d{1,2}):(\d{1,2}):(\d{1,2})$/
+    const match = dateTimeString.match(
+      /^(\d{4})\/(\d{1,2})\/(\d{1,2})\s+(\d{1,2}):(\d{1,2})(?::(\d{1,2}))?$/
     );
 
-    let year: string, month: string, day: string, hours: string, minutes: string, seconds: string = "0";
-
-    if (matchMinutes) {
-      [, year, month, day, hours, minutes] = matchMinutes;
-    } else if (matchSeconds) {
-      [, year, month, day, hours, minutes, seconds] = matchSeconds;
-    } else {
+    if (!match) {
       // フォールバック：標準的なDate.parseを試行
-      const parsed = new Date(jstDateTimeString);
+      const parsed = new Date(dateTimeString);
       if (!isNaN(parsed.getTime())) {
         return parsed;
       }
       return null;
     }
 
-    // JST時刻として正確に解釈してUTCに変換
-    const jstOffset = 9 * 60; // JST = UTC+9 (分単位)
-    
-    // ローカル時刻として作成（JST想定）
-    const localDate = new Date(
+    const [, year, month, day, hours, minutes, seconds = "0"] = match;
+    return zonedDateTimeToUtc(
       parseInt(year),
-      parseInt(month) - 1, // 月は0ベース
+      parseInt(month),
       parseInt(day),
       parseInt(hours),
       parseInt(minutes),
-      parseInt(seconds)
+      parseInt(seconds),
+      timeZone
     );
-
-    // JSTからUTCに変換
-    const utcTime = localDate.getTime() - (jstOffset * 60000);
-    const utcDate = new Date(utcTime);
-
-    return utcDate;
   } catch (error) {
-    console.error("JST DateTime parsing error:", error);
+    console.error("DateTime parsing error:", error);
     return null;
   }
 }
+
+/**
+ * 分数を「X時間Y分」形式（英語の場合は「Xh Ym」形式）の文字列に変換
+ * @param totalMinutes 合計分数
+ * @param language 表示する言語
+ * @returns 時間と分を表す文字列
+ */
+export function formatMinutes(
+  totalMinutes: number,
+  language: Language = DEFAULT_LANGUAGE
+): string {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return createTranslator(language)("duration.format", { hours, minutes });
+}
+
+// 休憩記録の区切り文字（"2025/07/31 12:00~2025/07/31 13:00"）
+export const BREAK_SEPARATOR = "~";
+
+/**
+ * 休憩記録から未終了の休憩の開始時刻を取得
+ * 最終行が "開始~" の形式の場合のみ休憩中とみなす
+ */
+export function getOpenBreakStart(breakLog: string | undefined): string | null {
+  if (!breakLog) return null;
+  const entries = breakLog.split("\n").filter((entry) => entry.trim());
+  const last = entries[entries.length - 1];
+  if (!last || !last.endsWith(BREAK_SEPARATOR)) return null;
+  return last.slice(0, -BREAK_SEPARATOR.length);
+}
+
+/**
+ * 最後の操作時刻を取得（休憩記録の最後の時刻、休憩がなければ開始時刻）
+ */
+export function getLastActivityTime(
+  startTimeStr: string,
+  breakLog: string | undefined
+): string {
+  const entries = (breakLog || "").split("\n").filter((entry) => entry.trim());
+  const last = entries[entries.length - 1];
+  if (!last) return startTimeStr;
+
+  const [breakStart, breakEnd] = last.split(BREAK_SEPARATOR);
+  return breakEnd || breakStart || startTimeStr;
+}
+
+/**
+ * 未終了の休憩を閉じて、休憩記録と休憩時間（分）の新しい値を返す
+ * @param timeZone 休憩記録の日時を解釈・記録するタイムゾーン
+ */
+export function closeOpenBreak(
+  breakLog: string,
+  breakMinutes: number,
+  breakEndTime: Date,
+  timeZone: string
+): { breakLog: string; breakMinutes: number; addedMinutes: number } | null {
+  const openStartStr = getOpenBreakStart(breakLog);
+  if (!openStartStr) return null;
+
+  const openStart = parseDateTime(openStartStr, timeZone);
+  if (!openStart) return null;
+
+  const addedMinutes = Math.max(
+    0,
+    Math.floor((breakEndTime.getTime() - openStart.getTime()) / (1000 * 60))
+  );
+
+  return {
+    breakLog: `${breakLog}${formatRecordDateTime(breakEndTime, timeZone)}`,
+    breakMinutes: breakMinutes + addedMinutes,
+    addedMinutes,
+  };
+}
+
+/**
+ * 月別シート名（YYYY-MM）をサーバーのタイムゾーン基準で取得
+ * UTCで判定すると月初の打刻が前月のシートに書き込まれるため、サーバーのタイムゾーンで判定する
+ * @param date 対象日時
+ * @param timeZone 月を判定するタイムゾーン
+ * @returns YYYY-MM形式のシート名
+ */
+export function getMonthlySheetName(date: Date, timeZone: string): string {
+  const parts = getZonedDateParts(date, timeZone);
+  return `${parts.year}-${String(parts.month).padStart(2, "0")}`;
+}
+
+/**
+ * 直近の月別シート名を新しい順に取得（サーバーのタイムゾーン基準）
+ * 月をまたぐ勤務記録を検索するために使用
+ * @param months 取得する月数（当月と前月なら2）
+ * @param baseDate 基準日時
+ * @param timeZone 月を判定するタイムゾーン
+ * @returns YYYY-MM形式のシート名の配列（当月が先頭）
+ */
+export function getRecentMonthlySheetNames(
+  months: number,
+  baseDate: Date,
+  timeZone: string
+): string[] {
+  const parts = getZonedDateParts(baseDate, timeZone);
+  const sheetNames: string[] = [];
+
+  for (let i = 0; i < months; i++) {
+    const target = new Date(Date.UTC(parts.year, parts.month - 1 - i, 1));
+    const year = target.getUTCFullYear();
+    const month = String(target.getUTCMonth() + 1).padStart(2, "0");
+    sheetNames.push(`${year}-${month}`);
+  }
+
+  return sheetNames;
+}
+
+/**
+ * parseDateStringの結果（年月日を保持するDate）をサーバーのタイムゾーンの0:00の時刻に変換
+ * @param date parseDateStringで取得した日付
+ * @param timeZone 日付を解釈するタイムゾーン
+ * @returns その日の0:00を表すDateオブジェクト（UTC）
+ */
+export function toStartOfDay(date: Date, timeZone: string): Date {
+  return zonedDateTimeToUtc(
+    date.getFullYear(),
+    date.getMonth() + 1,
+    date.getDate(),
+    0,
+    0,
+    0,
+    timeZone
+  );
+}
+
+/**
+ * 指定期間に含まれる月別シート名（YYYY-MM）を古い順に取得（サーバーのタイムゾーン基準）
+ * @param from 期間の開始時刻
+ * @param to 期間の終了時刻
+ * @param timeZone 月を判定するタイムゾーン
+ * @returns YYYY-MM形式のシート名の配列
+ */
+export function getMonthlySheetNamesBetween(
+  from: Date,
+  to: Date,
+  timeZone: string
+): string[] {
+  const sheetNames: string[] = [];
+  const fromParts = getZonedDateParts(from, timeZone);
+  const cursor = new Date(Date.UTC(fromParts.year, fromParts.month - 1, 1));
+  const lastSheetName = getMonthlySheetName(to, timeZone);
+
+  while (sheetNames.length < 120) {
+    const sheetName = `${cursor.getUTCFullYear()}-${String(
+      cursor.getUTCMonth() + 1
+    ).padStart(2, "0")}`;
+    sheetNames.push(sheetName);
+    if (sheetName >= lastSheetName) break;
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+
+  return sheetNames;
+}
+
+/**
+ * 勤務日が属する週の月曜日を取得（/history の period:week と同じく月曜日始まり）
+ * @param workDate YYYY/MM/DD形式の日付
+ * @returns 週の月曜日（YYYY/MM/DD形式）
+ */
+export function getWeekStartDate(workDate: string): string {
+  const [year, month, day] = workDate.split("/").map(Number);
+  const monday = new Date(Date.UTC(year, month - 1, day));
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  return `${monday.getUTCFullYear()}/${String(monday.getUTCMonth() + 1).padStart(
+    2,
+    "0"
+  )}/${String(monday.getUTCDate()).padStart(2, "0")}`;
+}
+
+/**
+ * 列番号をスプレッドシートの列名に変換
+ * @param index 列番号（A列 = 0）
+ * @returns 列名（例: 0 → A, 26 → AA）
+ */
+export function toColumnLetter(index: number): string {
+  let letter = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+/**
+ * スプレッドシートの列名を列番号に変換
+ * @param letter 列名（例: A, AA。大文字・小文字は問わない）
+ * @returns 列番号（A列 = 0）、列名として解釈できない場合は null
+ */
+export function parseColumnLetter(letter: string): number | null {
+  const normalized = letter.trim().toUpperCase();
+  if (!/^[A-Z]{1,2}$/.test(normalized)) return null;
+
+  let n = 0;
+  for (const char of normalized) {
+    n = n * 26 + (char.charCodeAt(0) - 64);
+  }
+  return n - 1;
+}
+
+/**
+ * スプレッドシートのURL（またはID）からスプレッドシートIDを取り出す
+ * @param input 例: https://docs.google.com/spreadsheets/d/{id}/edit#gid=0
+ * @returns スプレッドシートID、解釈できない場合は null
+ */
+export function parseSpreadsheetId(input: string): string | null {
+  const trimmed = input.trim();
+  const match = /\/spreadsheets\/d\/([a-zA-Z0-9_-]+)/.exec(trimmed);
+  if (match) return match[1];
+  return /^[a-zA-Z0-9_-]{20,}$/.test(trimmed) ? trimmed : null;
+}
+
+/**
+ * 勤務記録を任意のキーでグループ化し、労働時間（分）を集計
+ * 終了していない記録は集計対象外
+ * @param records 勤務記録
+ * @param getKey グループ化のキーを返す関数
+ * @returns キーごとの労働時間（分）と件数（挿入順）
+ */
+export function groupWorkMinutes(
+  records: WorkRecord[],
+  getKey: (record: WorkRecord) => string
+): Map<string, { minutes: number; count: number }> {
+  const groups = new Map<string, { minutes: number; count: number }>();
+
+  for (const record of records) {
+    if (record.workMinutes === null) continue;
+    const key = getKey(record);
+    const group = groups.get(key) || { minutes: 0, count: 0 };
+    group.minutes += record.workMinutes;
+    group.count++;
+    groups.set(key, group);
+  }
+
+  return groups;
+}
+
+/**
+ * 指定の文字数に収まるだけ行を連結し、入りきらない行は件数のみ表示
+ * @param lines 表示する行
+ * @param maxLength 最大文字数
+ * @param t メッセージ関数
+ * @param moreKey 入りきらない行の件数（{count}）を表示するメッセージ
+ * @returns 改行で連結した文字列（末尾の改行なし）
+ */
+export function fitLines(
+  lines: string[],
+  maxLength: number,
+  t: Translator,
+  moreKey: MessageKey = "digest.more"
+): string {
+  let text = "";
+  let shownCount = 0;
+  for (const line of lines) {
+    if (text.length + line.length + 1 > maxLength) break;
+    text += `${line}\n`;
+    shownCount++;
+  }
+  if (shownCount < lines.length) {
+    text += `${t(moreKey, { count: lines.length - shownCount })}\n`;
+  }
+  return text.trimEnd();
+}
+
+/**
+ * 表をCSV形式の文字列に変換（RFC 4180、改行は CRLF）
+ * 表計算ソフトで開いたときに数式として実行されないよう、=+-@ で始まる文字列は先頭に ' を付ける
+ * @param rows 見出し行を含む表
+ * @returns CSV文字列（末尾は改行）
+ */
+export function toCsv(rows: Array<Array<string | number>>): string {
+  const escapeCell = (value: string | number): string => {
+    if (typeof value === "number") return String(value);
+    const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map((row) => row.map(escapeCell).join(",")).join("\r\n") + "\r\n";
+}
@@ -7,8 +7,10 @@ declare namespace Cloudflare {
 		DISCORD_PUBLIC_KEY: string;
 		DISCORD_APPLICATION_ID: string;
 		DISCORD_TOKEN: string;
-		ALLOWED_CHANNEL_IDS: string;
 		ENCRYPTION_KEY: string;
+		ATTENDANCE_COORDINATOR: DurableObjectNamespace<import("./src/index").AttendanceCoordinator>;
+		RATE_LIMITER: DurableObjectNamespace<import("./src/index").RateLimiter>;
+		KINTAI_DB: D1Database;
 	}
 }
 interface Env extends Cloudflare.Env {}
@@ -16,7 +18,7 @@ type StringifyValues<EnvType extends Record<string, unknown>> = {
 	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
 };
 declare namespace NodeJS {
-	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "DISCORD_PUBLIC_KEY" | "DISCORD_APPLICATION_ID" | "DISCORD_TOKEN" | "ALLOWED_CHANNEL_IDS" | "ENCRYPTION_KEY">> {}
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "DISCORD_PUBLIC_KEY" | "DISCORD_APPLICATION_ID" | "DISCORD_TOKEN" | "ENCRYPTION_KEY">> {}
 }
 
 // Begin runtime types